@@ -5,6 +5,10 @@
 import { tool } from '@langchain/core/tools';
 import { z } from 'zod';
 import { analyzeTx } from '../graph/workflow.js';
+import { analyzeBlock } from '../mev/block-analysis.js';
+import { analyzeAddress } from '../mev/address-analysis.js';
+import { simulateTx } from '../graph/simulation.js';
+import { replayCounterfactual } from '../mev/counterfactual.js';
 import type { ProgressEvent } from '../types/index.js';
 
 export type ToolProgressCallback = (event: ProgressEvent) => void;
@@ -16,15 +20,33 @@ export type ToolProgressCallback = (event: ProgressEvent) => void;
  * - rpc_done: { blockNumber }
  * - etherscan_start / etherscan_done: { abi, internalTxCount }
  * - tenderly_start / tenderly_done: { hasTrace }
+ * - failure_analysis_done: { failureAnalysis } ← reverted txs only
  * - draft_start / draft_chunk / draft_done
  * - verify_start / verify_done: { passed, issuesCount }
+ * - cache_hit: { pipelineVersion, cachedAt } ← cached analysis served, graph skipped
  * - done: { report } ← full report for frontend UI
+ *
+ * SSE events emitted during analyze_block:
+ * - block_scan_start: { blockNumber, chain }
+ * - block_done: { summary } ← block MEV summary for frontend UI
+ *
+ * SSE events emitted during analyze_address:
+ * - address_done: { report } ← address report for frontend UI
+ *
+ * SSE events emitted during simulate_transaction:
+ * - simulation_start: { from, to, chain, blockNumber }
+ * - calltrace_enrich_* / calltrace_explain_* / draft_start / draft_done (same stages as analyze_transaction)
+ * - simulation_done: { report } ← simulation report for frontend UI
+ *
+ * SSE events emitted during what_if_transaction:
+ * - counterfactual_start: { txHash, scenario }
+ * - counterfactual_done: { report } ← real vs counterfactual diff for frontend UI
  */
 export function createTools(onProgress?: ToolProgressCallback) {
   const analyzeTransaction = tool(
-    async ({ txHash, chain }) => {
+    async ({ txHash, chain, refresh }) => {
       try {
-        const result = await analyzeTx(txHash, chain || 'ethereum', { onProgress });
+        const result = await analyzeTx(txHash, chain || 'ethereum', { onProgress, refresh });
         
         if (result.error) {
           // Emit done event with error for frontend
@@ -79,31 +101,201 @@ export function createTools(onProgress?: ToolProgressCallback) {
       description: 'Analyze an Ethereum transaction to understand what it does, including token transfers, contract interactions, and potential MEV activity. Use this when a user provides a transaction hash (0x followed by 64 hex characters) or asks about a specific transaction.',
       schema: z.object({
         txHash: z.string().describe('The transaction hash to analyze (0x + 64 hex characters)'),
-        chain: z.string().optional().describe('The blockchain network (default: ethereum)'),
+        chain: z.string().optional().describe('The blockchain network: ethereum, arbitrum, optimism, base, polygon or bsc (default: ethereum)'),
+        refresh: z.boolean().optional().describe('Re-run the analysis instead of returning the cached result (only when the user explicitly asks to re-analyze)'),
       }),
     }
   );
 
-  // Placeholder for future tools
-  const analyzeAddress = tool(
-    async ({ address }) => {
-      // TODO: Implement address analysis
-      return JSON.stringify({
-        success: false,
-        error: 'Address analysis not yet implemented. Coming soon!',
-        address,
-      });
+  const analyzeBlockTool = tool(
+    async ({ blockNumber, chain }) => {
+      try {
+        const summary = await analyzeBlock(blockNumber, chain || 'ethereum', { onProgress });
+        // Bundles are already in the block_done event; give the LLM a compact view
+        return JSON.stringify({
+          success: true,
+          blockNumber: summary.blockNumber,
+          builder: summary.builder ?? summary.miner,
+          transactionCount: summary.transactionCount,
+          totals: summary.totals,
+          bundles: summary.bundles.slice(0, 20).map((b) => ({
+            type: b.type,
+            confidence: b.confidence,
+            txs: b.txs,
+            searcher: b.searcher,
+            victim: b.victim,
+            protocols: b.protocols,
+            grossProfitUsd: b.grossProfitUsd,
+            gasCostUsd: b.gasCostUsd,
+            netProfitUsd: b.netProfitUsd,
+          })),
+        }, (_, v) => typeof v === 'bigint' ? v.toString() : v);
+      } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        onProgress?.({ type: 'error', message: errorMsg, step: 'analyze_block' });
+        return JSON.stringify({
+          success: false,
+          error: errorMsg,
+        });
+      }
+    },
+    {
+      name: 'analyze_block',
+      description: 'Scan a whole block for MEV (sandwiches, arbitrage, liquidations, JIT liquidity) with rule-based detectors, grouping related transactions into bundles with their USD profit. Use this when a user asks about a block number or the MEV in a block.',
+      schema: z.object({
+        blockNumber: z.number().int().nonnegative().describe('The block number to analyze'),
+        chain: z.string().optional().describe('The blockchain network: ethereum, arbitrum, optimism, base, polygon or bsc (default: ethereum)'),
+      }),
+    }
+  );
+
+  const analyzeAddressTool = tool(
+    async ({ address, chain }) => {
+      if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+        return JSON.stringify({ success: false, error: 'Invalid address. Expected 0x + 40 hex chars.', address });
+      }
+      try {
+        const report = await analyzeAddress(address, chain || 'ethereum', { onProgress });
+        // Full report already sent via the address_done event; keep the LLM view compact
+        return JSON.stringify({
+          success: true,
+          address: report.address,
+          kind: report.kind,
+          label: report.label,
+          contractName: report.contractName,
+          verified: report.verified,
+          proxy: report.proxy,
+          balance: report.balance,
+          nonce: report.nonce,
+          functions: report.functions.slice(0, 20),
+          recentTransactions: { ...report.recentTransactions, latest: report.recentTransactions.latest.slice(0, 5) },
+          tokenTransfers: report.tokenTransfers,
+          coinbasePayments: report.coinbasePayments,
+          mevBot: report.mevBot,
+        }, (_, v) => typeof v === 'bigint' ? v.toString() : v);
+      } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        onProgress?.({ type: 'error', message: errorMsg, step: 'analyze_address' });
+        return JSON.stringify({
+          success: false,
+          error: errorMsg,
+          address,
+        });
+      }
     },
     {
       name: 'analyze_address',
-      description: 'Analyze an Ethereum address to understand its activity, token holdings, and transaction history. Use this when a user asks about a wallet or contract address.',
+      description: 'Analyze an address: whether it is an EOA, contract or proxy, its known label and verified name, recent transactions and token transfers, and whether it looks like an MEV bot. Use this when a user asks about a wallet or contract address.',
+      schema: z.object({
+        address: z.string().describe('The address to analyze (0x + 40 hex characters)'),
+        chain: z.string().optional().describe('The blockchain network: ethereum, arbitrum, optimism, base, polygon or bsc (default: ethereum)'),
+      }),
+    }
+  );
+
+  const simulateTransactionTool = tool(
+    async ({ chain, ...request }) => {
+      if (!/^0x[0-9a-fA-F]{40}$/.test(request.to) || (request.from && !/^0x[0-9a-fA-F]{40}$/.test(request.from))) {
+        return JSON.stringify({ success: false, error: 'Invalid address. Expected 0x + 40 hex chars.' });
+      }
+      try {
+        const report = await simulateTx(request, chain || 'ethereum', { onProgress });
+        // Full report already sent via the simulation_done event; keep the LLM view compact
+        return JSON.stringify({
+          success: true,
+          status: report.status ? 'success' : 'reverted',
+          error: report.error,
+          blockNumber: report.blockNumber,
+          functionName: report.functionName,
+          gasUsed: report.gasUsed,
+          summary: report.summary,
+          balanceDeltas: report.balanceDeltas.slice(0, 10),
+          profit: report.profit,
+        }, (_, v) => typeof v === 'bigint' ? v.toString() : v);
+      } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        onProgress?.({ type: 'error', message: errorMsg, step: 'simulate_transaction' });
+        return JSON.stringify({
+          success: false,
+          error: errorMsg,
+        });
+      }
+    },
+    {
+      name: 'simulate_transaction',
+      description: 'Simulate an unsigned transaction on top of the latest (or a given) block and explain what would happen: success or revert, token transfers, balance changes and USD result. Use this when a user asks what would happen if they sent a transaction. Pass raw calldata in `data`, or turn the request into `functionSignature` + `args` (e.g. "transfer(address,uint256)" with ["0x...", "1000000"]; a bare function name uses the verified ABI of `to`).',
+      schema: z.object({
+        from: z.string().optional().describe('Sender address (default: zero address)'),
+        to: z.string().describe('Target address (0x + 40 hex characters)'),
+        value: z.string().optional().describe('Native value in wei (decimal string)'),
+        data: z.string().optional().describe('Raw calldata (0x...), if known'),
+        functionSignature: z.string().optional().describe('Function to call, e.g. "approve(address,uint256)", or a bare name looked up in the verified ABI of `to`'),
+        args: z.array(z.any()).optional().describe('Function arguments in order (integers as decimal strings in raw token units)'),
+        gas: z.string().optional().describe('Gas limit (default: estimated)'),
+        blockNumber: z.number().int().nonnegative().optional().describe('Simulate on top of this block (default: latest)'),
+        stateOverrides: z.record(z.object({
+          balance: z.string().optional(),
+          nonce: z.string().optional(),
+          code: z.string().optional(),
+          stateDiff: z.record(z.string()).optional(),
+        })).optional().describe('Per-address state overrides (hex balance / nonce / code, storage slot → value)'),
+        chain: z.string().optional().describe('The blockchain network: ethereum, arbitrum, optimism, base, polygon or bsc (default: ethereum)'),
+      }),
+    }
+  );
+
+  const whatIfTransactionTool = tool(
+    async ({ txHash, chain, withoutFrontrun, excludeTxs, blocksLater, blockNumber, stateOverrides }) => {
+      try {
+        const report = await replayCounterfactual(txHash, chain || 'ethereum', {
+          withoutFrontrun,
+          excludeTxs,
+          blockNumber,
+          blocksLater,
+          stateOverrides,
+          onProgress,
+        });
+        // Full report already sent via the counterfactual_done event; keep the LLM view compact
+        return JSON.stringify({
+          success: true,
+          scenario: report.scenario,
+          actual: report.actual,
+          counterfactual: report.counterfactual,
+          balanceDiffs: report.balanceDiffs.slice(0, 20),
+          flowDiffs: report.flowDiffs.slice(0, 20),
+          senderDifferenceUsd: report.senderDifferenceUsd,
+        }, (_, v) => typeof v === 'bigint' ? v.toString() : v);
+      } catch (err) {
+        const errorMsg = err instanceof Error ? err.message : String(err);
+        onProgress?.({ type: 'error', message: errorMsg, step: 'what_if_transaction' });
+        return JSON.stringify({
+          success: false,
+          error: errorMsg,
+          txHash,
+        });
+      }
+    },
+    {
+      name: 'what_if_transaction',
+      description: 'Replay a historical transaction under a counterfactual scenario and compare balances and token flows with what really happened. Use this for questions like "would the victim have lost money without the frontrun" (withoutFrontrun), "what if this tx landed one block later" (blocksLater: 1), or with other block txs removed / overridden balances.',
       schema: z.object({
-        address: z.string().describe('The Ethereum address to analyze (0x + 40 hex characters)'),
+        txHash: z.string().describe('The historical transaction to replay (0x + 64 hex characters)'),
+        chain: z.string().optional().describe('The blockchain network: ethereum, arbitrum, optimism, base, polygon or bsc (default: ethereum)'),
+        withoutFrontrun: z.boolean().optional().describe('Remove the frontrun of the sandwich this tx is the victim of'),
+        excludeTxs: z.array(z.string()).optional().describe('Hashes of preceding transactions in the same block to remove'),
+        blocksLater: z.number().int().optional().describe('Land the tx this many blocks later (negative: earlier), at the top of the block'),
+        blockNumber: z.number().int().nonnegative().optional().describe('Land the tx at the top of this block'),
+        stateOverrides: z.record(z.object({
+          balance: z.string().optional(),
+          nonce: z.string().optional(),
+          code: z.string().optional(),
+          stateDiff: z.record(z.string()).optional(),
+        })).optional().describe('Per-address state overrides applied right before the tx (hex balance / nonce / code, storage slot → value)'),
       }),
     }
   );
 
-  return [analyzeTransaction, analyzeAddress];
+  return [analyzeTransaction, analyzeBlockTool, analyzeAddressTool, simulateTransactionTool, whatIfTransactionTool];
 }
 
-export const toolNames = ['analyze_transaction', 'analyze_address'];
+export const toolNames = ['analyze_transaction', 'analyze_block', 'analyze_address', 'simulate_transaction', 'what_if_transaction'];
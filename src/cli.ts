@@ -1,22 +1,55 @@
 #!/usr/bin/env node
 import { analyzeTx } from './graph/workflow.js';
+import { analyzeBlock } from './mev/block-analysis.js';
+import { CHAINS, DEFAULT_CHAIN, getChainConfig } from './config/chains.js';
+import type { FixtureOptions } from './tools/fixtures.js';
 
 async function main() {
   const args = process.argv.slice(2);
+  let chain = DEFAULT_CHAIN;
+  const chainFlag = args.indexOf('--chain');
+  if (chainFlag !== -1) {
+    chain = args[chainFlag + 1] ?? '';
+    args.splice(chainFlag, 2);
+  }
+  const refreshFlag = args.indexOf('--refresh');
+  const refresh = refreshFlag !== -1;
+  if (refresh) args.splice(refreshFlag, 1);
+  let fixtures: FixtureOptions | undefined;
+  for (const mode of ['record', 'replay'] as const) {
+    const flag = args.indexOf(`--${mode}`);
+    if (flag !== -1) {
+      fixtures = { mode };
+      args.splice(flag, 1);
+    }
+  }
 
   if (args.length === 0) {
     console.log(`
 MEV Transaction Analyzer
 
 Usage:
-  pnpm exec tsx src/cli.ts <transaction_hash>
+  pnpm exec tsx src/cli.ts <transaction_hash> [--chain <name>] [--refresh] [--record | --replay]
+  pnpm exec tsx src/cli.ts block <block_number> [--chain <name>]
+
+Chains: ${Object.keys(CHAINS).join(', ')} (default: ${DEFAULT_CHAIN})
+Cache:    analyses are cached in data/analysis-cache.db; --refresh re-runs and overwrites
+Fixtures: --record saves RPC / trace / Etherscan / LLM responses under fixtures/<hash>/,
+          --replay runs fully offline from them
 
 Example:
   pnpm exec tsx src/cli.ts 0x1234567890abcdef...
+  pnpm exec tsx src/cli.ts 0x1234567890abcdef... --chain base
+  pnpm exec tsx src/cli.ts block 19000000
 `);
     process.exit(0);
   }
 
+  if (args[0] === 'block') {
+    await runBlock(args[1], chain);
+    return;
+  }
+
   const txHash = args[0];
 
   if (!txHash.startsWith('0x') || txHash.length !== 66) {
@@ -24,11 +57,18 @@ Example:
     process.exit(1);
   }
 
-  console.log(`\nAnalyzing: ${txHash}\n`);
+  try {
+    chain = getChainConfig(chain).name;
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+
+  console.log(`\nAnalyzing: ${txHash} (${chain})\n`);
   console.log('─'.repeat(60));
 
   try {
-    const result = await analyzeTx(txHash);
+    const result = await analyzeTx(txHash, chain, { fixtures, refresh });
 
     if (result.error) {
       console.error('Error:', result.error);
@@ -109,4 +149,43 @@ Example:
   }
 }
 
+async function runBlock(blockArg: string | undefined, chain: string) {
+  const blockNumber = Number(blockArg);
+  if (!blockArg || !Number.isInteger(blockNumber) || blockNumber < 0) {
+    console.error('Invalid block number.');
+    process.exit(1);
+  }
+  try {
+    chain = getChainConfig(chain).name;
+  } catch (e) {
+    console.error((e as Error).message);
+    process.exit(1);
+  }
+
+  console.log(`\nAnalyzing block: ${blockNumber} (${chain})\n`);
+  console.log('─'.repeat(60));
+
+  try {
+    const summary = await analyzeBlock(blockNumber, chain);
+    const usd = (v: number | null) => (v === null ? 'n/a' : `$${v.toFixed(2)}`);
+
+    console.log('\n' + '='.repeat(60));
+    console.log(`\nBlock ${summary.blockNumber}: ${summary.transactionCount} txs, ${summary.candidateTxs} candidates`);
+    console.log(`  Fee recipient: ${summary.miner}${summary.builder ? ` [${summary.builder}]` : ''}`);
+    const types = Object.entries(summary.totals.byType).map(([type, n]) => `${n} ${type}`).join(', ');
+    console.log(`  MEV bundles: ${summary.totals.bundles}${types ? ` (${types})` : ''}`);
+    console.log(`  Gross ${usd(summary.totals.grossProfitUsd)}, gas ${usd(summary.totals.gasCostUsd)}, net ${usd(summary.totals.netProfitUsd)}`);
+
+    summary.bundles.forEach((b, i) => {
+      console.log(`\n  ${i + 1}. ${b.type} (${(b.confidence * 100).toFixed(0)}%) searcher ${b.searcher}`);
+      for (const t of b.txs) console.log(`       #${t.index} ${t.role.padEnd(9)} ${t.hash}`);
+      console.log(`       gross ${usd(b.grossProfitUsd)}, gas ${usd(b.gasCostUsd)}, net ${usd(b.netProfitUsd)}`);
+    });
+    console.log('\n');
+  } catch (error) {
+    console.error('\nFailed:', error);
+    process.exit(1);
+  }
+}
+
 main();
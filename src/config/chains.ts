@@ -0,0 +1,98 @@
+/**
+ * Chain registry: maps the `chain` argument of analyzeTx / analyze_transaction to
+ * RPC endpoint, Etherscan V2 chain id, native token and address-label chainID.
+ */
+import type { Chain } from 'viem';
+import { arbitrum, base, bsc, mainnet, optimism, polygon } from 'viem/chains';
+import { config } from './index.js';
+
+export interface ChainConfig {
+  name: string;
+  aliases: string[];
+  viemChain: Chain;
+  rpcUrl: string;
+  etherscanChainId: number;
+  nativeSymbol: string;
+  /** WETH-style wrapper of the native token (Deposit / Withdrawal events) */
+  wrappedNativeToken: string;
+  labelChainId: number;
+}
+
+export const DEFAULT_CHAIN = 'ethereum';
+
+export const CHAINS: Record<string, ChainConfig> = {
+  ethereum: {
+    name: 'ethereum',
+    aliases: ['eth', 'mainnet'],
+    viemChain: mainnet,
+    rpcUrl: config.rpcUrl,
+    etherscanChainId: 1,
+    nativeSymbol: 'ETH',
+    wrappedNativeToken: '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2',
+    labelChainId: 1,
+  },
+  arbitrum: {
+    name: 'arbitrum',
+    aliases: ['arb', 'arbitrum-one'],
+    viemChain: arbitrum,
+    rpcUrl: process.env.ARBITRUM_RPC_URL || 'https://arb1.arbitrum.io/rpc',
+    etherscanChainId: 42161,
+    nativeSymbol: 'ETH',
+    wrappedNativeToken: '0x82af49447d8a07e3bd95bd0d56f35241523fbab1',
+    labelChainId: 42161,
+  },
+  optimism: {
+    name: 'optimism',
+    aliases: ['op'],
+    viemChain: optimism,
+    rpcUrl: process.env.OPTIMISM_RPC_URL || 'https://mainnet.optimism.io',
+    etherscanChainId: 10,
+    nativeSymbol: 'ETH',
+    wrappedNativeToken: '0x4200000000000000000000000000000000000006',
+    labelChainId: 10,
+  },
+  base: {
+    name: 'base',
+    aliases: [],
+    viemChain: base,
+    rpcUrl: process.env.BASE_RPC_URL || 'https://mainnet.base.org',
+    etherscanChainId: 8453,
+    nativeSymbol: 'ETH',
+    wrappedNativeToken: '0x4200000000000000000000000000000000000006',
+    labelChainId: 8453,
+  },
+  polygon: {
+    name: 'polygon',
+    aliases: ['matic', 'pol'],
+    viemChain: polygon,
+    rpcUrl: process.env.POLYGON_RPC_URL || 'https://polygon-rpc.com',
+    etherscanChainId: 137,
+    nativeSymbol: 'POL',
+    wrappedNativeToken: '0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270',
+    labelChainId: 137,
+  },
+  bsc: {
+    name: 'bsc',
+    aliases: ['bnb', 'binance', 'bnb-chain'],
+    viemChain: bsc,
+    rpcUrl: process.env.BSC_RPC_URL || 'https://bsc-dataseed.bnbchain.org',
+    etherscanChainId: 56,
+    nativeSymbol: 'BNB',
+    wrappedNativeToken: '0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c',
+    labelChainId: 56,
+  },
+};
+
+/**
+ * Resolve a chain by name, alias or numeric chain id
+ */
+export function getChainConfig(chain: string = DEFAULT_CHAIN): ChainConfig {
+  const key = chain.trim().toLowerCase();
+  const found = Object.values(CHAINS).find(
+    (c) => c.name === key || c.aliases.includes(key) || String(c.etherscanChainId) === key
+  );
+  if (!found) {
+    throw new Error(`Unsupported chain: ${chain}. Supported: ${Object.keys(CHAINS).join(', ')}`);
+  }
+  return found;
+}
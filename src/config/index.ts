@@ -12,6 +12,15 @@ export const config: Config = {
   
   tenderlyRpcUrl: process.env.TENDERLY_RPC_URL,
   useTenderlySimulation: process.env.USE_TENDERLY_SIMULATION === 'true',
+  traceProvider: process.env.TRACE_PROVIDER,
+  traceRpcUrl: process.env.TRACE_RPC_URL,
+  anvilRpcUrl: process.env.ANVIL_RPC_URL,
+  simulationBackend: process.env.SIMULATION_BACKEND === 'anvil' ? 'anvil' : 'tenderly',
+  fixtureMode: process.env.FIXTURE_MODE === 'record' || process.env.FIXTURE_MODE === 'replay'
+    ? process.env.FIXTURE_MODE
+    : 'off',
+  fixtureDir: process.env.FIXTURE_DIR || 'fixtures',
+  analysisCache: process.env.ANALYSIS_CACHE !== 'false',
   enableVerification: process.env.ENABLE_VERIFICATION !== 'false',
 };
 
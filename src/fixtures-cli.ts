@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+/**
+ * Record or replay the fixture set: every tx hash listed in docs/COMPLEX_TX_EXAMPLES.md.
+ * Each hash runs in its own process so in-memory caches never leak between fixtures.
+ *
+ *   pnpm run fixtures:record   (needs RPC, Etherscan, trace and LLM credentials)
+ *   pnpm run fixtures:replay   (offline)
+ */
+import { spawnSync } from 'node:child_process';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { hasFixtures } from './tools/fixtures.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const EXAMPLES_DOC = path.join(ROOT, 'docs', 'COMPLEX_TX_EXAMPLES.md');
+
+function readFixtureHashes(doc: string = EXAMPLES_DOC): string[] {
+  const hashes = readFileSync(doc, 'utf8').match(/0x[0-9a-fA-F]{64}/g) ?? [];
+  return [...new Set(hashes.map((h) => h.toLowerCase()))];
+}
+
+function main() {
+  const mode = process.argv[2];
+  if (mode !== 'record' && mode !== 'replay') {
+    console.log('Usage: pnpm exec tsx src/fixtures-cli.ts <record|replay> [tx_hash ...]');
+    process.exit(mode ? 1 : 0);
+  }
+
+  const hashes = process.argv.length > 3 ? process.argv.slice(3) : readFixtureHashes();
+  const failed: string[] = [];
+
+  for (const hash of hashes) {
+    if (mode === 'replay' && !hasFixtures(hash)) {
+      console.log(`⏭️  ${hash}: no fixtures recorded`);
+      failed.push(hash);
+      continue;
+    }
+    console.log(`\n🎞️  ${mode} ${hash}`);
+    const result = spawnSync(
+      process.execPath,
+      [...process.execArgv, path.join(ROOT, 'src', 'cli.ts'), hash, `--${mode}`],
+      { stdio: 'inherit', cwd: ROOT }
+    );
+    if (result.status !== 0) failed.push(hash);
+  }
+
+  console.log(`\n🎞️  ${mode}: ${hashes.length - failed.length}/${hashes.length} succeeded`);
+  if (failed.length > 0) {
+    failed.forEach((h) => console.log(`   ✗ ${h}`));
+    process.exit(1);
+  }
+}
+
+main();
@@ -0,0 +1,91 @@
+/**
+ * SQLite cache of completed analyses, keyed by chain + tx hash + pipeline version.
+ * Lives next to the chat store (data/analysis-cache.db by default).
+ */
+import type Database from 'better-sqlite3';
+import path from 'path';
+import { DATA_DIR, openSqlite } from '../tools/sqlite.js';
+import type { AnalysisState } from '../types/index.js';
+
+/**
+ * Bump whenever a pipeline change alters reports, so stale entries are not served.
+ */
+export const ANALYSIS_PIPELINE_VERSION = 16;
+
+const DB_PATH = process.env.ANALYSIS_CACHE_DB_PATH || path.join(DATA_DIR, 'analysis-cache.db');
+
+export interface CachedAnalysis {
+  state: AnalysisState;
+  pipelineVersion: number;
+  createdAt: number;
+}
+
+let db: Database.Database | null | undefined;
+
+function getDb(): Database.Database | null {
+  if (db === undefined) {
+    db = openSqlite(DB_PATH, `
+      CREATE TABLE IF NOT EXISTS analyses (
+        chain TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        pipeline_version INTEGER NOT NULL,
+        final_report TEXT NOT NULL,
+        artifacts TEXT NOT NULL,
+        created_at INTEGER DEFAULT (strftime('%s', 'now')),
+        PRIMARY KEY (chain, tx_hash, pipeline_version)
+      );
+    `, 'Analysis cache');
+  }
+  return db;
+}
+
+const jsonReplacer = (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value);
+
+export function getCachedAnalysis(chain: string, txHash: string): CachedAnalysis | null {
+  const row = getDb()
+    ?.prepare(
+      'SELECT final_report, artifacts, pipeline_version, created_at FROM analyses WHERE chain = ? AND tx_hash = ? AND pipeline_version = ?'
+    )
+    .get(chain, txHash.toLowerCase(), ANALYSIS_PIPELINE_VERSION) as
+    | { final_report: string; artifacts: string; pipeline_version: number; created_at: number }
+    | undefined;
+  if (!row) return null;
+
+  return {
+    state: {
+      ...JSON.parse(row.artifacts),
+      txHash,
+      chain,
+      finalReport: JSON.parse(row.final_report),
+    },
+    pipelineVersion: row.pipeline_version,
+    createdAt: row.created_at,
+  };
+}
+
+/**
+ * Store a finished analysis. Failed runs are not cached.
+ */
+export function cacheAnalysis(state: AnalysisState): void {
+  if (state.error || !state.finalReport) return;
+  const { txHash, chain, finalReport, error: _error, ...artifacts } = state;
+  getDb()
+    ?.prepare(
+      `INSERT OR REPLACE INTO analyses (chain, tx_hash, pipeline_version, final_report, artifacts, created_at)
+       VALUES (?, ?, ?, ?, ?, strftime('%s', 'now'))`
+    )
+    .run(
+      chain,
+      txHash.toLowerCase(),
+      ANALYSIS_PIPELINE_VERSION,
+      JSON.stringify(finalReport, jsonReplacer),
+      JSON.stringify(artifacts, jsonReplacer)
+    );
+}
+
+export function deleteCachedAnalysis(chain: string, txHash: string): boolean {
+  const result = getDb()
+    ?.prepare('DELETE FROM analyses WHERE chain = ? AND tx_hash = ?')
+    .run(chain, txHash.toLowerCase());
+  return (result?.changes ?? 0) > 0;
+}
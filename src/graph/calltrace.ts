@@ -3,13 +3,20 @@
  * Enriches addresses in the trace (labels, ABI) and produces step-by-step LLM explanation.
  */
 import { getProgress } from '../chat/progress.js';
-import { getAddressLabel, getContractABI, getContractSource } from '../tools/etherscan.js';
+import { getAddressLabel } from '../tools/etherscan.js';
+import { getContractMetadata } from '../tools/contract-metadata.js';
 import { isContract } from '../tools/rpc.js';
 import { extractAllCallsFromTrace } from '../tools/tenderly-trace.js';
+import { decodeTraceCall } from '../tools/call-decoder.js';
+import { decodeEvents } from '../tools/event-decoder.js';
+import { describeSwaps } from '../mev/swaps.js';
+import { getChainConfig } from '../config/chains.js';
+import { invokeLLM } from '../tools/fixtures.js';
 import type { CallTrace } from '../tools/tenderly.js';
 import type {
   AnalysisState,
   CallTraceAddressInfo,
+  DecodedParam,
   FlattenedCall,
   InternalTransaction,
 } from '../types/index.js';
@@ -27,9 +34,15 @@ function extractUniqueAddressesFromCalls(
   return Array.from(set);
 }
 
-function flattenCallTrace(call: CallTrace, depth = 0, startIndex = { n: 0 }): FlattenedCall[] {
+function flattenCallTrace(
+  call: CallTrace,
+  enrichment: Record<string, CallTraceAddressInfo>,
+  depth = 0,
+  startIndex = { n: 0 }
+): FlattenedCall[] {
   const result: FlattenedCall[] = [];
   const sel = call.input?.slice(0, 10) || '';
+  const decoded = decodeTraceCall(call, call.to ? enrichment[call.to.toLowerCase()]?.abi : null);
   result.push({
     depth,
     index: startIndex.n++,
@@ -40,12 +53,18 @@ function flattenCallTrace(call: CallTrace, depth = 0, startIndex = { n: 0 }): Fl
     gas: call.gas,
     gasUsed: call.gasUsed,
     input: call.input,
+    output: call.output,
+    error: call.error,
     functionSelector: sel !== '0x' ? sel : undefined,
-    decodedInput: (call as any).decodedInput,
+    functionName: decoded?.functionName,
+    functionSignature: decoded?.signature,
+    decodingSource: decoded?.source,
+    decodedInput: decoded?.inputs,
+    decodedOutput: decoded?.outputs,
   });
   if (call.calls) {
     for (const sub of call.calls) {
-      result.push(...flattenCallTrace(sub, depth + 1, startIndex));
+      result.push(...flattenCallTrace(sub, enrichment, depth + 1, startIndex));
     }
   }
   return result;
@@ -65,10 +84,13 @@ export async function callTraceEnrichNode(
         type: itx.type,
       }));
 
+  const receiptLogs = state.receipt?.logs ?? state.rawTx.logs ?? [];
+
   if (calls.length === 0) {
     return {
       flattenedCalls: [],
       callTraceEnrichment: {},
+      decodedEvents: decodeEvents(receiptLogs, () => null),
     };
   }
 
@@ -81,23 +103,18 @@ export async function callTraceEnrichNode(
 
   for (const addr of toEnrich) {
     try {
-      const label = await getAddressLabel(addr);
-      const isContractAddr = await isContract(addr);
-      let abi: any[] | null = null;
-      let source: string | null = null;
-      if (isContractAddr) {
-        [abi, source] = await Promise.all([
-          getContractABI(addr),
-          getContractSource(addr).then((s) =>
-            s && s.length > 30000 ? s.slice(0, 30000) + '\n/* truncated */' : s
-          ),
-        ]);
-      }
+      const label = await getAddressLabel(addr, state.chain);
+      const isContractAddr = await isContract(addr, state.chain);
+      const metadata = isContractAddr
+        ? await getContractMetadata(addr, state.chain, state.rawTx.blockNumber)
+        : null;
+      const source = metadata?.implementationSource ?? metadata?.source ?? null;
       enrichment[addr.toLowerCase()] = {
         label: label || null,
         isContract: isContractAddr,
-        abi: abi || undefined,
-        source: source || undefined,
+        abi: metadata?.decodingAbi || undefined,
+        source: source && source.length > 30000 ? source.slice(0, 30000) + '\n/* truncated */' : source || undefined,
+        proxy: metadata?.proxy ?? null,
       };
     } catch (e) {
       console.warn(`   [CallTrace] Failed to enrich ${addr.slice(0, 10)}...:`, e);
@@ -110,7 +127,7 @@ export async function callTraceEnrichNode(
 
   let flattenedCalls: FlattenedCall[] = [];
   if (state.tenderlyCallTrace?.trace?.[0]) {
-    flattenedCalls = flattenCallTrace(state.tenderlyCallTrace.trace[0]);
+    flattenedCalls = flattenCallTrace(state.tenderlyCallTrace.trace[0], enrichment);
   } else {
     flattenedCalls = (state.internalTxs || []).map((itx, i) => ({
       depth: 0,
@@ -125,12 +142,25 @@ export async function callTraceEnrichNode(
     }));
   }
 
-  getProgress()?.({ type: 'calltrace_enrich_done', payload: { addressesEnriched: toEnrich.length } });
-  console.log(`   ✓ Enriched ${toEnrich.length} addresses, ${flattenedCalls.length} calls`);
+  const decodedEvents = decodeEvents(
+    receiptLogs,
+    (address) => enrichment[address]?.abi,
+    state.tenderlyCallTrace?.trace?.[0]
+  );
+  const eventsDecoded = decodedEvents.filter((e) => e.name).length;
+
+  const decodedCount = flattenedCalls.filter((c) => c.functionName).length;
+  getProgress()?.({
+    type: 'calltrace_enrich_done',
+    payload: { addressesEnriched: toEnrich.length, eventsDecoded },
+  });
+  console.log(`   ✓ Enriched ${toEnrich.length} addresses, ${flattenedCalls.length} calls (${decodedCount} decoded)`);
+  console.log(`   ✓ Decoded ${eventsDecoded}/${decodedEvents.length} events`);
 
   return {
     callTraceEnrichment: enrichment,
     flattenedCalls,
+    decodedEvents,
   };
 }
 
@@ -146,16 +176,39 @@ export function buildCallTraceExplainPrompt(state: AnalysisState): string {
     return l ? `${addr.slice(0, 10)}... [${l}]` : addr.slice(0, 14) + '...';
   };
 
+  const fmtParams = (params: DecodedParam[]) =>
+    params
+      .map((p) => {
+        const value = typeof p.value === 'string' ? p.value : JSON.stringify(p.value);
+        return `${p.name}=${value && value.length > 80 ? value.slice(0, 80) + '…' : value}`;
+      })
+      .join(', ');
+
   const lines = calls.slice(0, 80).map((c, i) => {
     const indent = '  '.repeat(c.depth);
     const valueEth = (Number(c.value) / 1e18).toFixed(6);
-    return `${indent}${i + 1}. ${c.type} ${fmt(c.from)} → ${fmt(c.to)} | value: ${valueEth} ETH | selector: ${c.functionSelector || 'N/A'}`;
+    const fn = c.functionName
+      ? `${c.functionName}(${c.decodedInput ? fmtParams(c.decodedInput) : '?'})${c.decodedOutput ? ` → (${fmtParams(c.decodedOutput)})` : ''}`
+      : `selector: ${c.functionSelector || 'N/A'}`;
+    const error = c.error ? ` | error: ${c.error}` : '';
+    return `${indent}${i + 1}. ${c.type} ${fmt(c.from)} → ${fmt(c.to)} | value: ${valueEth} ETH | ${fn}${error}`;
   });
 
   const enrichmentTable = Object.entries(enrichment)
-    .map(([addr, info]) => `- ${addr}: ${info.label || 'unknown'} | contract: ${info.isContract} | ABI: ${info.abi?.length || 0} entries`)
+    .map(([addr, info]) => {
+      const proxy = info.proxy ? ` | proxy (${info.proxy.type}) → ${info.proxy.implementation}` : '';
+      return `- ${addr}: ${info.label || 'unknown'} | contract: ${info.isContract} | ABI: ${info.abi?.length || 0} entries${proxy}`;
+    })
     .join('\n');
 
+  const swaps = state.swaps?.length
+    ? `\n## Decoded Swaps (from pool events; call # = step number)\n${describeSwaps(state.swaps.slice(0, 30), state.tokenFlows || [], getChainConfig(state.chain).nativeSymbol).map((line) => `- ${line}`).join('\n')}\n`
+    : '';
+
+  const failure = state.failureAnalysis?.origin
+    ? `\n## Revert\nThe transaction reverted. ${state.failureAnalysis.explanation}\nExplain the steps up to the revert and where it stopped; nothing after it took effect.\n`
+    : '';
+
   return `You are analyzing a transaction's call trace. Explain each call step-by-step.
 
 ## Flattened Call Trace (${calls.length} calls, showing up to 80)
@@ -166,11 +219,11 @@ ${calls.length > 80 ? `... and ${calls.length - 80} more calls` : ''}
 
 ## Address Enrichment
 ${enrichmentTable || 'No enrichment'}
-
+${swaps}${failure}
 ## Task
 For each numbered step, briefly explain:
 1. Who called whom (use labels when available)
-2. What the call likely does (based on selector, type, value)
+2. What the call does (based on the decoded function, arguments and return values; selector, type and value otherwise)
 3. How it fits into the overall flow (e.g. "swap step", "approve", "liquidation")
 
 Be concise. Use the address labels. For DELEGATECALL, note that the caller's code runs in the callee's context.
@@ -195,7 +248,7 @@ export async function callTraceExplainNode(
     const { ChatAnthropic } = await import('@langchain/anthropic');
     const { ChatOpenAI } = await import('@langchain/openai');
 
-    const llm =
+    const createLLM = () =>
       llmConfig.provider === 'openrouter'
         ? new ChatOpenAI({
             apiKey: config.anthropicApiKey,
@@ -210,8 +263,7 @@ export async function callTraceExplainNode(
           });
 
     const prompt = buildCallTraceExplainPrompt(state);
-    const response = await llm.invoke(prompt);
-    const explanation = response.content.toString();
+    const explanation = await invokeLLM(prompt, createLLM);
 
     getProgress()?.({
       type: 'calltrace_explain_done',
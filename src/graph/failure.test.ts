@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { encodeAbiParameters, parseAbiParameters } from 'viem';
+import { failureAnalysisNode } from './failure.js';
+import type { CallTrace } from '../tools/tenderly.js';
+import type { AnalysisState } from '../types/index.js';
+
+const EOA = '0x00000000000000000000000000000000000000e0';
+const BOT = '0x00000000000000000000000000000000000000e1';
+const POOL = '0x00000000000000000000000000000000000000a1';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+
+// No verified ABIs: revert strings and panics decode without one
+vi.mock('../tools/contract-metadata.js', () => ({
+  getContractMetadata: async () => ({ decodingAbi: null }),
+}));
+
+const revertString = (message: string) => `0x08c379a0${encodeAbiParameters(parseAbiParameters('string'), [message]).slice(2)}`;
+
+const call = (from: string, to: string, extra: Partial<CallTrace> = {}): CallTrace => ({ type: 'CALL', from, to, ...extra });
+
+const analyze = async (root: CallTrace) => {
+  const state = {
+    chain: 'ethereum',
+    rawTx: { hash: '0x01', from: EOA, to: BOT, value: '0', gasUsed: '100000', gasPrice: '1', blockNumber: 1, input: '0x', logs: [] },
+    receipt: { status: 'reverted' },
+    tenderlyCallTrace: { gasUsed: '100000', status: false, trace: [root], logs: [] },
+  } as unknown as AnalysisState;
+  return (await failureAnalysisNode(state)).failureAnalysis!;
+};
+
+describe('failureAnalysisNode', () => {
+  it('follows revert data bubbled up through every frame down to the pool that raised it', async () => {
+    const bubbled = revertString('UniswapV2: INSUFFICIENT_OUTPUT_AMOUNT');
+    const analysis = await analyze(
+      call(EOA, BOT, {
+        error: 'execution reverted',
+        output: bubbled,
+        calls: [
+          call(BOT, WETH, { type: 'STATICCALL', function: 'balanceOf' }),
+          call(BOT, WETH, { function: 'transfer' }),
+          call(BOT, POOL, { error: 'execution reverted', output: bubbled, function: 'swap' }),
+        ],
+      })
+    );
+
+    expect(analysis.path.map((f) => [f.index, f.to])).toEqual([[0, BOT], [3, POOL]]);
+    expect(analysis.origin).toMatchObject({ index: 3, depth: 1, from: BOT, to: POOL, functionName: 'swap' });
+    expect(analysis.reason).toMatchObject({ kind: 'error', message: 'UniswapV2: INSUFFICIENT_OUTPUT_AMOUNT' });
+    expect(analysis.category).toBe('slippage');
+    expect(analysis.succeededCalls).toBe(1);
+    expect(analysis.strategyGuard).toBe(false);
+  });
+
+  it('stops at a frame that reverts with data of its own and flags the bot\'s guard', async () => {
+    const analysis = await analyze(
+      call(EOA, BOT, {
+        error: 'execution reverted',
+        output: revertString('no profit'),
+        calls: [
+          call(BOT, WETH, { function: 'transfer' }),
+          call(BOT, POOL, { error: 'execution reverted', output: revertString('UniswapV2: K') }),
+        ],
+      })
+    );
+
+    expect(analysis.path.map((f) => f.to)).toEqual([BOT]);
+    expect(analysis.reason.message).toBe('no profit');
+    expect(analysis.category).toBe('strategy_guard');
+    expect(analysis.succeededCalls).toBe(1);
+    expect(analysis.strategyGuard).toBe(true);
+  });
+
+  it('classifies an inner out-of-gas before the empty revert of its callers', async () => {
+    const analysis = await analyze(
+      call(EOA, BOT, {
+        error: 'execution reverted',
+        output: '0x',
+        calls: [call(BOT, POOL, { error: 'out of gas' })],
+      })
+    );
+
+    expect(analysis.origin?.to).toBe(POOL);
+    expect(analysis.reason.kind).toBe('empty');
+    expect(analysis.category).toBe('out_of_gas');
+  });
+});
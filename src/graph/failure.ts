@@ -0,0 +1,194 @@
+/**
+ * Failure analysis stage for reverted transactions.
+ * Follows the reverting frames of the call trace down to the call the revert originated
+ * in, decodes its revert data and classifies the failure (slippage, deadline, strategy
+ * guard of an MEV bot, ...).
+ */
+import { getProgress } from '../chat/progress.js';
+import { getContractMetadata } from '../tools/contract-metadata.js';
+import { decodeRevertReason } from '../tools/revert-decoder.js';
+import type { CallTrace } from '../tools/tenderly.js';
+import type { AnalysisState, FailureAnalysis, FailureCategory, RevertReason } from '../types/index.js';
+
+interface Frame {
+  call: CallTrace;
+  index: number;
+  depth: number;
+}
+
+// Checked in order against the revert message (and the trace error for out of gas)
+const CATEGORY_PATTERNS: Array<[FailureCategory, RegExp]> = [
+  ['out_of_gas', /out of gas|outofgas/i],
+  ['deadline', /expired|deadline|too old/i],
+  ['slippage', /insufficient_output|insufficient_[ab]_amount|too little received|too much requested|excessive_input|slippage|min(imum)?[ _]?(amount|return|out)|^spl$/i],
+  ['transfer_failed', /^stf?$|^tf$|transfer_?failed|transferhelper|safeerc20/i],
+  ['insufficient_balance', /insufficient|exceeds (balance|allowance)|not enough/i],
+  ['access_control', /owner|unauthori[sz]ed|forbidden|not allowed|only[a-z ]|access/i],
+  ['strategy_guard', /profit|unprofitable/i],
+];
+
+// Top-level contracts whose own checks protect a user, not a searcher
+const ROUTER_LABEL = /router|aggregat|1inch|\b0x (exchange|protocol)\b|paraswap|\bcow ?swap\b|uniswap|sushi|metamask|kyber|odos/i;
+
+const CATEGORY_EXPLANATIONS: Record<FailureCategory, string> = {
+  slippage: 'The output was below the minimum the sender accepted (slippage protection).',
+  deadline: 'The transaction was included after its deadline.',
+  insufficient_balance: 'An account lacked the balance, allowance or liquidity required.',
+  transfer_failed: 'A token transfer failed (missing balance / allowance or a non-standard token).',
+  out_of_gas: 'A call ran out of gas.',
+  arithmetic: 'An arithmetic check failed (overflow, underflow or division by zero).',
+  access_control: 'The caller was not authorized.',
+  strategy_guard:
+    "The sender's own contract aborted after its calls succeeded: a strategy guard (minimum profit, expected reserves or block / builder check), typical of an MEV bot that lost the race.",
+  unknown: '',
+};
+
+const subtreeSize = (call: CallTrace): number =>
+  1 + (call.calls ?? []).reduce((n, sub) => n + subtreeSize(sub), 0);
+
+function indexFrames(root: CallTrace): Map<CallTrace, Frame> {
+  const frames = new Map<CallTrace, Frame>();
+  let index = 0;
+  const walk = (call: CallTrace, depth: number) => {
+    frames.set(call, { call, index: index++, depth });
+    for (const sub of call.calls ?? []) walk(sub, depth + 1);
+  };
+  walk(root, 0);
+  return frames;
+}
+
+const hasData = (output?: string) => Boolean(output && output !== '0x');
+
+/**
+ * Reverting frames from the root down to the origin. A frame is followed into its last
+ * failed sub-call unless it reverted with data of its own.
+ */
+function revertPath(root: CallTrace, frames: Map<CallTrace, Frame>): Frame[] {
+  const path = [frames.get(root)!];
+  let current = root;
+  for (;;) {
+    const failed = (current.calls ?? []).filter((c) => c.error);
+    const child = failed[failed.length - 1];
+    if (!child) break;
+    if (hasData(current.output) && current.output !== child.output) break;
+    path.push(frames.get(child)!);
+    current = child;
+  }
+  return path;
+}
+
+function categorize(reason: RevertReason, path: Frame[]): FailureCategory {
+  if (path.some((f) => /out of gas|outofgas/i.test(f.call.error ?? ''))) return 'out_of_gas';
+  if (reason.kind === 'panic' && (reason.panicCode === 0x11 || reason.panicCode === 0x12)) return 'arithmetic';
+  const message = reason.message ?? '';
+  if (!message) return 'unknown';
+  return CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(message))?.[0] ?? 'unknown';
+}
+
+function describeReason(reason: RevertReason): string {
+  switch (reason.kind) {
+    case 'error':
+      return `"${reason.message}"`;
+    case 'panic':
+      return `panic 0x${reason.panicCode!.toString(16)} (${reason.message})`;
+    case 'custom': {
+      const args = (reason.args ?? []).map((a) => `${a.name}=${typeof a.value === 'string' ? a.value : JSON.stringify(a.value)}`);
+      return `custom error ${reason.message}(${args.join(', ')})`;
+    }
+    case 'empty':
+      return 'no revert data';
+    default:
+      return `undecoded revert data ${reason.selector ?? ''}`.trim();
+  }
+}
+
+export async function failureAnalysisNode(
+  state: AnalysisState
+): Promise<Partial<AnalysisState>> {
+  if (state.error || !state.rawTx) return {};
+  const root: CallTrace | undefined = state.tenderlyCallTrace?.trace?.[0];
+  const reverted = state.receipt?.status === 'reverted' || Boolean(root?.error);
+  if (!reverted) return { failureAnalysis: null };
+
+  console.log('💥 [Failure] Analyzing revert...');
+  const labels = state.addressLabels || {};
+  const enrichment = state.callTraceEnrichment || {};
+  const labelOf = (address: string) => labels[address] ?? enrichment[address.toLowerCase()]?.label ?? null;
+
+  let failureAnalysis: FailureAnalysis;
+  if (!root) {
+    failureAnalysis = {
+      origin: null,
+      path: [],
+      reason: { kind: 'unknown', message: null },
+      category: 'unknown',
+      succeededCalls: 0,
+      strategyGuard: false,
+      explanation: 'The transaction reverted; without a call trace the reverting call and its reason are unknown.',
+    };
+  } else {
+    const frames = indexFrames(root);
+    const path = revertPath(root, frames);
+    const origin = path[path.length - 1]!;
+    const target = origin.call.to?.toLowerCase();
+
+    // Custom errors: reverting contract's ABI first, then the other enriched ABIs (errors bubble up)
+    let targetAbi = target ? enrichment[target]?.abi : null;
+    if (!targetAbi && target) {
+      targetAbi = await getContractMetadata(target, state.chain, state.rawTx.blockNumber)
+        .then((m) => m.decodingAbi)
+        .catch(() => null);
+    }
+    const abis = [targetAbi, state.contractABI, ...Object.values(enrichment).map((e) => e.abi)];
+    // The origin's data is what bubbled up; an empty origin falls back to the nearest frame with data
+    const withData = [...path].reverse().find((f) => hasData(f.call.output));
+    const reason = decodeRevertReason(withData?.call.output ?? origin.call.output, abis);
+
+    // Everything that ran before the revert: earlier frames and the origin's own sub-calls
+    const revertedAt = origin.index + subtreeSize(origin.call);
+    const succeededCalls = [...frames.values()].filter(
+      (f) => f.index < revertedAt && !f.call.error && (f.call.type || 'CALL').toUpperCase() !== 'STATICCALL'
+    ).length;
+    const txTo = state.rawTx.to?.toLowerCase();
+    const topLevel = origin.depth === 0 || (target === txTo && path.every((f) => f.call.to?.toLowerCase() === txTo));
+    const toLabel = txTo ? labelOf(txTo) ?? labelOf(state.rawTx.to!) : null;
+    const strategyGuard = topLevel && succeededCalls > 0 && !(toLabel && ROUTER_LABEL.test(toLabel));
+
+    let category = categorize(reason, path);
+    if (strategyGuard && category === 'unknown') category = 'strategy_guard';
+
+    const name = origin.call.function ?? null;
+    const label = target ? labelOf(target) : null;
+    const where = `${name ? `${name}() on ` : ''}${target ?? 'contract creation'}${label ? ` [${label}]` : ''}`;
+    const rolledBack = succeededCalls > 0 ? ` after ${succeededCalls} successful calls (all rolled back)` : '';
+    failureAnalysis = {
+      origin: {
+        index: origin.index,
+        depth: origin.depth,
+        from: origin.call.from.toLowerCase(),
+        to: target ?? '',
+        label,
+        functionName: name,
+        error: origin.call.error ?? root.error ?? 'execution reverted',
+      },
+      path: path.map((f) => ({
+        index: f.index,
+        to: f.call.to?.toLowerCase() ?? '',
+        label: f.call.to ? labelOf(f.call.to.toLowerCase()) : null,
+        functionName: f.call.function ?? null,
+      })),
+      reason,
+      category,
+      succeededCalls,
+      strategyGuard,
+      explanation: [
+        `Reverted in call #${origin.index + 1} ${where} with ${describeReason(reason)}${rolledBack}; only gas was paid.`,
+        CATEGORY_EXPLANATIONS[category],
+      ].filter(Boolean).join(' '),
+    };
+  }
+
+  console.log(`   ✓ ${failureAnalysis.category}: ${failureAnalysis.explanation}`);
+  getProgress()?.({ type: 'failure_analysis_done', payload: { failureAnalysis } });
+  return { failureAnalysis };
+}
@@ -0,0 +1,128 @@
+/**
+ * MEV detection stage.
+ * Loads the surrounding block transactions, runs the rule-based detectors, builds the
+ * per-address balance ledger, values it in USD at the tx's block and analyzes the payment
+ * to the block builder. Flash loan borrow / repayment flows are marked as financing.
+ */
+import { getProgress } from '../chat/progress.js';
+import { fetchBlockContext } from '../mev/block-context.js';
+import { identifyMEVPattern, senderAccounts } from '../mev/patterns.js';
+import { attributeSwaps, decodeSwaps } from '../mev/swaps.js';
+import { decodeLiquidations } from '../mev/liquidations.js';
+import { annotateFinancingFlows, decodeFlashLoans, locateFlashLoanCallbacks } from '../mev/flashloans.js';
+import { computeBalanceDeltas } from '../mev/balances.js';
+import { analyzeBuilderPayment } from '../mev/builder.js';
+import { computeProfitSummary, createPriceOracle, priceBalanceDeltas, valueTokenAmountsUsd } from '../mev/pricing.js';
+import { getChainConfig } from '../config/chains.js';
+import { getBlock } from '../tools/rpc.js';
+import type { AnalysisState, BlockContext, BuilderPayment, FlashLoan, ProfitSummary } from '../types/index.js';
+
+export async function mevDetectNode(
+  state: AnalysisState
+): Promise<Partial<AnalysisState>> {
+  if (state.error || !state.rawTx) return {};
+
+  getProgress()?.({ type: 'mev_detect_start' });
+  console.log('🥪 [MEV] Loading block context...');
+
+  let blockContext: BlockContext | null = null;
+  try {
+    blockContext = await fetchBlockContext(state.rawTx.blockNumber, {
+      around: state.txHash,
+      chain: state.chain,
+    });
+    console.log(`   ✓ Scanned ${blockContext.txs.length} of ${blockContext.transactionCount} block txs`);
+  } catch (err) {
+    console.warn('   [MEV] Block context unavailable:', err instanceof Error ? err.message : err);
+  }
+
+  // Fee recipient and base fee come from the block header even if the neighbours failed to load
+  let header: Pick<BlockContext, 'miner' | 'baseFeePerGas'> | null = blockContext;
+  if (!header) {
+    try {
+      const block = await getBlock(BigInt(state.rawTx.blockNumber), state.chain);
+      header = { miner: block.miner.toLowerCase(), baseFeePerGas: block.baseFeePerGas?.toString() ?? null };
+    } catch (err) {
+      console.warn('   [MEV] Block header unavailable:', err instanceof Error ? err.message : err);
+    }
+  }
+
+  const logs = state.rawTx.logs || [];
+  const [decodedSwaps, liquidations, decodedLoans] = await Promise.all([
+    decodeSwaps(logs, state.chain),
+    decodeLiquidations(logs, state.rawTx.blockNumber, state.chain),
+    decodeFlashLoans(logs, state.chain),
+  ]);
+  const swaps = attributeSwaps(decodedSwaps, logs, state.tenderlyCallTrace?.trace?.[0], state.rawTx.to);
+  const annotated = annotateFinancingFlows(state.tokenFlows || [], decodedLoans);
+  const tokenFlows = annotated.tokenFlows;
+  let flashLoans: FlashLoan[] = locateFlashLoanCallbacks(annotated.flashLoans, state.tenderlyCallTrace?.trace?.[0]);
+  console.log(`   ✓ Decoded ${swaps.length} swaps, ${liquidations.length} liquidations, ${flashLoans.length} flash loans`);
+
+  const mevPattern = identifyMEVPattern(state.rawTx, tokenFlows, {
+    block: blockContext,
+    swaps,
+    liquidations,
+    flashLoans,
+  });
+  console.log(`   Detected pattern: ${mevPattern.type} (${(mevPattern.confidence * 100).toFixed(0)}%)`);
+
+  let balanceDeltas = computeBalanceDeltas({
+    tx: state.rawTx,
+    tokenFlows,
+    effectiveGasPrice: state.receipt?.effectiveGasPrice,
+    coinbase: header?.miner,
+    baseFeePerGas: header?.baseFeePerGas,
+    labels: state.addressLabels,
+    nativeSymbol: getChainConfig(state.chain).nativeSymbol,
+  });
+  console.log(`   ✓ Balance ledger: ${balanceDeltas.length} addresses`);
+
+  let profitSummary: ProfitSummary | null = null;
+  try {
+    const oracle = createPriceOracle(state.chain, state.rawTx.blockNumber);
+    balanceDeltas = await priceBalanceDeltas(balanceDeltas, oracle);
+    profitSummary = await computeProfitSummary({
+      deltas: balanceDeltas,
+      accounts: senderAccounts(state.rawTx, mevPattern),
+      oracle,
+    });
+    if (mevPattern.details.profitByToken) {
+      const profitUsd = await valueTokenAmountsUsd(mevPattern.details.profitByToken, oracle);
+      if (profitUsd !== null) mevPattern.details.profitUsd = profitUsd;
+    }
+    flashLoans = await Promise.all(
+      flashLoans.map(async (loan) => ({
+        ...loan,
+        amountUsd: await oracle.valueUsd(loan.token, BigInt(loan.amount), loan),
+        feeUsd: await oracle.valueUsd(loan.token, BigInt(loan.fee), loan),
+      }))
+    );
+    console.log(`   ✓ USD net profit: ${profitSummary.netProfitUsd ?? 'n/a'} (gas ${profitSummary.gasCostUsd ?? 'n/a'})`);
+  } catch (err) {
+    console.warn('   [MEV] USD pricing unavailable:', err instanceof Error ? err.message : err);
+  }
+
+  let builderPayment: BuilderPayment | null = null;
+  if (header) {
+    builderPayment = await analyzeBuilderPayment({
+      tx: state.rawTx,
+      coinbase: header.miner,
+      baseFeePerGas: header.baseFeePerGas,
+      effectiveGasPrice: state.receipt?.effectiveGasPrice,
+      trace: state.tenderlyCallTrace?.trace?.[0],
+      tokenFlows,
+      profit: profitSummary,
+      chain: state.chain,
+    });
+    const ratio = builderPayment.bribeRatio !== null ? ` (${(builderPayment.bribeRatio * 100).toFixed(1)}% of gross profit)` : '';
+    console.log(`   ✓ Builder ${builderPayment.builder ?? builderPayment.feeRecipient}: ${builderPayment.coinbaseTransfers.length} coinbase transfers${ratio}`);
+  }
+
+  getProgress()?.({
+    type: 'mev_detect_done',
+    payload: { mevPattern, blockTxsScanned: blockContext?.txs.length ?? 0, balanceDeltas, profitSummary, builderPayment, flashLoans, swaps },
+  });
+
+  return { blockContext, mevPattern, tokenFlows, swaps, balanceDeltas, profitSummary, builderPayment, flashLoans };
+}
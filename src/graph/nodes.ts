@@ -1,14 +1,21 @@
 import type { Hash } from 'viem';
 import { formatUnits } from 'viem';
-import type { AnalysisState, DecodedCall } from '../types/index.js';
+import type { AnalysisState, BalanceDelta, BuilderPayment, DecodedCall, FailureAnalysis, FlashLoan, GasContext, ProfitSummary, TokenDelta, TokenFlow } from '../types/index.js';
 import { getProgress } from '../chat/progress.js';
-import { getTransactionDetails, extractTokenFlows, publicClient, isContract, getTokenInfoFromRPC } from '../tools/rpc.js';
-import { getContractABI, getContractSource, getAddressLabel, getInternalTransactions, getTokenInfo, getGasPriceAtBlock } from '../tools/etherscan.js';
-import { traceHistoricalTransaction, extractAllCallsFromTrace } from '../tools/tenderly-trace.js';
+import { getTransactionDetails, extractTokenFlows, extractNativeFlows, annotateTransferDiscrepancies, getPublicClient, isContract, getTokenInfoFromRPC } from '../tools/rpc.js';
+import { getAddressLabel, getInternalTransactions, getTokenInfo } from '../tools/etherscan.js';
+import { fetchGasContext } from '../tools/gas-context.js';
+import { extractAllCallsFromTrace } from '../tools/tenderly-trace.js';
+import { getTraceProvider } from '../tools/trace-provider.js';
+import { getContractMetadata } from '../tools/contract-metadata.js';
+import { annotateCallTrace, fetchCallTargetAbis } from '../tools/call-decoder.js';
+import { invokeLLM } from '../tools/fixtures.js';
 import { identifyMEVPattern } from '../mev/patterns.js';
+import { describeSwaps } from '../mev/swaps.js';
 import { ChatAnthropic } from '@langchain/anthropic';
 import { ChatOpenAI } from '@langchain/openai';
 import { config } from '../config/index.js';
+import { getChainConfig } from '../config/chains.js';
 import { decodeFunctionData } from 'viem';
 
 /**
@@ -20,11 +27,13 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
   
   try {
     const txHash = state.txHash as Hash;
+    const chainConfig = getChainConfig(state.chain);
+    console.log(`   Chain: ${chainConfig.name}`);
     
     // 获取交易详情
-    const rawTx = await getTransactionDetails(txHash);
-    const receipt = await publicClient.getTransactionReceipt({ hash: txHash });
-    const tokenFlows = extractTokenFlows(receipt);
+    const rawTx = await getTransactionDetails(txHash, chainConfig.name);
+    const receipt = await getPublicClient(chainConfig.name).getTransactionReceipt({ hash: txHash });
+    const tokenFlows = extractTokenFlows(receipt, chainConfig.name);
     const receiptPlain = receipt ? {
       blockHash: receipt.blockHash,
       blockNumber: receipt.blockNumber?.toString(),
@@ -52,11 +61,11 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
     
     // 1. 先从本地数据库获取地址标签（无 API 调用）
     console.log('   📝 Getting address labels from local DB...');
-    const fromLabel = await getAddressLabel(rawTx.from);
-    const toLabel = rawTx.to ? await getAddressLabel(rawTx.to) : null;
+    const fromLabel = await getAddressLabel(rawTx.from, chainConfig.name);
+    const toLabel = rawTx.to ? await getAddressLabel(rawTx.to, chainConfig.name) : null;
     
     // 2. 检测 to 地址是否是合约（通过 RPC，快速且免费）
-    const isToContract = rawTx.to ? await isContract(rawTx.to) : false;
+    const isToContract = rawTx.to ? await isContract(rawTx.to, chainConfig.name) : false;
     console.log(`   🔍 To address: ${isToContract ? '✓ CONTRACT' : 'EOA (wallet)'}`);
     
     // 3. 只对合约地址获取 ABI 和源码（减少 API 调用，但获取更有价值的信息）
@@ -67,11 +76,13 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
     if (isToContract && rawTx.to && rawTx.input && rawTx.input !== '0x') {
       console.log('   📋 Fetching contract ABI and source from Etherscan...');
       
-      // 并行获取 ABI 和源码（一次性完成，减少请求）
-      [contractABI, contractSource] = await Promise.all([
-        getContractABI(rawTx.to),
-        getContractSource(rawTx.to), // 源码可选，如果太大可以注释掉
-      ]);
+      // ABI 和源码按地址缓存；代理合约使用实现合约的 ABI 解码
+      const metadata = await getContractMetadata(rawTx.to, chainConfig.name, rawTx.blockNumber);
+      contractABI = metadata.decodingAbi;
+      contractSource = metadata.implementationSource ?? metadata.source;
+      if (metadata.proxy) {
+        console.log(`      ✓ Proxy (${metadata.proxy.type}) → implementation ${metadata.proxy.implementation}`);
+      }
       
       // 如果获取到 ABI，解码函数调用
       if (contractABI && contractABI.length > 0) {
@@ -112,14 +123,15 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
     let tenderlyCallTrace: any = null;
     let tenderlyInternalTxs: any[] = [];
     
-    if (config.useTenderlySimulation && config.tenderlyRpcUrl) {
-      console.log('   🔍 [Tenderly] Fetching historical transaction trace...');
+    const traceProvider = getTraceProvider(chainConfig.name);
+    if (traceProvider) {
+      console.log(`   🔍 [Trace] Fetching historical transaction trace (${traceProvider.name})...`);
       getProgress()?.({ type: 'tenderly_start' });
       try {
-        tenderlyCallTrace = await traceHistoricalTransaction(txHash);
+        tenderlyCallTrace = await traceProvider.traceTransaction(txHash);
         
         if (tenderlyCallTrace && tenderlyCallTrace.trace) {
-          console.log('   ✅ [Tenderly] Trace received!');
+          console.log(`   ✅ [Trace] Trace received from ${traceProvider.name}!`);
           console.log(`      Calls: ${tenderlyCallTrace.trace?.length || 0}`);
           console.log(`      Status: ${tenderlyCallTrace.status ? '✅ Success' : '❌ Failed'}`);
           
@@ -144,6 +156,13 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
           const allCalls = tenderlyCallTrace.trace[0] 
             ? extractAllCallsFromTrace(tenderlyCallTrace.trace[0])
             : [];
+          if (tenderlyCallTrace.trace[0]) {
+            // ABI 解码每个调用（未验证合约回退到 selector 数据库）
+            const abis = await fetchCallTargetAbis(allCalls, chainConfig.name, rawTx.blockNumber);
+            annotateCallTrace(tenderlyCallTrace.trace[0], (address) => abis.get(address));
+            const decodedCount = allCalls.filter((call) => call.function).length;
+            console.log(`   🔓 Decoded ${decodedCount}/${allCalls.length} calls`);
+          }
           tenderlyInternalTxs = allCalls.map(call => ({
             from: call.from,
             to: call.to,
@@ -156,34 +175,48 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
             error: call.error,
             function: call.function,
             decodedInput: call.decodedInput,
+            functionSignature: call.functionSignature,
             decodedOutput: call.decodedOutput,
           }));
-          console.log(`   ✅ Extracted ${tenderlyInternalTxs.length} calls from Tenderly`);
+          console.log(`   ✅ Extracted ${tenderlyInternalTxs.length} calls from ${traceProvider.name}`);
         }
         getProgress()?.({
           type: 'tenderly_done',
           payload: { trace: tenderlyCallTrace, calls: tenderlyInternalTxs },
         });
       } catch (error) {
-        console.log(`   ⚠️  [Tenderly] Trace failed: ${error}`);
+        console.log(`   ⚠️  [Trace] ${traceProvider.name} trace failed: ${error}`);
         getProgress()?.({ type: 'tenderly_done', payload: { trace: null, calls: [] } });
       }
     } else {
-      if (!config.tenderlyRpcUrl) {
-        console.log('   ℹ️  [Tenderly] Skipped: TENDERLY_RPC_URL not configured');
-      } else if (!config.useTenderlySimulation) {
-        console.log('   ℹ️  [Tenderly] Skipped: USE_TENDERLY_SIMULATION=false');
-      }
+      console.log(`   ℹ️  [Trace] Skipped: no trace provider for ${chainConfig.name} (set TRACE_PROVIDER or TENDERLY_RPC_URL + USE_TENDERLY_SIMULATION)`);
       getProgress()?.({ type: 'tenderly_done', payload: { trace: null, calls: [] } });
     }
     
     // 数据源 2: Etherscan Internal Transactions（ETH 流转）
     console.log('   📡 [Etherscan] Fetching internal txs (ETH flows)...');
-    const etherscanInternalTxs = await getInternalTransactions(txHash);
+    const etherscanInternalTxs = await getInternalTransactions(txHash, chainConfig.name);
     console.log(`   ✅ Got ${etherscanInternalTxs.length} internal txs from Etherscan`);
 
     const internalTxs = tenderlyInternalTxs.length > 0 ? tenderlyInternalTxs : etherscanInternalTxs;
-    const gasPrice = await getGasPriceAtBlock(rawTx.blockNumber);
+
+    // 原生币流转：优先来自 call trace 的 value，无 trace 时用 Etherscan internal txs
+    const nativeFlows = extractNativeFlows(rawTx, tenderlyCallTrace?.trace?.[0], etherscanInternalTxs);
+    const allFlows = [...tokenFlows, ...nativeFlows];
+    console.log(`   ✅ ${nativeFlows.length} native ${chainConfig.nativeSymbol} flows`);
+    const discrepancies = annotateTransferDiscrepancies(tokenFlows, tenderlyCallTrace?.trace?.[0]);
+    if (discrepancies > 0) {
+      console.log(`   ⚠️  ${discrepancies} transfers received less/more than requested (fee-on-transfer or rebasing)`);
+    }
+    let gasContext: GasContext | null = null;
+    try {
+      gasContext = await fetchGasContext(txHash, rawTx.blockNumber, {
+        chain: chainConfig.name,
+        effectiveGasPrice: receipt.effectiveGasPrice?.toString(),
+      });
+    } catch (error) {
+      console.warn(`   ⚠️  Gas context unavailable: ${error}`);
+    }
 
     const addressLabels: Record<string, string> = {};
     if (fromLabel) addressLabels[rawTx.from] = fromLabel;
@@ -201,7 +234,7 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
         decodedFunction: decodedFunction || null,
         addressLabels,
         internalTxs: etherscanInternalTxs,
-        gasContext: gasPrice,
+        gasContext,
       },
     });
     
@@ -213,7 +246,7 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
     console.log(`      From Label: ${fromLabel || 'N/A'}`);
     console.log(`      To Label: ${toLabel || 'N/A'}`);
     console.log(`      Internal Txs: ${internalTxs.length}`);
-    console.log(`      Gas Price: ${gasPrice?.gasPrice || 'N/A'} Gwei`);
+    console.log(`      Base Fee: ${gasContext?.baseFeePerGas ? `${formatUnits(BigInt(gasContext.baseFeePerGas), 9)} Gwei` : 'N/A'}`);
     
     // 获取代币信息（先尝试 RPC，失败后再用 Etherscan）
     const uniqueTokens = [...new Set(tokenFlows.map(f => f.token))];
@@ -223,7 +256,7 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
       uniqueTokens.slice(0, 5).map(async (token) => {
         // 先尝试通过 RPC 获取（快速，不占用 API 配额）
         console.log(`      [Token] Trying RPC for ${token.slice(0, 10)}...`);
-        const rpcInfo = await getTokenInfoFromRPC(token);
+        const rpcInfo = await getTokenInfoFromRPC(token, chainConfig.name);
         
         if (rpcInfo && (rpcInfo.name || rpcInfo.symbol)) {
           console.log(`      [Token] ✓ Got from RPC: ${rpcInfo.symbol || 'Unknown'}`);
@@ -240,32 +273,26 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
         
         // RPC 失败，尝试 Etherscan（更慢，占用配额）
         console.log(`      [Token] Trying Etherscan for ${token.slice(0, 10)}...`);
-        const etherscanInfo = await getTokenInfo(token);
+        const etherscanInfo = await getTokenInfo(token, chainConfig.name);
         return { token, info: etherscanInfo };
       })
     );
     
     // 增强 tokenFlows 信息
-    const enrichedTokenFlows = tokenFlows.map(flow => {
+    const enrichedTokenFlows = allFlows.map(flow => {
+      if (flow.standard === 'native') {
+        return { ...flow, symbol: chainConfig.nativeSymbol, name: chainConfig.nativeSymbol, decimals: '18' };
+      }
       const tokenInfo = tokenInfoResults.find(r => r.token === flow.token)?.info;
       return {
         ...flow,
         symbol: tokenInfo?.symbol || undefined,
         name: tokenInfo?.name || undefined,
-        decimals: tokenInfo?.decimals || undefined,
+        // NFTs have no decimals (the RPC lookup defaults to 18)
+        decimals: flow.standard === 'erc20' ? tokenInfo?.decimals || undefined : undefined,
       };
     });
     
-    // 分析 Gas 价格上下文（修复：使用 Number 避免 BigInt 截断）
-    const txGasPriceGwei = Number(rawTx.gasPrice) / 1e9; // 转为 Gwei (number)
-    const currentGasPriceGwei = gasPrice?.gasPrice ? parseFloat(gasPrice.gasPrice) : 0;
-    const gasContext = {
-      currentPrice: gasPrice?.gasPrice || 'unknown',
-      baseFee: gasPrice?.baseFee || 'unknown',
-      isAbnormal: currentGasPriceGwei > 0 && 
-        (txGasPriceGwei > currentGasPriceGwei * 3 || txGasPriceGwei < 0.001),
-    };
-    
     // 输出详细信息
     console.log('\n📊 [Extract] Transaction Details:');
     console.log('─'.repeat(60));
@@ -286,20 +313,22 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
       console.log(`   To: (Contract Creation)`);
     }
     
-    console.log(`   Value: ${(Number(rawTx.value) / 1e18).toFixed(6)} ETH`);
+    console.log(`   Value: ${(Number(rawTx.value) / 1e18).toFixed(6)} ${chainConfig.nativeSymbol}`);
     console.log(`   Gas Used: ${rawTx.gasUsed}`);
     
     // 正确计算 Gas Price（避免 BigInt 截断）
     const gasPriceGwei = Number(rawTx.gasPrice) / 1e9;
-    console.log(`   Gas Price: ${gasPriceGwei.toFixed(9)} Gwei${gasContext.isAbnormal ? ' ⚠️  异常' : ''}`);
+    console.log(`   Gas Price: ${gasPriceGwei.toFixed(9)} Gwei${gasContext?.isAbnormal ? ' ⚠️  异常' : ''}`);
     
     // 计算交易费用（使用 Number 以保持精度）
     const txFeeEth = (Number(rawTx.gasUsed) * Number(rawTx.gasPrice)) / 1e18;
-    console.log(`   Transaction Fee: ${txFeeEth.toFixed(10)} ETH`);
+    console.log(`   Transaction Fee: ${txFeeEth.toFixed(10)} ${chainConfig.nativeSymbol}`);
     
     // 显示 Gas 价格上下文
-    if (gasContext.currentPrice !== 'unknown') {
-      console.log(`   Current Gas Price: ${gasContext.currentPrice} Gwei (reference)`);
+    if (gasContext) {
+      const percentile = gasContext.priorityFeePercentile !== null ? `, p${gasContext.priorityFeePercentile} of block` : '';
+      console.log(`   Priority Fee: ${formatUnits(BigInt(gasContext.priorityFeePerGas), 9)} Gwei${percentile}`);
+      console.log(`   Position: ${gasContext.txIndex + 1}/${gasContext.blockTxCount}${gasContext.topOfBlock ? ' (top of block)' : ''}`);
     }
     
     // 显示函数调用信息
@@ -347,7 +376,7 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
         const tokenDisplay = flow.symbol 
           ? `${flow.symbol} (${flow.name || 'Unknown'})`
           : flow.token;
-        console.log(`   │  ${i + 1}. ${tokenDisplay}`);
+        console.log(`   │  ${i + 1}. ${tokenDisplay} [${flow.standard}${flow.tokenId !== undefined ? ` #${flow.tokenId}` : ''}]`);
         console.log(`   │     From: ${flow.from.slice(0, 10)}...`);
         console.log(`   │     To:   ${flow.to.slice(0, 10)}...`);
         
@@ -408,6 +437,7 @@ export async function extractNode(state: AnalysisState): Promise<Partial<Analysi
     
     return {
       rawTx,
+      receipt: receiptPlain,
       tokenFlows: enrichedTokenFlows,
       decodedCalls,
       // 两个数据源都保留
@@ -442,38 +472,38 @@ export async function draftNode(state: AnalysisState): Promise<Partial<AnalysisS
     console.log(`   Provider: ${llmConfig.provider}`);
     console.log(`   Model: ${llmConfig.model}`);
     
-    let llm;
-    if (llmConfig.provider === 'openrouter') {
-      // 使用 OpenRouter (兼容 OpenAI API 格式)
-      llm = new ChatOpenAI({
-        apiKey: config.anthropicApiKey,  // OpenRouter API Key
-        model: llmConfig.model,
-        temperature: 0.3,
-        maxRetries: 3,  // 设置重试次数
-        timeout: 60000, // 60秒超时
-        configuration: {
-          baseURL: llmConfig.baseURL,
-          defaultHeaders: {
-            // 'HTTP-Referer': 'https://github.com/mevagent',
-            'X-Title': 'MEV Agent',
-          },
-        },
-        callbacks: [{
-          handleLLMStart: async () => {
-            console.log('   🔄 Calling LLM API...');
-          },
-          handleLLMEnd: async () => {
-            console.log('   ✓ Response received');
-          },
-          handleLLMError: async (error: Error) => {
-            console.log(`   ⚠️  LLM Error: ${error.message}`);
-            console.log('   🔄 Retrying...');
+    const createLLM = () => {
+      if (llmConfig.provider === 'openrouter') {
+        // 使用 OpenRouter (兼容 OpenAI API 格式)
+        return new ChatOpenAI({
+          apiKey: config.anthropicApiKey,  // OpenRouter API Key
+          model: llmConfig.model,
+          temperature: 0.3,
+          maxRetries: 3,  // 设置重试次数
+          timeout: 60000, // 60秒超时
+          configuration: {
+            baseURL: llmConfig.baseURL,
+            defaultHeaders: {
+              // 'HTTP-Referer': 'https://github.com/mevagent',
+              'X-Title': 'MEV Agent',
+            },
           },
-        }],
-      });
-    } else {
+          callbacks: [{
+            handleLLMStart: async () => {
+              console.log('   🔄 Calling LLM API...');
+            },
+            handleLLMEnd: async () => {
+              console.log('   ✓ Response received');
+            },
+            handleLLMError: async (error: Error) => {
+              console.log(`   ⚠️  LLM Error: ${error.message}`);
+              console.log('   🔄 Retrying...');
+            },
+          }],
+        });
+      }
       // 使用 Anthropic 官方 API
-      llm = new ChatAnthropic({
+      return new ChatAnthropic({
         apiKey: config.anthropicApiKey,
         model: llmConfig.model,
         temperature: 0.3,
@@ -491,11 +521,7 @@ export async function draftNode(state: AnalysisState): Promise<Partial<AnalysisS
           },
         }],
       });
-    }
-    
-    // 简单的 MEV 模式识别
-    const mevPattern = identifyMEVPattern(state.rawTx, state.tokenFlows || []);
-    console.log(`   Detected pattern: ${mevPattern.type} (${(mevPattern.confidence * 100).toFixed(0)}%)`);
+    };
     
     // 构建 prompt
     const prompt = buildAnalysisPrompt(state);
@@ -503,8 +529,7 @@ export async function draftNode(state: AnalysisState): Promise<Partial<AnalysisS
     
     // 调用 LLM
     console.log('   ⏳ Waiting for response (this may take 10-30s)...');
-    const response = await llm.invoke(prompt);
-    const draftExplanation = response.content.toString();
+    const draftExplanation = await invokeLLM(prompt, createLLM);
     getProgress()?.({ type: 'draft_done' });
     console.log('✅ [Draft] Explanation generated successfully!');
     console.log(`   Response length: ${draftExplanation.length} chars`);
@@ -520,24 +545,178 @@ export async function draftNode(state: AnalysisState): Promise<Partial<AnalysisS
   }
 }
 
+/**
+ * Human readable amount of a flow: "1.5 WETH", "BAYC #123", "3 × 0xabc... #7"
+ */
+function formatFlowAmount(f: TokenFlow): string {
+  const symbol = f.symbol || `${f.token.slice(0, 10)}...`;
+  if (f.standard === 'erc721') return `${symbol} #${f.tokenId}`;
+  if (f.standard === 'erc1155') return `${f.amount} × ${symbol} #${f.tokenId}`;
+  const amount = f.decimals ? formatUnits(BigInt(f.amount), Number(f.decimals)) : `${f.amount} (raw)`;
+  return `${amount} ${f.symbol || 'tokens'}`;
+}
+
+function formatTokenDelta(d: TokenDelta): string {
+  const delta = BigInt(d.delta);
+  const sign = delta < 0n ? '-' : '+';
+  const abs = delta < 0n ? -delta : delta;
+  const symbol = d.symbol || `${d.token.slice(0, 10)}...`;
+  if (d.standard === 'erc721') {
+    const ids = [
+      ...(d.tokenIdsIn ?? []).map((id) => `+#${id}`),
+      ...(d.tokenIdsOut ?? []).map((id) => `-#${id}`),
+    ].join(' ');
+    return `${sign}${abs} ${symbol}${ids ? ` (${ids})` : ''}`;
+  }
+  if (d.standard === 'erc1155') return `${sign}${abs} × ${symbol} #${d.tokenId}`;
+  const amount = d.decimals ? formatUnits(abs, Number(d.decimals)) : `${abs} (raw)`;
+  const usd = d.valueUsd !== undefined ? ` (${formatUsd(d.valueUsd)})` : '';
+  return `${sign}${amount} ${d.symbol || symbol}${usd}`;
+}
+
+function formatUsd(value: number): string {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatProfitSummary(p: ProfitSummary): string {
+  const usd = (value: number | null) => (value === null ? 'n/a' : formatUsd(value));
+  const lines = [
+    `Accounts: ${p.accounts.join(', ')} (priced on-chain at block ${p.blockNumber})`,
+    `- Gross profit (before gas and coinbase transfers): ${usd(p.grossProfitUsd)}`,
+    `- Gas cost: ${usd(p.gasCostUsd)}`,
+    `- Builder tip (priority fee + coinbase transfers): ${usd(p.builderTipUsd)}`,
+    `- Net profit: ${usd(p.netProfitUsd)}`,
+  ];
+  if (p.unpricedTokens.length) lines.push(`- Not priced (excluded): ${p.unpricedTokens.join(', ')}`);
+  return lines.join('\n');
+}
+
+/**
+ * One line per address: "0xabc... [label] (sender): -1.2 ETH, +3000 USDC"
+ */
+function formatBalanceDeltas(deltas: BalanceDelta[], limit: number): string {
+  const lines = deltas.slice(0, limit).map((d) => {
+    const label = d.label ? ` [${d.label}]` : '';
+    const roles = d.roles.length ? ` (${d.roles.join(', ')})` : '';
+    const changes = d.changes.length ? d.changes.map(formatTokenDelta).join(', ') : 'no net change';
+    const gas = d.gasFee ? ` | gas paid: ${formatUnits(BigInt(d.gasFee), 18)}` : '';
+    const tip = d.priorityFee ? ` | priority fee earned: ${formatUnits(BigInt(d.priorityFee), 18)}` : '';
+    const net = d.netUsd !== undefined ? ` | net ${formatUsd(d.netUsd)}` : '';
+    return `- ${d.address}${label}${roles}: ${changes}${gas}${tip}${net}`;
+  });
+  if (deltas.length > limit) lines.push(`... and ${deltas.length - limit} more addresses`);
+  return lines.join('\n');
+}
+
+/**
+ * Gas paid relative to the tx's own block (all values from the chain at that block)
+ */
+function formatGasContext(g: GasContext): string {
+  const gwei = (wei: string) => `${formatUnits(BigInt(wei), 9)} Gwei`;
+  const known = g.surroundingBaseFees.filter((b) => b.baseFeePerGas !== null).map((b) => BigInt(b.baseFeePerGas!));
+  const range = known.length > 1
+    ? ` (blocks ${g.surroundingBaseFees[0]!.blockNumber}-${g.surroundingBaseFees[g.surroundingBaseFees.length - 1]!.blockNumber}: ${gwei(known.reduce((a, b) => (a < b ? a : b)).toString())} - ${gwei(known.reduce((a, b) => (a > b ? a : b)).toString())})`
+    : '';
+  const lines = [
+    `- Effective Gas Price: ${gwei(g.gasPrice)}`,
+    `- Base Fee: ${g.baseFeePerGas ? gwei(g.baseFeePerGas) : 'n/a (pre-EIP-1559)'}${range}`,
+    `- Priority Fee: ${gwei(g.priorityFeePerGas)}/gas` +
+      (g.priorityFeePercentile !== null
+        ? `, higher than ${g.priorityFeePercentile}% of the other ${g.blockTxCount - 1} block txs (median ${gwei(g.blockMedianPriorityFee ?? '0')})`
+        : ''),
+    `- Position: index ${g.txIndex} of ${g.blockTxCount} txs${g.topOfBlock ? ' (top of block)' : ''}`,
+    `- Block Gas Used: ${(g.blockGasUsedRatio * 100).toFixed(1)}%`,
+    `- Abnormal: ${g.isAbnormal ? 'Yes ⚠️ (tip far above the block median, or no tip while others tip)' : 'No'}`,
+  ];
+  return lines.join('\n');
+}
+
+function formatBuilderPayment(b: BuilderPayment, nativeSymbol: string): string {
+  const native = (wei: string) => `${formatUnits(BigInt(wei), 18)} ${nativeSymbol}`;
+  const gwei = (wei: string) => `${formatUnits(BigInt(wei), 9)} Gwei`;
+  const lines = [
+    `Fee recipient: ${b.feeRecipient}${b.builder ? ` [${b.builder}]` : ''}`,
+    `- Base fee: ${b.baseFeePerGas ? gwei(b.baseFeePerGas) : 'n/a (pre-EIP-1559)'}, priority fee: ${gwei(b.priorityFeePerGas)}/gas → ${native(b.priorityFee)}`,
+    `- Direct coinbase transfers: ${b.coinbaseTransfers.length ? `${native(b.coinbaseTransferTotal)} (${b.coinbaseTransfers.map((t) => `${native(t.amount)} from ${t.from}`).join(', ')})` : 'none'}`,
+    `- Total paid to the builder: ${native(b.totalPayment)}${b.totalPaymentUsd !== null ? ` (${formatUsd(b.totalPaymentUsd)})` : ''}`,
+  ];
+  if (b.bribeRatio !== null) lines.push(`- Bribe ratio: ${(b.bribeRatio * 100).toFixed(1)}% of the sender's gross profit`);
+  return lines.join('\n');
+}
+
+function formatFailureAnalysis(f: FailureAnalysis): string {
+  const lines = [`- ${f.explanation}`, `- Category: ${f.category}${f.strategyGuard ? ' (strategy guard of the sender\'s contract)' : ''}`];
+  if (f.reason.signature) lines.push(`- Revert data: ${f.reason.signature}${f.reason.source ? ` (decoded via ${f.reason.source})` : ''}`);
+  if (f.path.length > 1) {
+    lines.push(`- Reverting frames: ${f.path.map((p) => `#${p.index + 1} ${p.functionName ?? '?'}@${p.label ?? `${p.to.slice(0, 10)}...`}`).join(' → ')}`);
+  }
+  return lines.join('\n');
+}
+
+function formatFlashLoans(loans: FlashLoan[], labels: Record<string, string>): string {
+  return loans.map((l) => {
+    const amount = (raw: string) => `${l.decimals ? formatUnits(BigInt(raw), Number(l.decimals)) : `${raw} (raw)`} ${l.symbol || `${l.token.slice(0, 10)}...`}`;
+    const usd = (value?: number | null) => (value !== undefined && value !== null ? ` (${formatUsd(value)})` : '');
+    const lender = `${l.pool}${labels[l.pool] ? ` [${labels[l.pool]}]` : ''}`;
+    const callback = l.callbackIndex !== undefined ? `, callback = call #${l.callbackIndex + 1}` : '';
+    return `- ${l.provider} via ${lender}: borrowed ${amount(l.amount)}${usd(l.amountUsd)} to ${l.receiver}, fee ${amount(l.fee)}${usd(l.feeUsd)}, ${l.repaid ? 'repaid in the same tx' : 'repayment not found in the token transfers'}${callback}`;
+  }).join('\n');
+}
+
+function describeFinancing(f: TokenFlow): string {
+  const { kind, provider, principal } = f.financing!;
+  if (kind === 'borrow') return `flash loan borrowed from ${provider} (financing, repaid in the same tx - not income)`;
+  const fee = BigInt(f.amount) - BigInt(principal);
+  const feeDisplay = f.decimals ? formatUnits(fee, Number(f.decimals)) : fee.toString();
+  return `flash loan repayment to ${provider} (principal is financing; only the ${feeDisplay} ${f.symbol || 'tokens'} fee is a cost)`;
+}
+
+function describeFlowAdjustment(f: TokenFlow): string {
+  if (f.synthetic === 'wrap') return `${f.to} wrapped ${formatFlowAmount(f)} (Deposit, minted from 0x0)`;
+  if (f.synthetic === 'unwrap') return `${f.from} unwrapped ${formatFlowAmount(f)} (Withdrawal, burned to 0x0)`;
+  const requested = f.decimals
+    ? formatUnits(BigInt(f.requestedAmount!), Number(f.decimals))
+    : f.requestedAmount;
+  return `${f.from} → ${f.to}: ${requested} requested, ${formatFlowAmount(f)} received (fee-on-transfer or rebasing token)`;
+}
+
 function buildGroundTruth(state: AnalysisState): string {
   const tx = state.rawTx!;
   const flows = state.tokenFlows || [];
   const from = tx.from.toLowerCase();
   const sent = flows.filter((f) => f.from.toLowerCase() === from);
   const received = flows.filter((f) => f.to.toLowerCase() === from);
-  const fmt = (f: { amount: string; symbol?: string; decimals?: string }) => {
-    const amt = f.decimals ? formatUnits(BigInt(f.amount), Number(f.decimals)) : f.amount;
-    return `${amt} ${f.symbol || 'tokens'}`;
-  };
+  const fmt = formatFlowAmount;
+  const adjustments = flows
+    .filter((f) => f.synthetic || f.requestedAmount !== undefined)
+    .map((f) => `- ${describeFlowAdjustment(f)}`);
+  const flashLoans = state.flashLoans || [];
   const lines = [
     `Block: ${tx.blockNumber}`,
+    state.failureAnalysis ? `Status: REVERTED. ${state.failureAnalysis.explanation}` : null,
     `Gas used: ${tx.gasUsed}`,
+    state.gasContext
+      ? `Gas price: ${formatUnits(BigInt(state.gasContext.gasPrice), 9)} Gwei (base fee ${state.gasContext.baseFeePerGas ? formatUnits(BigInt(state.gasContext.baseFeePerGas), 9) : 'n/a'} Gwei, priority fee ${formatUnits(BigInt(state.gasContext.priorityFeePerGas), 9)} Gwei), block position ${state.gasContext.txIndex} of ${state.gasContext.blockTxCount}`
+      : null,
     `From: ${tx.from}`,
     `To: ${tx.to || '(contract creation)'}`,
     `ETH value: ${(Number(tx.value) / 1e18).toFixed(6)}`,
     sent.length ? `Sent: ${sent.map(fmt).join(', ')}` : null,
     received.length ? `Received: ${received.map(fmt).join(', ')}` : null,
+    state.balanceDeltas?.length
+      ? `Net balance changes (gas included):\n${formatBalanceDeltas(state.balanceDeltas, 10)}`
+      : null,
+    state.profitSummary ? `USD result of the sender:\n${formatProfitSummary(state.profitSummary)}` : null,
+    state.builderPayment
+      ? `Builder payment:\n${formatBuilderPayment(state.builderPayment, getChainConfig(state.chain).nativeSymbol)}`
+      : null,
+    flashLoans.length
+      ? `Flash loans (principal borrowed and repaid within the tx is financing, not profit; the fee is a cost):\n${formatFlashLoans(flashLoans, state.addressLabels || {})}`
+      : null,
+    adjustments.length
+      ? `Wraps and transfer adjustments (amounts that differ only by these are correct):\n${adjustments.join('\n')}`
+      : null,
   ].filter(Boolean);
   return lines.join('\n');
 }
@@ -554,7 +733,7 @@ export async function verifyNode(state: AnalysisState): Promise<Partial<Analysis
   try {
     const groundTruth = buildGroundTruth(state);
     const { llmConfig } = await import('../config/index.js');
-    const llm =
+    const createLLM = () =>
       llmConfig.provider === 'openrouter'
         ? new ChatOpenAI({
             apiKey: config.anthropicApiKey,
@@ -578,8 +757,7 @@ Draft analysis to verify:
 ${state.draftExplanation.slice(0, 4000)}
 
 Task: List any factual errors in the draft (wrong numbers, wrong addresses, wrong token flow). Also check if the draft contradicts the call trace explanation. Reply with "OK" if no errors. Otherwise list each error on a new line starting with "- ".`;
-    const resp = await llm.invoke(prompt);
-    const text = resp.content.toString().trim();
+    const text = (await invokeLLM(prompt, createLLM)).trim();
     const passed = text.toUpperCase().startsWith('OK') || text.toLowerCase().includes('no error');
     const issues = passed ? [] : text.split('\n').filter((l) => l.trim().startsWith('-')).map((l) => l.replace(/^-\s*/, '').trim());
     if (issues.length) console.log(`   ⚠️  Issues: ${issues.length}`);
@@ -607,14 +785,16 @@ export async function outputNode(state: AnalysisState): Promise<Partial<Analysis
     return { finalReport: errorReport };
   }
   
-  const mevPattern = identifyMEVPattern(
+  const mevPattern = state.mevPattern ?? identifyMEVPattern(
     state.rawTx!,
-    state.tokenFlows || []
+    state.tokenFlows || [],
+    { block: state.blockContext }
   );
   
   const finalReport = {
     summary: state.draftExplanation || 'No explanation generated',
     mevType: mevPattern.type,
+    mevPattern,
     steps: extractSteps(state.draftExplanation || ''),
     tokenFlows: state.tokenFlows || [],
     technicalDetails: {
@@ -628,6 +808,14 @@ export async function outputNode(state: AnalysisState): Promise<Partial<Analysis
     verification: state.verificationResult,
     callTraceExplanation: state.callTraceExplanation,
     tenderlyCallTrace: state.tenderlyCallTrace,
+    flattenedCalls: state.flattenedCalls,
+    events: state.decodedEvents,
+    balanceDeltas: state.balanceDeltas,
+    profit: state.profitSummary,
+    builderPayment: state.builderPayment,
+    flashLoans: state.flashLoans,
+    swaps: state.swaps,
+    failure: state.failureAnalysis,
     etherscanInternalTxs: state.etherscanInternalTxs,
   };
   getProgress()?.({ type: 'done', payload: { report: finalReport } });
@@ -680,22 +868,14 @@ function buildAnalysisPrompt(state: AnalysisState): string {
       if (flowsOut.length > 0) {
         tokenFlowSummary += '📤 Sent/Output:\n';
         flowsOut.forEach(f => {
-          const tokenInfo = f.symbol || f.token.slice(0, 10);
-          const amount = f.decimals 
-            ? formatUnits(BigInt(f.amount), Number(f.decimals))
-            : 'Unknown';
-          tokenFlowSummary += `  - ${amount} ${tokenInfo}\n`;
+          tokenFlowSummary += `  - ${formatFlowAmount(f)}\n`;
         });
       }
       
       if (flowsIn.length > 0) {
         tokenFlowSummary += '📥 Received/Input:\n';
         flowsIn.forEach(f => {
-          const tokenInfo = f.symbol || f.token.slice(0, 10);
-          const amount = f.decimals 
-            ? formatUnits(BigInt(f.amount), Number(f.decimals))
-            : 'Unknown';
-          tokenFlowSummary += `  - ${amount} ${tokenInfo}\n`;
+          tokenFlowSummary += `  - ${formatFlowAmount(f)}\n`;
         });
       }
       
@@ -704,17 +884,11 @@ function buildAnalysisPrompt(state: AnalysisState): string {
     
     tokenFlowDetails = tokenFlowSummary + flows.slice(0, 25).map((f, i) => {
       const tokenInfo = f.symbol ? `${f.symbol} (${f.name || 'Unknown Token'})` : f.token;
-      let amountDisplay = f.amount;
-      if (f.decimals) {
-        const readableAmount = formatUnits(BigInt(f.amount), Number(f.decimals));
-        amountDisplay = `${readableAmount} ${f.symbol || ''}`;
-      } else {
-        amountDisplay = `${f.amount.slice(0, 30)}... (wei)`;
-      }
-      return `${i + 1}. Token: ${tokenInfo}
+      const amountDisplay = formatFlowAmount(f);
+      return `${i + 1}. Token: ${tokenInfo} [${f.standard}]
    From: ${f.from}${addressLabels[f.from] ? ` [${addressLabels[f.from]}]` : ''}
    To: ${f.to}${addressLabels[f.to] ? ` [${addressLabels[f.to]}]` : ''}
-   Amount: ${amountDisplay}
+   Amount: ${amountDisplay}${f.synthetic || f.requestedAmount !== undefined ? `\n   Note: ${describeFlowAdjustment(f)}` : ''}${f.financing ? `\n   Financing: ${describeFinancing(f)}` : ''}
    Direction: ${f.from.toLowerCase() === tx.from.toLowerCase() ? '🔴 Outbound' : f.to.toLowerCase() === tx.from.toLowerCase() ? '🟢 Inbound' : '🔵 Other'}`;
     }).join('\n\n');
     
@@ -735,29 +909,69 @@ function buildAnalysisPrompt(state: AnalysisState): string {
     }
   }
   
+  const events = state.decodedEvents || [];
+  const flattenedCalls = state.flattenedCalls || [];
+  let eventTimeline = 'No events emitted';
+  if (events.length > 0) {
+    eventTimeline = events.slice(0, 60).map((e) => {
+      const emitter = `${e.address.slice(0, 10)}...${addressLabels[e.address] ? ` [${addressLabels[e.address]}]` : ''}`;
+      const call = e.callIndex !== undefined ? flattenedCalls[e.callIndex] : undefined;
+      const origin = e.callIndex !== undefined
+        ? ` (call #${e.callIndex + 1}${call?.functionName ? ` ${call.functionName}` : ''})`
+        : '';
+      if (!e.name) return `${e.logIndex}. ${emitter} unknown event ${e.topics?.[0]?.slice(0, 10) ?? ''}${origin}`;
+      const args = (e.args || [])
+        .map((a) => `${a.name}=${typeof a.value === 'string' ? a.value : JSON.stringify(a.value)}`)
+        .join(', ');
+      return `${e.logIndex}. ${emitter} ${e.name}(${args})${origin}`;
+    }).join('\n');
+    if (events.length > 60) {
+      eventTimeline += `\n... and ${events.length - 60} more events`;
+    }
+  }
+  
   const ethValue = (BigInt(tx.value) / 10n**15n) / 1000n;
   const txFee = (BigInt(tx.gasUsed) * BigInt(tx.gasPrice)) / 10n**18n;
   
   const txGasPriceGwei = (Number(tx.gasPrice) / 1e9).toFixed(9);
-  const gasAnalysis = gasContext ? `
-- Tx Gas Price: ${txGasPriceGwei} Gwei
-- Reference Price: ${gasContext.currentPrice} Gwei
-- Abnormal: ${gasContext.isAbnormal ? 'Yes ⚠️ (too high or unusually low)' : 'No'}
-` : '';
+  const gasAnalysis = gasContext ? formatGasContext(gasContext) : 'Not available';
   
   const fromLabel = addressLabels[tx.from] ? `[${addressLabels[tx.from]}]` : '';
   const toLabel = tx.to && addressLabels[tx.to] ? `[${addressLabels[tx.to]}]` : '';
+
+  const mevPattern = state.mevPattern;
+  const mevDetection = mevPattern && mevPattern.type !== 'unknown'
+    ? `Type: ${mevPattern.type} (confidence ${(mevPattern.confidence * 100).toFixed(0)}%)
+Details:
+\`\`\`json
+${JSON.stringify(mevPattern.details, (_key, value) => typeof value === 'bigint' ? value.toString() : value, 2).slice(0, 3000)}
+\`\`\``
+    : 'No MEV pattern detected by the rule-based detectors.';
   
-  return `You are a professional blockchain transaction analyst. Analyze this Ethereum transaction in detail.
+  const chainConfig = getChainConfig(state.chain);
+
+  const swaps = state.swaps || [];
+  const swapDetails = swaps.length
+    ? describeSwaps(swaps.slice(0, 30), flows, chainConfig.nativeSymbol).map((line, i) => `${i + 1}. ${line}`).join('\n') +
+      (swaps.length > 30 ? `\n... and ${swaps.length - 30} more swaps` : '')
+    : 'No DEX swaps decoded';
+
+  return `You are a professional blockchain transaction analyst. Analyze this ${chainConfig.viemChain.name} transaction in detail.
 
 ⚠️ **Important**: 
 - If "ETH Transfer Amount" is 0, focus on token transfers!
 - Many transactions swap Token A for Token B without ETH transfer
 - Carefully analyze token inputs and outputs to understand the actual exchange
-
+${state.simulated ? `
+🧪 **Simulation**: this transaction was NOT mined. It was simulated on top of block ${tx.blockNumber}; explain what would happen if it were sent now.
+` : ''}${state.failureAnalysis ? `
+❌ **This transaction REVERTED**: every state change was rolled back and only gas was paid. Token transfers and calls before the revert did not take effect. Explain what it attempted and why it failed (see Failure Analysis).
+` : ''}
 # Basic Transaction Information
-- **Transaction Hash**: ${state.txHash}
+- **Chain**: ${chainConfig.viemChain.name} (native token: ${chainConfig.nativeSymbol})
+- **Transaction Hash**: ${state.simulated ? '(simulated, not mined)' : state.txHash}
 - **Block Number**: ${tx.blockNumber}
+- **Status**: ${state.failureAnalysis ? '❌ Reverted' : '✅ Success'}
 - **From**: ${tx.from} ${fromLabel}
 - **To**: ${tx.to || '(Contract Creation)'} ${toLabel}
 - **ETH Transfer**: ${ethValue.toString()} ETH ${ethValue.toString() === '0' ? '(⚠️ 0 ETH doesn\'t mean no value transfer - check token transfers!)' : ''}
@@ -767,6 +981,20 @@ function buildAnalysisPrompt(state: AnalysisState): string {
 
 # Gas Price Analysis
 ${gasAnalysis}
+${state.failureAnalysis ? `
+# Failure Analysis (deepest reverting call and decoded revert reason)
+${formatFailureAnalysis(state.failureAnalysis)}
+` : ''}
+# Rule-based MEV Detection
+${mevDetection}
+${state.flashLoans?.length ? `
+# Flash Loans (borrowed and repaid within this tx)
+${formatFlashLoans(state.flashLoans, addressLabels)}
+The borrowed principal is financing, not the sender's capital or profit: exclude the borrow and the repayment of the principal from the PnL and count only the fee as a cost. The balance changes below already net them out.
+` : ''}
+# DEX Swaps (${swaps.length} decoded from pool events, in execution order)
+${swapDetails}
+Describe the DEX activity from these swaps (protocol, pool, amounts), not from raw transfers or call selectors.
 
 # Function Call Analysis
 ${functionCallInfo}
@@ -774,9 +1002,21 @@ ${functionCallInfo}
 # Internal Transactions (${internalTxs.length} total)
 ${internalTxDetails}
 
-# Token Transfers (${flows.length} total)
+# Token Transfers (${flows.length} total: native, ERC20, ERC721, ERC1155)
 ${tokenFlowDetails}
 
+# Balance Changes (net per address, gas and coinbase payments included)
+${state.balanceDeltas?.length ? formatBalanceDeltas(state.balanceDeltas, 25) : 'Not available'}
+
+# USD Profit (on-chain prices at the tx's block)
+${state.profitSummary ? formatProfitSummary(state.profitSummary) : 'Not available'}
+
+# Builder Payment (priority fee + direct coinbase transfers)
+${state.builderPayment ? formatBuilderPayment(state.builderPayment, chainConfig.nativeSymbol) : 'Not available'}
+
+# Event Timeline (${events.length} logs, in execution order)
+${eventTimeline}
+
 # Transaction Input Data
 - Input length: ${tx.input.length} characters
 - First 100 chars: ${tx.input.slice(0, 100)}${tx.input.length > 100 ? '...' : ''}
@@ -830,6 +1070,7 @@ ${JSON.stringify(tenderlyCallTrace).length > 5000 ? '\n... (truncated, main stru
 - trace: recursive structure; each call may have a calls array (sub-calls)
 - type: CALL (normal) / DELEGATECALL (proxy) / STATICCALL (read-only)
 - input: function call data (first 4 bytes = selector)
+- function / decodedInput / decodedOutput: decoded call with named arguments and return values (when the ABI or selector is known)
 - value: ETH amount transferred
 - error: whether the call failed
 ` : '(Tenderly not configured or fetch failed)'}
@@ -892,7 +1133,7 @@ Analyze this Ethereum transaction in depth. Your summary should align with the C
 Begin your analysis!`;
 }
 
-function extractSteps(explanation: string): string[] {
+export function extractSteps(explanation: string): string[] {
   const lines = explanation.split('\n');
   const steps: string[] = [];
   
@@ -0,0 +1,238 @@
+/**
+ * Simulation of an unsigned transaction ("what would happen if I sent this?").
+ * The simulated trace and logs go through the same token-flow, balance, call-trace
+ * enrichment and explanation stages as a mined transaction.
+ */
+import { encodeFunctionData, parseAbiItem, zeroAddress, type AbiFunction } from 'viem';
+import { runWithProgress, getProgress } from '../chat/progress.js';
+import { getChainConfig } from '../config/chains.js';
+import { computeBalanceDeltas } from '../mev/balances.js';
+import { senderAccounts } from '../mev/patterns.js';
+import { computeProfitSummary, createPriceOracle, priceBalanceDeltas } from '../mev/pricing.js';
+import { attributeSwaps, decodeSwaps } from '../mev/swaps.js';
+import { annotateCallTrace, fetchCallTargetAbis } from '../tools/call-decoder.js';
+import { getContractMetadata } from '../tools/contract-metadata.js';
+import { getAddressLabel } from '../tools/etherscan.js';
+import {
+  annotateTransferDiscrepancies,
+  describeTokenFlows,
+  extractNativeFlows,
+  extractTokenFlows,
+  getPublicClient,
+} from '../tools/rpc.js';
+import { simulateNewTransaction, type BlockOverride, type StateOverride } from '../tools/tenderly.js';
+import { extractAllCallsFromTrace } from '../tools/tenderly-trace.js';
+import { callTraceEnrichNode, callTraceExplainNode } from './calltrace.js';
+import { failureAnalysisNode } from './failure.js';
+import { draftNode, extractSteps } from './nodes.js';
+import type { AnalysisState, BalanceDelta, ProfitSummary, ProgressEvent, SimulationReport, Transaction } from '../types/index.js';
+
+export interface SimulationRequest {
+  from?: string;
+  to: string;
+  /** Wei, decimal or hex */
+  value?: string;
+  /** Raw calldata; takes precedence over `functionSignature` */
+  data?: string;
+  /**
+   * "transfer(address,uint256)" or a bare function name looked up in the verified ABI of `to`
+   */
+  functionSignature?: string;
+  args?: unknown[];
+  gas?: string;
+  /** Simulate on top of this block (default: latest) */
+  blockNumber?: number;
+  stateOverrides?: Record<string, StateOverride>;
+  blockOverrides?: BlockOverride;
+}
+
+export interface SimulateTxOptions {
+  onProgress?: (event: ProgressEvent) => void;
+}
+
+const toHex = (value: bigint | number) => `0x${value.toString(16)}`;
+
+/**
+ * Coerce JSON arguments (numbers as strings, "true") to the ABI types viem encodes
+ */
+function coerceArg(type: string, value: unknown): unknown {
+  if (type.endsWith(']') && Array.isArray(value)) {
+    const inner = type.slice(0, type.lastIndexOf('['));
+    return value.map((v) => coerceArg(inner, v));
+  }
+  if (/^u?int\d*$/.test(type) && (typeof value === 'string' || typeof value === 'number')) {
+    return BigInt(value);
+  }
+  if (type === 'bool' && typeof value === 'string') return value === 'true';
+  return value;
+}
+
+async function encodeCalldata(request: SimulationRequest, chain: string): Promise<{ input: string; functionName: string | null }> {
+  if (request.data) return { input: request.data, functionName: null };
+  if (!request.functionSignature) return { input: '0x', functionName: null };
+
+  const args = request.args ?? [];
+  let abiFunction: AbiFunction | undefined;
+  if (request.functionSignature.includes('(')) {
+    const signature = request.functionSignature.replace(/^function\s+/, '');
+    abiFunction = parseAbiItem(`function ${signature}`) as AbiFunction;
+  } else {
+    const metadata = await getContractMetadata(request.to, chain);
+    abiFunction = (metadata.decodingAbi ?? []).find(
+      (entry: any) =>
+        entry?.type === 'function' &&
+        entry.name === request.functionSignature &&
+        (entry.inputs?.length ?? 0) === args.length
+    );
+    if (!abiFunction) {
+      throw new Error(`Function ${request.functionSignature} with ${args.length} args not found in the verified ABI of ${request.to}`);
+    }
+  }
+
+  const coerced = abiFunction.inputs.map((input, i) => coerceArg(input.type, args[i]));
+  return {
+    input: encodeFunctionData({ abi: [abiFunction], functionName: abiFunction.name, args: coerced }),
+    functionName: abiFunction.name,
+  };
+}
+
+/**
+ * Simulate an unsigned transaction with the configured backend (Tenderly or Anvil) and
+ * explain the result. Throws when no backend is available or the simulation fails.
+ */
+export async function simulateTx(
+  request: SimulationRequest,
+  chain: string = 'ethereum',
+  options: SimulateTxOptions = {}
+): Promise<SimulationReport> {
+  const run = () => runSimulation(request, getChainConfig(chain).name);
+  return options.onProgress ? runWithProgress(options.onProgress, run) : run();
+}
+
+async function runSimulation(request: SimulationRequest, chain: string): Promise<SimulationReport> {
+  const chainConfig = getChainConfig(chain);
+  const from = (request.from ?? zeroAddress).toLowerCase();
+  const to = request.to.toLowerCase();
+  const value = BigInt(request.value ?? '0');
+  const blockNumber = request.blockNumber ?? Number(await getPublicClient(chain).getBlockNumber());
+  const { input, functionName } = await encodeCalldata(request, chain);
+
+  console.log(`🧪 [Simulate] ${from.slice(0, 10)}... → ${to.slice(0, 10)}... on ${chain} @ ${blockNumber}`);
+  getProgress()?.({ type: 'simulation_start', payload: { from, to, chain, blockNumber } });
+
+  const result = await simulateNewTransaction({
+    from,
+    to,
+    value: toHex(value),
+    input,
+    gas: request.gas ? toHex(BigInt(request.gas)) : undefined,
+    blockNumber: toHex(blockNumber),
+    stateOverrides: request.stateOverrides,
+    blockOverrides: request.blockOverrides,
+  }, chain);
+  if (!result) {
+    throw new Error('Simulation failed (check TENDERLY_RPC_URL or SIMULATION_BACKEND=anvil)');
+  }
+
+  const root = result.trace?.[0] ?? null;
+  const logs = (result.logs ?? []).map((log, logIndex) => ({ ...log, logIndex }));
+  const rawTx: Transaction = {
+    hash: 'simulation',
+    from,
+    to,
+    value: value.toString(),
+    gasUsed: BigInt(result.gasUsed || '0').toString(),
+    gasPrice: BigInt(result.gasPrice || '0').toString(),
+    blockNumber,
+    input,
+    logs,
+  };
+
+  // Same decoding as the extract stage: callee ABIs, then token and native flows
+  const allCalls = root ? extractAllCallsFromTrace(root) : [];
+  if (root) {
+    const abis = await fetchCallTargetAbis(allCalls, chain, blockNumber);
+    annotateCallTrace(root, (address) => abis.get(address));
+  }
+  const tokenFlows = extractTokenFlows({ logs: logs as any }, chain);
+  annotateTransferDiscrepancies(tokenFlows, root);
+  const enrichedFlows = await describeTokenFlows([...tokenFlows, ...extractNativeFlows(rawTx, root)], chain);
+  const swaps = attributeSwaps(await decodeSwaps(logs, chain), logs, root, to);
+
+  const addressLabels: Record<string, string> = {};
+  for (const address of [from, to]) {
+    const label = await getAddressLabel(address, chain);
+    if (label) addressLabels[address] = label;
+  }
+
+  let balanceDeltas: BalanceDelta[] = computeBalanceDeltas({
+    tx: rawTx,
+    tokenFlows: enrichedFlows,
+    labels: addressLabels,
+    nativeSymbol: chainConfig.nativeSymbol,
+  });
+  let profit: ProfitSummary | null = null;
+  try {
+    const oracle = createPriceOracle(chain, blockNumber);
+    balanceDeltas = await priceBalanceDeltas(balanceDeltas, oracle);
+    profit = await computeProfitSummary({ deltas: balanceDeltas, accounts: senderAccounts({ from, to }), oracle });
+  } catch (err) {
+    console.warn('   [Simulate] USD pricing unavailable:', err instanceof Error ? err.message : err);
+  }
+  console.log(`   ✓ ${result.status ? 'Success' : 'Reverted'}, ${enrichedFlows.length} flows, ${swaps.length} swaps, ${balanceDeltas.length} balance changes`);
+
+  let state: AnalysisState = {
+    txHash: rawTx.hash,
+    chain,
+    simulated: true,
+    rawTx,
+    receipt: { logs, status: result.status ? 'success' : 'reverted' },
+    decodedCalls: [],
+    tokenFlows: enrichedFlows,
+    swaps,
+    tenderlyCallTrace: result,
+    internalTxs: allCalls.map((call) => ({
+      from: call.from,
+      to: call.to,
+      value: call.value || '0',
+      type: call.type,
+      gas: call.gas,
+      gasUsed: call.gasUsed,
+    })),
+    etherscanInternalTxs: [],
+    addressLabels,
+    balanceDeltas,
+    profitSummary: profit,
+  };
+  state = { ...state, ...(await callTraceEnrichNode(state)) };
+  state = { ...state, ...(await failureAnalysisNode(state)) };
+  state = { ...state, ...(await callTraceExplainNode(state)) };
+  state = { ...state, ...(await draftNode(state)) };
+
+  const summary = state.draftExplanation || (state.error ? `Error: ${state.error}` : 'No explanation generated');
+  const report: SimulationReport = {
+    chain,
+    blockNumber,
+    from,
+    to,
+    value: rawTx.value,
+    input,
+    functionName: functionName ?? root?.function ?? null,
+    status: result.status,
+    gasUsed: rawTx.gasUsed,
+    error: root?.error ?? null,
+    failure: state.failureAnalysis ?? null,
+    summary,
+    steps: extractSteps(state.draftExplanation || ''),
+    tokenFlows: enrichedFlows,
+    swaps,
+    balanceDeltas,
+    profit,
+    callTraceExplanation: state.callTraceExplanation,
+    flattenedCalls: state.flattenedCalls,
+    events: state.decodedEvents,
+    stateChanges: result.stateChanges?.length ?? 0,
+  };
+  getProgress()?.({ type: 'simulation_done', payload: { report } });
+  return report;
+}
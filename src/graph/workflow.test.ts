@@ -0,0 +1,86 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { analyzeTx } from './workflow.js';
+import { config } from '../config/index.js';
+import { hasFixtures } from '../tools/fixtures.js';
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../..');
+const FIXTURE_DIR = path.join(ROOT, 'fixtures');
+const SYNTHETIC_DIR = path.join(FIXTURE_DIR, 'synthetic');
+
+// fixtures/synthetic: a WETH → USDC → WETH arbitrage across a Uniswap V2 and a V3 pool (see its README)
+const SYNTHETIC_TX = '0xd5d577e69d2c894d23e16539e08de74b902cb2c422d04dc59183500be28aa230';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const NATIVE = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+const SEARCHER = '0x5ea4c4e5000000000000000000000000000000e0';
+const EXECUTOR = '0x5ea4c4e5000000000000000000000000000000e1';
+const V2_PAIR = '0x5ea4c4e5000000000000000000000000000000a2';
+const V3_POOL = '0x5ea4c4e5000000000000000000000000000000a3';
+const BUILDER = '0x5ea4c4e5000000000000000000000000000000c0';
+
+const EXAMPLE_HASHES = [
+  ...new Set(
+    (readFileSync(path.join(ROOT, 'docs', 'COMPLEX_TX_EXAMPLES.md'), 'utf8').match(/0x[0-9a-fA-F]{64}/g) ?? [])
+      .map((h) => h.toLowerCase())
+  ),
+];
+
+// Request keys include the trace method, so replay needs the settings the fixtures were recorded with
+const RECORDED_CONFIG = { traceProvider: 'debug', chainId: 1, enableVerification: true };
+const saved = Object.fromEntries(Object.keys(RECORDED_CONFIG).map((k) => [k, config[k as keyof typeof config]]));
+
+beforeAll(() => Object.assign(config, RECORDED_CONFIG));
+afterAll(() => Object.assign(config, saved));
+
+const replay = (txHash: string, dir: string) =>
+  analyzeTx(txHash, 'ethereum', { fixtures: { mode: 'replay', dir }, cache: false });
+
+describe('analyzeTx (fixture replay)', () => {
+  it('replays the synthetic arbitrage fixture', async () => {
+    const result = await replay(SYNTHETIC_TX, SYNTHETIC_DIR);
+
+    expect(result.error).toBeUndefined();
+    expect(result.mevPattern.type).toBe('arbitrage');
+    expect(result.mevPattern.details).toMatchObject({
+      cyclic: true,
+      executor: EXECUTOR,
+      beneficiary: EXECUTOR,
+      protocols: ['uniswap_v2', 'uniswap_v3'],
+      profitToken: WETH,
+      profit: '80000000000000000',
+    });
+
+    expect(result.tokenFlows.map((f: any) => [f.standard, f.token, f.from, f.to, f.amount])).toEqual([
+      ['erc20', WETH, EXECUTOR, V2_PAIR, '10000000000000000000'],
+      ['erc20', USDC, V2_PAIR, V3_POOL, '35000000000'],
+      ['erc20', WETH, V3_POOL, EXECUTOR, '10080000000000000000'],
+      ['native', NATIVE, EXECUTOR, BUILDER, '10000000000000000'],
+    ]);
+
+    const ledger = Object.fromEntries(
+      result.balanceDeltas.map((d: any) => [d.address, Object.fromEntries(d.changes.map((c: any) => [c.token, c.delta]))])
+    );
+    expect(ledger[SEARCHER]).toEqual({ [NATIVE]: '-1080000000000000' });
+    expect(ledger[EXECUTOR]).toEqual({ [WETH]: '80000000000000000', [NATIVE]: '-10000000000000000' });
+    expect(ledger[BUILDER]).toEqual({ [NATIVE]: '10180000000000000' });
+    expect(ledger[V2_PAIR]).toEqual({ [WETH]: '10000000000000000000', [USDC]: '-35000000000' });
+
+    expect(result.profitSummary).toMatchObject({ grossProfitUsd: 280, gasCostUsd: 3.78, netProfitUsd: 241.22 });
+    expect(result.finalReport).toBeTruthy();
+  }, 60_000);
+
+  // Recorded with `pnpm run fixtures:record`; skipped until fixtures/<hash>/ exists
+  for (const hash of EXAMPLE_HASHES) {
+    it.skipIf(!hasFixtures(hash, FIXTURE_DIR))(`replays ${hash.slice(0, 10)} from docs/COMPLEX_TX_EXAMPLES.md`, async () => {
+      const result = await replay(hash, FIXTURE_DIR);
+
+      expect(result.error).toBeUndefined();
+      expect(typeof result.mevPattern?.type).toBe('string');
+      expect(result.tokenFlows.length).toBeGreaterThan(0);
+      expect(result.balanceDeltas.length).toBeGreaterThan(0);
+    }, 60_000);
+  }
+});
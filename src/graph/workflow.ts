@@ -1,14 +1,22 @@
-import type { ProgressEvent } from '../types/index.js';
+import type { AnalysisState, ProgressEvent } from '../types/index.js';
 import { runWithProgress } from '../chat/progress.js';
 import { StateGraph, Annotation } from '@langchain/langgraph';
 import { extractNode, draftNode, verifyNode, outputNode } from './nodes.js';
 import { callTraceEnrichNode, callTraceExplainNode } from './calltrace.js';
+import { mevDetectNode } from './mev.js';
+import { failureAnalysisNode } from './failure.js';
+import { runWithFixtures, type FixtureOptions } from '../tools/fixtures.js';
+import { config } from '../config/index.js';
+import { getChainConfig } from '../config/chains.js';
+import { cacheAnalysis, getCachedAnalysis } from './cache.js';
 
 export function createMEVAnalyzer() {
   const StateAnnotation = Annotation.Root({
     txHash: Annotation<string>,
     chain: Annotation<string>,
+    simulated: Annotation<boolean>,
     rawTx: Annotation<any>,
+    receipt: Annotation<any>,
     decodedCalls: Annotation<any[]>,
     tokenFlows: Annotation<any[]>,
     tenderlyCallTrace: Annotation<any>,
@@ -18,9 +26,18 @@ export function createMEVAnalyzer() {
     contractABI: Annotation<any>,
     contractSource: Annotation<any>,
     gasContext: Annotation<any>,
+    blockContext: Annotation<any>,
+    mevPattern: Annotation<any>,
+    balanceDeltas: Annotation<any[]>,
+    profitSummary: Annotation<any>,
+    builderPayment: Annotation<any>,
+    flashLoans: Annotation<any>,
+    swaps: Annotation<any[]>,
     callTraceEnrichment: Annotation<any>,
     flattenedCalls: Annotation<any[]>,
+    decodedEvents: Annotation<any[]>,
     callTraceExplanation: Annotation<string>,
+    failureAnalysis: Annotation<any>,
     draftExplanation: Annotation<string>,
     verificationResult: Annotation<any>,
     finalReport: Annotation<any>,
@@ -30,15 +47,19 @@ export function createMEVAnalyzer() {
   const workflow = new StateGraph(StateAnnotation);
 
   workflow.addNode('extract', extractNode as any);
+  workflow.addNode('mevDetect', mevDetectNode as any);
   workflow.addNode('callTraceEnrich', callTraceEnrichNode as any);
+  workflow.addNode('failureAnalyze', failureAnalysisNode as any);
   workflow.addNode('callTraceExplain', callTraceExplainNode as any);
   workflow.addNode('draft', draftNode as any);
   workflow.addNode('verify', verifyNode as any);
   workflow.addNode('output', outputNode as any);
 
   (workflow as any).addEdge('__start__', 'extract');
-  (workflow as any).addEdge('extract', 'callTraceEnrich');
-  (workflow as any).addEdge('callTraceEnrich', 'callTraceExplain');
+  (workflow as any).addEdge('extract', 'mevDetect');
+  (workflow as any).addEdge('mevDetect', 'callTraceEnrich');
+  (workflow as any).addEdge('callTraceEnrich', 'failureAnalyze');
+  (workflow as any).addEdge('failureAnalyze', 'callTraceExplain');
   (workflow as any).addEdge('callTraceExplain', 'draft');
   (workflow as any).addEdge('draft', 'verify');
   (workflow as any).addEdge('verify', 'output');
@@ -49,14 +70,45 @@ export function createMEVAnalyzer() {
 
 export interface AnalyzeTxOptions {
   onProgress?: (event: ProgressEvent) => void;
+  /** Record or replay external responses (defaults to FIXTURE_MODE / FIXTURE_DIR) */
+  fixtures?: FixtureOptions;
+  /** Use the persistent analysis cache (default: ANALYSIS_CACHE, on unless "false") */
+  cache?: boolean;
+  /** Ignore a cached analysis and re-run the graph (the cache entry is overwritten) */
+  refresh?: boolean;
 }
 
 export async function analyzeTx(txHash: string, chain: string = 'ethereum', options?: AnalyzeTxOptions) {
   const analyzer = createMEVAnalyzer();
-  const invoke = () => analyzer.invoke({ txHash, chain });
+  const chainName = getChainConfig(chain).name;
+  const fixtures = options?.fixtures ?? { mode: config.fixtureMode ?? 'off', dir: config.fixtureDir };
+  const invoke = () => runWithFixtures(txHash, fixtures, () => analyzer.invoke({ txHash, chain: chainName }));
+  type Result = Awaited<ReturnType<typeof invoke>>;
 
-  if (options?.onProgress) {
-    return runWithProgress(options.onProgress, invoke);
+  // Recording / replaying fixtures must exercise the graph, so the cache is bypassed
+  const useCache = (options?.cache ?? config.analysisCache !== false) && fixtures.mode === 'off';
+  if (useCache && !options?.refresh) {
+    const cached = getCachedAnalysis(chainName, txHash);
+    if (cached) {
+      console.log(`💾 [Cache] Serving cached analysis for ${txHash} (pipeline v${cached.pipelineVersion})`);
+      options?.onProgress?.({
+        type: 'cache_hit',
+        payload: { pipelineVersion: cached.pipelineVersion, cachedAt: cached.createdAt },
+      });
+      options?.onProgress?.({ type: 'done', payload: { report: cached.state.finalReport } });
+      return cached.state as Result;
+    }
   }
-  return invoke();
+
+  const result = options?.onProgress
+    ? await runWithProgress(options.onProgress, invoke)
+    : await invoke();
+  if (useCache) {
+    try {
+      cacheAnalysis(result as AnalysisState);
+    } catch (error) {
+      console.warn('⚠️  [Cache] Failed to store analysis:', error);
+    }
+  }
+  return result;
 }
@@ -3,10 +3,16 @@
  */
 
 export { analyzeTx, createMEVAnalyzer } from './graph/workflow.js';
-export { getTransactionDetails, extractTokenFlows } from './tools/rpc.js';
+export { getTransactionDetails, extractTokenFlows, extractNativeFlows, NATIVE_TOKEN_ADDRESS } from './tools/rpc.js';
 export { getContractABI, getContractName } from './tools/etherscan.js';
 export { identifyMEVPattern } from './mev/patterns.js';
-export type { AnalysisState, Transaction, TokenFlow, MEVPattern, MEVType } from './types/index.js';
+export { decodeSwaps, attributeSwaps } from './mev/swaps.js';
+export { analyzeBlock } from './mev/block-analysis.js';
+export { analyzeAddress } from './mev/address-analysis.js';
+export { simulateTx, type SimulationRequest } from './graph/simulation.js';
+export { replayCounterfactual, type CounterfactualOptions } from './mev/counterfactual.js';
+export { decodeRevertReason } from './tools/revert-decoder.js';
+export type { AnalysisState, Transaction, TokenFlow, MEVPattern, MEVType, BlockMEVSummary, MEVBundle, AddressReport, SimulationReport, CounterfactualReport, FailureAnalysis, RevertReason, Swap, FlashLoan } from './types/index.js';
 
 // 如果直接运行
 if (import.meta.url === `file://${process.argv[1]}`) {
@@ -0,0 +1,197 @@
+/**
+ * Address profile: classification (EOA / contract / proxy / known entity), verified
+ * metadata, a summary of recent transactions and token transfers, and MEV bot signals
+ * (transaction frequency, top-of-block placement, direct coinbase payments).
+ */
+import { toFunctionSignature, type AbiFunction, type Hash } from 'viem';
+import { DEFAULT_CHAIN, getChainConfig } from '../config/chains.js';
+import { getContractMetadata } from '../tools/contract-metadata.js';
+import { getAddressActivity, getContractName } from '../tools/etherscan.js';
+import { getKnownAddressLabel } from '../tools/known-addresses.js';
+import { getBlock, getPublicClient } from '../tools/rpc.js';
+import type { AddressReport, ProgressEvent } from '../types/index.js';
+
+const ACTIVITY_LIMIT = 100;
+const LATEST_TXS = 10;
+const MAX_COINBASE_BLOCKS = 20;
+// Positions counted as "top of block" (builders place bundles first)
+const TOP_OF_BLOCK_POSITIONS = 3;
+const HIGH_FREQUENCY_TXS_PER_DAY = 100;
+
+export interface AnalyzeAddressOptions {
+  onProgress?: (event: ProgressEvent) => void;
+}
+
+function topCounts(values: string[], limit: number): Array<{ key: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([key, count]) => ({ key, count }));
+}
+
+function abiFunctions(abi: any[] | null): string[] {
+  const signatures = new Set<string>();
+  for (const entry of abi ?? []) {
+    if (entry?.type !== 'function') continue;
+    try {
+      signatures.add(toFunctionSignature(entry as AbiFunction));
+    } catch {
+      // Malformed ABI entry
+    }
+  }
+  return [...signatures].slice(0, 50);
+}
+
+/**
+ * Native transfers by the address to the fee recipient of the block they were made in
+ */
+async function findCoinbasePayments(
+  address: string,
+  payments: Array<{ blockNumber: number; to: string; value: bigint }>,
+  chain: string
+): Promise<AddressReport['coinbasePayments']> {
+  const blocks = [...new Set(payments.map((p) => p.blockNumber))].slice(0, MAX_COINBASE_BLOCKS);
+  const miners = new Map<number, string>();
+  await Promise.all(
+    blocks.map(async (n) => {
+      const block = await getBlock(BigInt(n), chain).catch(() => null);
+      if (block) miners.set(n, block.miner.toLowerCase());
+    })
+  );
+  const toCoinbase = payments.filter((p) => miners.get(p.blockNumber) === p.to && p.to !== address);
+  return {
+    count: toCoinbase.length,
+    total: toCoinbase.reduce((sum, p) => sum + p.value, 0n).toString(),
+    blocksChecked: miners.size,
+  };
+}
+
+export async function analyzeAddress(
+  address: string,
+  chain: string = DEFAULT_CHAIN,
+  options: AnalyzeAddressOptions = {}
+): Promise<AddressReport> {
+  const chainConfig = getChainConfig(chain);
+  const normalized = address.toLowerCase();
+  const client = getPublicClient(chainConfig.name);
+  console.log(`🏷️  [Address] Analyzing ${normalized} (${chainConfig.name})...`);
+
+  const [code, balance, nonce] = await Promise.all([
+    client.getBytecode({ address: normalized as Hash }),
+    client.getBalance({ address: normalized as Hash }),
+    client.getTransactionCount({ address: normalized as Hash }),
+  ]);
+  const isContract = Boolean(code && code !== '0x');
+  const metadata = isContract ? await getContractMetadata(normalized, chainConfig.name) : null;
+  const contractName = isContract ? await getContractName(normalized, chainConfig.name) : null;
+  const label = getKnownAddressLabel(normalized, chainConfig.labelChainId);
+
+  const [txs, internalTxs, tokenTxs] = await Promise.all([
+    getAddressActivity(normalized, 'txlist', chainConfig.name, ACTIVITY_LIMIT),
+    getAddressActivity(normalized, 'txlistinternal', chainConfig.name, ACTIVITY_LIMIT),
+    getAddressActivity(normalized, 'tokentx', chainConfig.name, ACTIVITY_LIMIT),
+  ]);
+
+  const timestamps = txs.map((t) => Number(t.timeStamp)).filter((t) => t > 0);
+  const firstTimestamp = timestamps.length ? Math.min(...timestamps) : null;
+  const lastTimestamp = timestamps.length ? Math.max(...timestamps) : null;
+
+  // An EOA's bot signals come from the txs it sent, not from other people's txs to it
+  const ownTxs = isContract ? txs : txs.filter((t) => t.from?.toLowerCase() === normalized);
+  const ownTimestamps = ownTxs.map((t) => Number(t.timeStamp)).filter((t) => t > 0);
+  const spanSeconds = ownTimestamps.length ? Math.max(...ownTimestamps) - Math.min(...ownTimestamps) : 0;
+  const txsPerDay = spanSeconds > 0 ? Math.round((ownTxs.length / (spanSeconds / 86400)) * 10) / 10 : null;
+  const positioned = ownTxs.filter((t) => t.transactionIndex !== undefined && t.transactionIndex !== '');
+  const topOfBlockShare = positioned.length
+    ? Math.round((positioned.filter((t) => Number(t.transactionIndex) < TOP_OF_BLOCK_POSITIONS).length / positioned.length) * 100) / 100
+    : null;
+  const failed = txs.filter((t) => t.isError === '1').length;
+
+  const counterparties = topCounts(
+    txs.map((t) => (t.from?.toLowerCase() === normalized ? t.to : t.from)?.toLowerCase()).filter(Boolean),
+    10
+  ).map(({ key, count }) => {
+    const counterpartyLabel = getKnownAddressLabel(key, chainConfig.labelChainId);
+    return { address: key, ...(counterpartyLabel ? { label: counterpartyLabel } : {}), count };
+  });
+  const methods = topCounts(
+    txs.map((t) => (t.functionName ? String(t.functionName).split('(')[0] : t.methodId) || 'transfer'),
+    10
+  ).map(({ key, count }) => ({ name: key, count }));
+
+  const tokenStats = new Map<string, { token: string; symbol: string | null; received: number; sent: number }>();
+  for (const t of tokenTxs) {
+    const token = String(t.contractAddress).toLowerCase();
+    const entry = tokenStats.get(token) ?? { token, symbol: t.tokenSymbol || null, received: 0, sent: 0 };
+    if (t.to?.toLowerCase() === normalized) entry.received++;
+    if (t.from?.toLowerCase() === normalized) entry.sent++;
+    tokenStats.set(token, entry);
+  }
+
+  const payments = [...txs, ...internalTxs]
+    .filter((t) => t.from?.toLowerCase() === normalized && t.to && t.isError !== '1' && BigInt(t.value || '0') > 0n)
+    .map((t) => ({ blockNumber: Number(t.blockNumber), to: t.to.toLowerCase(), value: BigInt(t.value) }));
+  const coinbasePayments = await findCoinbasePayments(normalized, payments, chainConfig.name);
+
+  const strong: string[] = [];
+  const weak: string[] = [];
+  if (txsPerDay !== null && txsPerDay >= HIGH_FREQUENCY_TXS_PER_DAY) strong.push(`high frequency (${txsPerDay} txs/day)`);
+  if (topOfBlockShare !== null && positioned.length >= 5 && topOfBlockShare >= 0.25) {
+    strong.push(`top-of-block placement (${Math.round(topOfBlockShare * 100)}% of txs in the first ${TOP_OF_BLOCK_POSITIONS} positions)`);
+  }
+  if (coinbasePayments.count > 0) strong.push(`direct coinbase payments (${coinbasePayments.count})`);
+  const ownFailed = ownTxs.filter((t) => t.isError === '1').length;
+  if (ownTxs.length >= 10 && ownFailed / ownTxs.length >= 0.2) weak.push(`frequent reverts (${ownFailed}/${ownTxs.length})`);
+  if (isContract && !metadata?.abi) weak.push('unverified contract');
+  const labelled = Boolean(label && /mev|searcher|bot/i.test(label));
+  if (labelled) strong.unshift(`known label "${label}"`);
+
+  const report: AddressReport = {
+    address: normalized,
+    chain: chainConfig.name,
+    kind: !isContract ? 'eoa' : metadata?.proxy ? 'proxy' : 'contract',
+    label,
+    contractName,
+    verified: Boolean(metadata?.abi),
+    proxy: metadata?.proxy ?? null,
+    functions: abiFunctions(metadata?.decodingAbi ?? null),
+    balance: balance.toString(),
+    nonce,
+    recentTransactions: {
+      sampled: txs.length,
+      failed,
+      firstTimestamp,
+      lastTimestamp,
+      txsPerDay,
+      topOfBlockShare,
+      counterparties,
+      methods,
+      latest: txs.slice(0, LATEST_TXS).map((t) => ({
+        hash: t.hash,
+        blockNumber: Number(t.blockNumber),
+        timestamp: Number(t.timeStamp),
+        from: t.from?.toLowerCase(),
+        to: t.to ? t.to.toLowerCase() : null,
+        value: t.value,
+        method: t.functionName ? String(t.functionName).split('(')[0]! : t.methodId || null,
+        failed: t.isError === '1',
+        transactionIndex: t.transactionIndex !== undefined && t.transactionIndex !== '' ? Number(t.transactionIndex) : null,
+      })),
+    },
+    tokenTransfers: {
+      sampled: tokenTxs.length,
+      tokens: [...tokenStats.values()].sort((a, b) => b.received + b.sent - (a.received + a.sent)).slice(0, 15),
+    },
+    coinbasePayments,
+    mevBot: {
+      likely: labelled || strong.length >= 2 || (strong.length === 1 && weak.length >= 1),
+      signals: [...strong, ...weak],
+    },
+  };
+
+  console.log(`   ✓ ${report.kind}${label ? ` [${label}]` : ''}, ${txs.length} recent txs, MEV bot: ${report.mevBot.likely ? 'likely' : 'no'}`);
+  options.onProgress?.({ type: 'address_done', payload: { report } });
+  return report;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { computeBalanceDeltas } from './balances.js';
+import type { BalanceDelta, TokenFlow, Transaction } from '../types/index.js';
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const NATIVE = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+const EOA = '0x00000000000000000000000000000000000000e0';
+const EXECUTOR = '0x00000000000000000000000000000000000000e1';
+const POOL = '0x00000000000000000000000000000000000000a1';
+const BUILDER = '0x00000000000000000000000000000000000000c0';
+
+const GWEI = 10n ** 9n;
+
+const tx: Transaction = {
+  hash: '0x01',
+  from: EOA,
+  to: EXECUTOR,
+  value: '0',
+  gasUsed: '100000',
+  gasPrice: (30n * GWEI).toString(),
+  blockNumber: 1,
+  input: '0x',
+  logs: [],
+};
+
+const flow = (token: string, from: string, to: string, amount: string): TokenFlow => ({
+  standard: token === NATIVE ? 'native' : 'erc20',
+  token,
+  from,
+  to,
+  amount,
+});
+
+const deltasOf = (deltas: BalanceDelta[]) =>
+  Object.fromEntries(deltas.map((d) => [d.address, Object.fromEntries(d.changes.map((c) => [c.token, c.delta]))]));
+
+describe('computeBalanceDeltas', () => {
+  it('charges gas to the sender and credits the priority fee and direct payment to the coinbase', () => {
+    const deltas = computeBalanceDeltas({
+      tx,
+      tokenFlows: [
+        flow(WETH, POOL, EXECUTOR, '500'),
+        flow(WETH, EXECUTOR, POOL, '400'),
+        flow(NATIVE, EXECUTOR, BUILDER, (10n ** 15n).toString()),
+      ],
+      effectiveGasPrice: (30n * GWEI).toString(),
+      coinbase: BUILDER,
+      baseFeePerGas: (25n * GWEI).toString(),
+    });
+
+    expect(deltas.map((d) => [d.address, d.roles])).toEqual([
+      [EOA, ['sender']],
+      [EXECUTOR, ['recipient']],
+      [BUILDER, ['coinbase']],
+      [POOL, []],
+    ]);
+    expect(deltasOf(deltas)).toEqual({
+      [EOA]: { [NATIVE]: (-100000n * 30n * GWEI).toString() },
+      [EXECUTOR]: { [WETH]: '100', [NATIVE]: (-(10n ** 15n)).toString() },
+      [BUILDER]: { [NATIVE]: (10n ** 15n + 100000n * 5n * GWEI).toString() },
+      [POOL]: { [WETH]: '-100' },
+    });
+    expect(deltas[0]!.gasFee).toBe((100000n * 30n * GWEI).toString());
+    expect(deltas[2]!.priorityFee).toBe((100000n * 5n * GWEI).toString());
+  });
+
+  it('pays the whole gas fee to the coinbase before EIP-1559', () => {
+    const deltas = computeBalanceDeltas({ tx, tokenFlows: [], coinbase: BUILDER, baseFeePerGas: null });
+
+    expect(deltasOf(deltas)).toEqual({
+      [EOA]: { [NATIVE]: (-100000n * 30n * GWEI).toString() },
+      [BUILDER]: { [NATIVE]: (100000n * 30n * GWEI).toString() },
+    });
+  });
+
+  it('drops addresses that net to zero unless they are the sender, recipient or coinbase', () => {
+    const deltas = computeBalanceDeltas({
+      tx: { ...tx, gasUsed: '0' },
+      tokenFlows: [flow(WETH, EXECUTOR, POOL, '100'), flow(WETH, POOL, EXECUTOR, '100')],
+    });
+
+    expect(deltas.map((d) => d.address)).toEqual([EOA, EXECUTOR]);
+    expect(deltas.every((d) => d.changes.length === 0)).toBe(true);
+  });
+});
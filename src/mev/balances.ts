@@ -0,0 +1,131 @@
+/**
+ * Per-address balance ledger: net change per token (and native currency, gas included)
+ * for every address touched by a transaction.
+ */
+import { zeroAddress } from 'viem';
+import { NATIVE_TOKEN_ADDRESS } from '../tools/rpc.js';
+import type { BalanceDelta, TokenDelta, TokenFlow, Transaction } from '../types/index.js';
+
+export interface BalanceLedgerInput {
+  tx: Transaction;
+  tokenFlows: TokenFlow[];
+  /** Effective gas price from the receipt (falls back to tx.gasPrice) */
+  effectiveGasPrice?: string | null;
+  /** Block fee recipient (credited with the priority fee) and base fee (null before EIP-1559) */
+  coinbase?: string | null;
+  baseFeePerGas?: string | null;
+  labels?: Record<string, string>;
+  nativeSymbol?: string;
+}
+
+interface Entry {
+  delta: bigint;
+  meta: Omit<TokenDelta, 'delta'>;
+}
+
+function deltaKey(flow: TokenFlow): string {
+  return flow.standard === 'erc1155' ? `${flow.token}:${flow.tokenId}` : flow.token;
+}
+
+/**
+ * Gas fee paid by the sender and the part of it earned by the block producer
+ */
+export function computeGasFees(
+  gasUsed: string,
+  effectiveGasPrice: string,
+  baseFeePerGas?: string | null
+): { gasFee: bigint; priorityFee: bigint; burned: bigint } {
+  const gas = BigInt(gasUsed);
+  const price = BigInt(effectiveGasPrice);
+  const baseFee = baseFeePerGas ? BigInt(baseFeePerGas) : 0n;
+  const tip = price > baseFee ? price - baseFee : 0n;
+  return { gasFee: gas * price, priorityFee: gas * tip, burned: gas * (price - tip) };
+}
+
+/**
+ * Net balance change per address. Addresses whose balances net to zero are omitted,
+ * except the sender and the coinbase.
+ */
+export function computeBalanceDeltas(input: BalanceLedgerInput): BalanceDelta[] {
+  const { tx, tokenFlows } = input;
+  const sender = tx.from.toLowerCase();
+  const recipient = tx.to?.toLowerCase() ?? null;
+  const coinbase = input.coinbase?.toLowerCase() ?? null;
+  const ledger = new Map<string, Map<string, Entry>>();
+  const labels = Object.fromEntries(
+    Object.entries(input.labels ?? {}).map(([address, label]) => [address.toLowerCase(), label])
+  );
+
+  const credit = (address: string, flow: TokenFlow, amount: bigint) => {
+    const account = address.toLowerCase();
+    if (account === zeroAddress) return;
+    const entries = ledger.get(account) ?? new Map<string, Entry>();
+    ledger.set(account, entries);
+    const key = deltaKey(flow);
+    const entry = entries.get(key) ?? {
+      delta: 0n,
+      meta: {
+        token: flow.token,
+        standard: flow.standard,
+        symbol: flow.symbol,
+        decimals: flow.decimals,
+        ...(flow.standard === 'erc1155' ? { tokenId: flow.tokenId } : {}),
+      },
+    };
+    entry.delta += amount;
+    if (flow.standard === 'erc721' && flow.tokenId !== undefined) {
+      const side = amount > 0n ? 'tokenIdsIn' : 'tokenIdsOut';
+      entry.meta[side] = [...(entry.meta[side] ?? []), flow.tokenId];
+    }
+    entries.set(key, entry);
+  };
+
+  for (const flow of tokenFlows) {
+    const amount = BigInt(flow.amount);
+    if (amount === 0n) continue;
+    credit(flow.from, flow, -amount);
+    credit(flow.to, flow, amount);
+  }
+
+  const nativeFlow: TokenFlow = {
+    standard: 'native',
+    token: NATIVE_TOKEN_ADDRESS,
+    from: sender,
+    to: coinbase ?? zeroAddress,
+    amount: '0',
+    symbol: input.nativeSymbol ?? 'ETH',
+    decimals: '18',
+  };
+  const { gasFee, priorityFee } = computeGasFees(
+    tx.gasUsed,
+    input.effectiveGasPrice || tx.gasPrice || '0',
+    input.baseFeePerGas
+  );
+  credit(sender, nativeFlow, -gasFee);
+  if (coinbase) credit(coinbase, nativeFlow, priorityFee);
+
+  const result: BalanceDelta[] = [];
+  for (const [address, entries] of ledger) {
+    const changes = [...entries.values()]
+      .filter((e) => e.delta !== 0n || e.meta.tokenIdsIn?.length || e.meta.tokenIdsOut?.length)
+      .map((e) => ({ ...e.meta, delta: e.delta.toString() }));
+    const roles: BalanceDelta['roles'] = [];
+    if (address === sender) roles.push('sender');
+    if (address === recipient) roles.push('recipient');
+    if (address === coinbase) roles.push('coinbase');
+    if (changes.length === 0 && roles.length === 0) continue;
+
+    result.push({
+      address,
+      ...(labels[address] ? { label: labels[address] } : {}),
+      roles,
+      changes,
+      ...(address === sender ? { gasFee: gasFee.toString() } : {}),
+      ...(address === coinbase ? { priorityFee: priorityFee.toString() } : {}),
+    });
+  }
+
+  const rank = (d: BalanceDelta) =>
+    d.roles.includes('sender') ? 0 : d.roles.includes('recipient') ? 1 : d.roles.includes('coinbase') ? 2 : 3;
+  return result.sort((a, b) => rank(a) - rank(b) || b.changes.length - a.changes.length);
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { bundleMembers } from './block-analysis.js';
+import type { BlockContext, BlockTxContext, MEVPattern, Swap } from '../types/index.js';
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const SEARCHER = '0x00000000000000000000000000000000000000e0';
+const EXECUTOR = '0x00000000000000000000000000000000000000e1';
+const USER = '0x00000000000000000000000000000000000000f1';
+const ROUTER = '0x00000000000000000000000000000000000000f2';
+const POOL_A = '0x00000000000000000000000000000000000000a1';
+const POOL_B = '0x00000000000000000000000000000000000000b1';
+
+const swap = (pool: string): Swap => ({
+  pool,
+  protocol: 'uniswap_v2',
+  tokenIn: WETH,
+  tokenOut: USDC,
+  amountIn: '1000',
+  amountOut: '3000',
+  sender: ROUTER,
+  recipient: USER,
+  logIndex: 0,
+});
+
+const blockTx = (index: number, from: string, to: string, extra: Partial<BlockTxContext> = {}): BlockTxContext => ({
+  hash: `0x0${index}`,
+  index,
+  from,
+  to,
+  status: 'success',
+  gasUsed: '100000',
+  effectiveGasPrice: '1',
+  tokenFlows: [],
+  swaps: [],
+  liquidityEvents: [],
+  ...extra,
+});
+
+const block = (txs: BlockTxContext[]): BlockContext => ({
+  blockNumber: 1,
+  timestamp: 0,
+  miner: '0x00',
+  baseFeePerGas: null,
+  transactionCount: txs.length,
+  txs,
+});
+
+const arbitrage: MEVPattern = {
+  type: 'arbitrage',
+  confidence: 0.9,
+  details: { path: [{ pool: POOL_A }, { pool: POOL_B }] },
+};
+
+describe('bundleMembers', () => {
+  it('groups a sandwich into frontrun, victim and backrun with the searcher owning the outer txs', () => {
+    const sandwich: MEVPattern = {
+      type: 'sandwich',
+      confidence: 0.95,
+      details: { frontrunTx: '0x01', victimTx: '0x02', backrunTx: '0x03' },
+    };
+    const txs = [blockTx(1, SEARCHER, EXECUTOR), blockTx(2, USER, ROUTER), blockTx(3, SEARCHER, EXECUTOR)];
+
+    expect(bundleMembers(sandwich, txs[1]!, block(txs))).toEqual({
+      members: [
+        { hash: '0x01', role: 'frontrun' },
+        { hash: '0x02', role: 'victim' },
+        { hash: '0x03', role: 'backrun' },
+      ],
+      searcherTxs: ['0x01', '0x03'],
+    });
+  });
+
+  it('adds the preceding swap on an arbitrage pool as the backrun target', () => {
+    const txs = [blockTx(1, USER, ROUTER, { swaps: [swap(POOL_B)] }), blockTx(2, SEARCHER, EXECUTOR)];
+
+    expect(bundleMembers(arbitrage, txs[1]!, block(txs))).toEqual({
+      members: [
+        { hash: '0x01', role: 'target' },
+        { hash: '0x02', role: 'arbitrage' },
+      ],
+      searcherTxs: ['0x02'],
+    });
+  });
+
+  it('leaves an arbitrage alone after the searcher\'s own tx, a reverted tx or another pool', () => {
+    const after = (previous: BlockTxContext) => bundleMembers(arbitrage, blockTx(2, SEARCHER, EXECUTOR), block([previous])).members;
+
+    expect(after(blockTx(1, SEARCHER, EXECUTOR, { swaps: [swap(POOL_A)] }))).toEqual([{ hash: '0x02', role: 'arbitrage' }]);
+    expect(after(blockTx(1, USER, ROUTER, { swaps: [swap(POOL_A)], status: 'reverted' }))).toHaveLength(1);
+    expect(after(blockTx(1, USER, ROUTER, { swaps: [swap('0x00000000000000000000000000000000000000c1')] }))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Block-level MEV analysis: runs the rule-based detectors over every candidate tx of a
+ * block, groups related txs into bundles and values each bundle at the block's prices.
+ * No trace and no LLM call per tx, so native transfers (e.g. coinbase payments) are not seen.
+ */
+import { DEFAULT_CHAIN, getChainConfig } from '../config/chains.js';
+import { getAddressLabel } from '../tools/etherscan.js';
+import { NATIVE_TOKEN_ADDRESS } from '../tools/rpc.js';
+import { fetchBlockContext } from './block-context.js';
+import { annotateFinancingFlows, decodeFlashLoans } from './flashloans.js';
+import { decodeLiquidations } from './liquidations.js';
+import { identifyMEVPattern, netFlowsFor } from './patterns.js';
+import { createPriceOracle, valueTokenAmountsUsd } from './pricing.js';
+import type {
+  BlockContext,
+  BlockMEVSummary,
+  BlockTxContext,
+  MEVBundle,
+  MEVPattern,
+  ProgressEvent,
+  Transaction,
+} from '../types/index.js';
+
+// Unprofitable or one-sided cycles score below this
+const MIN_BUNDLE_CONFIDENCE = 0.5;
+
+export interface AnalyzeBlockOptions {
+  onProgress?: (event: ProgressEvent) => void;
+}
+
+function toTransaction(t: BlockTxContext, blockNumber: number): Transaction {
+  return {
+    hash: t.hash,
+    from: t.from,
+    to: t.to,
+    value: '0',
+    gasUsed: t.gasUsed,
+    gasPrice: t.effectiveGasPrice,
+    blockNumber,
+    input: '0x',
+    logs: t.logs ?? [],
+  };
+}
+
+/**
+ * Bundle members (hash + role) and the searcher's own txs for a detected pattern
+ */
+export function bundleMembers(
+  pattern: MEVPattern,
+  tx: BlockTxContext,
+  block: BlockContext
+): { members: Array<{ hash: string; role: string }>; searcherTxs: string[] } {
+  const d = pattern.details;
+  switch (pattern.type) {
+    case 'sandwich':
+      return {
+        members: [
+          { hash: d.frontrunTx, role: 'frontrun' },
+          { hash: d.victimTx, role: 'victim' },
+          { hash: d.backrunTx, role: 'backrun' },
+        ],
+        searcherTxs: [d.frontrunTx, d.backrunTx],
+      };
+    case 'jit_liquidity':
+      return {
+        members: [
+          { hash: d.mintTx, role: 'mint' },
+          { hash: d.swapTx, role: 'victim' },
+          { hash: d.burnTx, role: 'burn' },
+        ],
+        searcherTxs: [d.mintTx, d.burnTx],
+      };
+    case 'arbitrage': {
+      // Backrun: the tx right before touched one of the arbitrage pools
+      const pools = new Set<string>((d.path ?? []).map((hop: { pool: string }) => hop.pool));
+      const previous = block.txs.find((t) => t.index === tx.index - 1);
+      const target =
+        previous && previous.status === 'success' && previous.from !== tx.from &&
+        previous.swaps.some((s) => pools.has(s.pool))
+          ? previous
+          : null;
+      return {
+        members: [
+          ...(target ? [{ hash: target.hash, role: 'target' }] : []),
+          { hash: tx.hash, role: 'arbitrage' },
+        ],
+        searcherTxs: [tx.hash],
+      };
+    }
+    default:
+      return { members: [{ hash: tx.hash, role: pattern.type }], searcherTxs: [tx.hash] };
+  }
+}
+
+function searcherOf(pattern: MEVPattern, tx: BlockTxContext): { searcher: string; contract: string | null } {
+  const d = pattern.details;
+  switch (pattern.type) {
+    case 'sandwich':
+      return { searcher: d.attacker, contract: d.attackerContract ?? null };
+    case 'jit_liquidity':
+      return { searcher: d.searcher, contract: d.searcherContract ?? null };
+    case 'arbitrage':
+      return { searcher: d.owner, contract: d.executor !== d.owner ? d.executor : null };
+    default:
+      return { searcher: tx.from, contract: tx.to };
+  }
+}
+
+function sumUsd(values: Array<number | null>): number | null {
+  const known = values.filter((v): v is number => v !== null);
+  return known.length ? Math.round(known.reduce((a, b) => a + b, 0) * 100) / 100 : null;
+}
+
+/**
+ * Detect and group the MEV of a block. Only successful txs with swaps, Uniswap V3
+ * liquidity events or lending / flash loan events are run through the detectors.
+ */
+export async function analyzeBlock(
+  blockNumber: number,
+  chain: string = DEFAULT_CHAIN,
+  options: AnalyzeBlockOptions = {}
+): Promise<BlockMEVSummary> {
+  const chainName = getChainConfig(chain).name;
+  options.onProgress?.({ type: 'block_scan_start', payload: { blockNumber, chain: chainName } });
+  console.log(`🧱 [Block] Loading block ${blockNumber} (${chainName})...`);
+
+  const block = await fetchBlockContext(blockNumber, { chain: chainName, includeLogs: true });
+  const byHash = new Map(block.txs.map((t) => [t.hash, t]));
+
+  // Lending and flash loan decoding reads oracles only for matching logs
+  const decoded = await Promise.all(
+    block.txs.map(async (t) => {
+      if (t.status !== 'success') return null;
+      const logs = t.logs ?? [];
+      const [liquidations, flashLoans] = await Promise.all([
+        decodeLiquidations(logs, blockNumber, chainName),
+        decodeFlashLoans(logs, chainName),
+      ]);
+      return { tx: t, liquidations, flashLoans };
+    })
+  );
+  const candidates = decoded.filter(
+    (c): c is NonNullable<typeof c> =>
+      c !== null && (c.tx.swaps.length > 0 || c.tx.liquidityEvents.length > 0 || c.liquidations.length > 0)
+  );
+  // Multi-tx detectors only need txs that can be part of a sandwich or JIT
+  const detectionBlock: BlockContext = {
+    ...block,
+    txs: block.txs.filter((t) => t.swaps.length > 0 || t.liquidityEvents.length > 0),
+  };
+  console.log(`   ✓ ${block.txs.length} txs loaded, ${candidates.length} candidates`);
+
+  const covered = new Set<string>();
+  const bundles: Array<Omit<MEVBundle, 'grossProfitUsd' | 'gasCostUsd' | 'netProfitUsd'>> = [];
+  for (const { tx, liquidations, flashLoans } of candidates) {
+    if (covered.has(tx.hash)) continue;
+    const { tokenFlows } = annotateFinancingFlows(tx.tokenFlows, flashLoans);
+    const pattern = identifyMEVPattern(toTransaction(tx, blockNumber), tokenFlows, {
+      block: detectionBlock,
+      swaps: tx.swaps,
+      liquidations,
+      flashLoans,
+    });
+    if (pattern.type === 'unknown' || pattern.confidence < MIN_BUNDLE_CONFIDENCE) continue;
+
+    const { members, searcherTxs } = bundleMembers(pattern, tx, block);
+    if (members.some((m) => covered.has(m.hash) && m.role !== 'target')) continue;
+    for (const m of members) covered.add(m.hash);
+
+    const { searcher, contract } = searcherOf(pattern, tx);
+    const own = searcherTxs.map((hash) => byHash.get(hash)).filter((t): t is BlockTxContext => Boolean(t));
+    const accounts = new Set([
+      searcher,
+      ...(contract ? [contract] : []),
+      ...(pattern.details.beneficiary ? [pattern.details.beneficiary as string] : []),
+      ...own.map((t) => t.from),
+    ]);
+    const net = netFlowsFor(accounts, own.flatMap((t) => t.tokenFlows));
+    const baseFee = block.baseFeePerGas ? BigInt(block.baseFeePerGas) : 0n;
+    let gasCost = 0n;
+    let priorityFee = 0n;
+    for (const t of own) {
+      const price = BigInt(t.effectiveGasPrice);
+      gasCost += BigInt(t.gasUsed) * price;
+      priorityFee += BigInt(t.gasUsed) * (price > baseFee ? price - baseFee : 0n);
+    }
+
+    bundles.push({
+      type: pattern.type as MEVBundle['type'],
+      confidence: pattern.confidence,
+      txs: members
+        .map((m) => ({ ...m, index: byHash.get(m.hash)?.index ?? -1 }))
+        .sort((a, b) => a.index - b.index),
+      searcher,
+      searcherContract: contract,
+      victim: pattern.details.victim ?? null,
+      protocols: pattern.details.protocols ?? [],
+      profitByToken: Object.fromEntries(
+        [...net.entries()].filter(([, v]) => v !== 0n).map(([token, v]) => [token, v.toString()])
+      ),
+      gasCost: gasCost.toString(),
+      priorityFee: priorityFee.toString(),
+      pattern,
+    });
+  }
+
+  const oracle = createPriceOracle(chainName, blockNumber);
+  const nativePrice = await oracle.priceUsd(NATIVE_TOKEN_ADDRESS);
+  const valued: MEVBundle[] = await Promise.all(
+    bundles.map(async (b) => {
+      const grossProfitUsd = await valueTokenAmountsUsd(b.profitByToken, oracle);
+      const gasCostUsd = nativePrice
+        ? Math.round((Number(b.gasCost) / 1e18) * nativePrice.usd * 100) / 100
+        : null;
+      const netProfitUsd = grossProfitUsd !== null && gasCostUsd !== null
+        ? Math.round((grossProfitUsd - gasCostUsd) * 100) / 100
+        : null;
+      return { ...b, grossProfitUsd, gasCostUsd, netProfitUsd };
+    })
+  );
+
+  const byType: BlockMEVSummary['totals']['byType'] = {};
+  for (const b of valued) byType[b.type] = (byType[b.type] ?? 0) + 1;
+
+  const summary: BlockMEVSummary = {
+    chain: chainName,
+    blockNumber,
+    timestamp: block.timestamp,
+    miner: block.miner,
+    builder: await getAddressLabel(block.miner, chainName),
+    baseFeePerGas: block.baseFeePerGas,
+    transactionCount: block.transactionCount,
+    candidateTxs: candidates.length,
+    bundles: valued,
+    totals: {
+      bundles: valued.length,
+      byType,
+      grossProfitUsd: sumUsd(valued.map((b) => b.grossProfitUsd)),
+      gasCostUsd: sumUsd(valued.map((b) => b.gasCostUsd)),
+      netProfitUsd: sumUsd(valued.map((b) => b.netProfitUsd)),
+      priorityFee: valued.reduce((sum, b) => sum + BigInt(b.priorityFee), 0n).toString(),
+    },
+  };
+  console.log(`   ✓ ${valued.length} MEV bundles, net profit ${summary.totals.netProfitUsd ?? 'n/a'} USD`);
+  options.onProgress?.({ type: 'block_done', payload: { summary } });
+  return summary;
+}
@@ -0,0 +1,127 @@
+/**
+ * Loads the transactions surrounding the analyzed tx in its block so that
+ * multi-transaction patterns (sandwiches, JIT liquidity) can be detected.
+ */
+import { formatTransactionReceipt, toHex, type Hash, type RpcTransactionReceipt, type TransactionReceipt } from 'viem';
+import { getBlock, getPublicClient, extractTokenFlows } from '../tools/rpc.js';
+import { DEFAULT_CHAIN } from '../config/chains.js';
+import { attributeSwaps, decodeSwaps } from './swaps.js';
+import { decodeLiquidityEvents } from './liquidity.js';
+import type { BlockContext, BlockTxContext } from '../types/index.js';
+
+export const DEFAULT_BLOCK_WINDOW = 5;
+
+// Receipt requests in flight at once when eth_getBlockReceipts is unavailable
+const RECEIPT_CONCURRENCY = 8;
+
+export interface BlockContextOptions {
+  /** Centre the window on this tx; when omitted the whole block is loaded */
+  around?: string;
+  window?: number;
+  chain?: string;
+  /** Keep each tx's receipt logs (needed to decode liquidations / flash loans per tx) */
+  includeLogs?: boolean;
+}
+
+async function toBlockTx(receipt: TransactionReceipt, chain: string, includeLogs = false): Promise<BlockTxContext> {
+  return {
+    hash: receipt.transactionHash.toLowerCase(),
+    index: receipt.transactionIndex,
+    from: receipt.from.toLowerCase(),
+    to: receipt.to?.toLowerCase() ?? null,
+    status: receipt.status,
+    gasUsed: receipt.gasUsed.toString(),
+    effectiveGasPrice: receipt.effectiveGasPrice.toString(),
+    tokenFlows: extractTokenFlows(receipt, chain),
+    swaps: attributeSwaps(await decodeSwaps(receipt.logs, chain), receipt.logs, null, receipt.to),
+    liquidityEvents: decodeLiquidityEvents(receipt.logs),
+    ...(includeLogs ? { logs: receipt.logs } : {}),
+  };
+}
+
+/**
+ * Context of one tx from its hash or receipt. A tx whose receipt or decoding fails is
+ * left out (null) instead of failing the whole block.
+ */
+async function loadBlockTx(
+  source: Hash | TransactionReceipt,
+  chain: string,
+  includeLogs = false
+): Promise<BlockTxContext | null> {
+  const hash = typeof source === 'string' ? source : source.transactionHash;
+  try {
+    const receipt = typeof source === 'string'
+      ? await getPublicClient(chain).getTransactionReceipt({ hash })
+      : source;
+    return await toBlockTx(receipt, chain, includeLogs);
+  } catch (error) {
+    console.warn(`   ⚠️  [Block] Skipping ${hash.slice(0, 10)}...: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]!);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * All receipts of a block in one eth_getBlockReceipts call; null when the node does not support it
+ */
+async function getBlockReceipts(blockNumber: number, chain: string): Promise<TransactionReceipt[] | null> {
+  try {
+    const receipts = await getPublicClient(chain).request({
+      method: 'eth_getBlockReceipts' as any,
+      params: [toHex(blockNumber)] as any,
+    }) as RpcTransactionReceipt[] | null;
+    return receipts ? receipts.map((r) => formatTransactionReceipt(r)) : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function fetchBlockContext(
+  blockNumber: number,
+  options: BlockContextOptions = {}
+): Promise<BlockContext> {
+  const chain = options.chain ?? DEFAULT_CHAIN;
+  const block = await getBlock(BigInt(blockNumber), chain);
+  const hashes = block.transactions as Hash[];
+
+  let start = 0;
+  let end = hashes.length;
+  if (options.around) {
+    const target = hashes.findIndex((h) => h.toLowerCase() === options.around!.toLowerCase());
+    if (target === -1) {
+      throw new Error(`Transaction ${options.around} not found in block ${blockNumber}`);
+    }
+    const window = options.window ?? DEFAULT_BLOCK_WINDOW;
+    start = Math.max(0, target - window);
+    end = Math.min(hashes.length, target + window + 1);
+  }
+
+  // The whole block comes from one eth_getBlockReceipts call when the node has it,
+  // otherwise the receipts are fetched per tx with bounded concurrency
+  const receipts = options.around ? null : await getBlockReceipts(blockNumber, chain);
+  const sources: Array<Hash | TransactionReceipt> = receipts ?? hashes.slice(start, end);
+  const txs = (await mapWithConcurrency(sources, RECEIPT_CONCURRENCY, (source) =>
+    loadBlockTx(source, chain, options.includeLogs)
+  )).filter((tx): tx is BlockTxContext => tx !== null);
+
+  return {
+    blockNumber,
+    timestamp: Number(block.timestamp),
+    miner: block.miner.toLowerCase(),
+    baseFeePerGas: block.baseFeePerGas?.toString() ?? null,
+    transactionCount: hashes.length,
+    txs,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * What the block producer earned from a transaction: the priority fee plus direct
+ * coinbase transfers made from the call trace, and the share of the sender's profit
+ * that went to the builder (bribe ratio).
+ */
+import { getAddressLabel } from '../tools/etherscan.js';
+import { extractNativeFlows, NATIVE_TOKEN_ADDRESS } from '../tools/rpc.js';
+import type { CallTrace } from '../tools/tenderly.js';
+import { computeGasFees } from './balances.js';
+import type { BuilderPayment, CoinbaseTransfer, ProfitSummary, TokenFlow, Transaction } from '../types/index.js';
+
+export interface BuilderPaymentInput {
+  tx: Transaction;
+  /** Block fee recipient and base fee (null before EIP-1559) */
+  coinbase: string;
+  baseFeePerGas?: string | null;
+  effectiveGasPrice?: string | null;
+  trace?: CallTrace | null;
+  /** Used when there is no trace (native flows from Etherscan internal txs) */
+  tokenFlows?: TokenFlow[];
+  profit?: ProfitSummary | null;
+  chain: string;
+}
+
+export async function analyzeBuilderPayment(input: BuilderPaymentInput): Promise<BuilderPayment> {
+  const feeRecipient = input.coinbase.toLowerCase();
+  const effectiveGasPrice = input.effectiveGasPrice || input.tx.gasPrice || '0';
+  const { priorityFee } = computeGasFees(input.tx.gasUsed, effectiveGasPrice, input.baseFeePerGas);
+  const baseFee = input.baseFeePerGas ? BigInt(input.baseFeePerGas) : 0n;
+  const price = BigInt(effectiveGasPrice);
+
+  const nativeFlows = input.trace
+    ? extractNativeFlows(input.tx, input.trace)
+    : (input.tokenFlows ?? []).filter((f) => f.token === NATIVE_TOKEN_ADDRESS);
+  const coinbaseTransfers: CoinbaseTransfer[] = nativeFlows
+    .filter((f) => f.to.toLowerCase() === feeRecipient)
+    .map((f) => ({
+      from: f.from.toLowerCase(),
+      amount: f.amount,
+      ...(f.callIndex !== undefined ? { callIndex: f.callIndex } : {}),
+    }));
+  const coinbaseTransferTotal = coinbaseTransfers.reduce((sum, t) => sum + BigInt(t.amount), 0n);
+  const totalPayment = priorityFee + coinbaseTransferTotal;
+
+  const nativePriceUsd = input.profit?.nativePriceUsd ?? null;
+  const totalPaymentUsd = nativePriceUsd !== null
+    ? Math.round((Number(totalPayment) / 1e18) * nativePriceUsd * 100) / 100
+    : null;
+  const gross = input.profit?.grossProfitUsd ?? null;
+  const bribeRatio = totalPaymentUsd !== null && gross !== null && gross > 0
+    ? Math.round((totalPaymentUsd / gross) * 10000) / 10000
+    : null;
+
+  return {
+    feeRecipient,
+    builder: await getAddressLabel(feeRecipient, input.chain),
+    baseFeePerGas: input.baseFeePerGas ?? null,
+    effectiveGasPrice,
+    priorityFeePerGas: (price > baseFee ? price - baseFee : 0n).toString(),
+    priorityFee: priorityFee.toString(),
+    coinbaseTransfers,
+    coinbaseTransferTotal: coinbaseTransferTotal.toString(),
+    totalPayment: totalPayment.toString(),
+    totalPaymentUsd,
+    bribeRatio,
+  };
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { diffBalances, diffFlows } from './counterfactual.js';
+import type { BalanceDelta, TokenDelta, TokenFlow } from '../types/index.js';
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const VICTIM = '0x00000000000000000000000000000000000000f1';
+const POOL = '0x00000000000000000000000000000000000000a1';
+const ATTACKER = '0x00000000000000000000000000000000000000e1';
+
+const change = (token: string, delta: string): TokenDelta => ({ token, standard: 'erc20', delta });
+const delta = (address: string, ...changes: TokenDelta[]): BalanceDelta => ({ address, roles: [], changes });
+const flow = (token: string, from: string, to: string, amount: string): TokenFlow => ({ standard: 'erc20', token, from, to, amount });
+
+describe('diffBalances', () => {
+  it('reports counterfactual minus actual for every changed balance', () => {
+    const actual = [
+      delta(VICTIM, change(WETH, '-1000'), change(USDC, '2900')),
+      { ...delta(POOL, change(WETH, '1000'), change(USDC, '-2900')), label: 'Uniswap V2: USDC' },
+    ];
+    const counterfactual = [
+      delta(VICTIM, change(WETH, '-1000'), change(USDC, '3000')),
+      delta(POOL, change(WETH, '1000'), change(USDC, '-3000')),
+    ];
+
+    expect(diffBalances(actual, counterfactual)).toEqual([
+      { address: VICTIM, token: USDC, standard: 'erc20', actual: '2900', counterfactual: '3000', difference: '100' },
+      { address: POOL, label: 'Uniswap V2: USDC', token: USDC, standard: 'erc20', actual: '-2900', counterfactual: '-3000', difference: '-100' },
+    ]);
+  });
+
+  it('counts a balance missing on one side as zero', () => {
+    expect(diffBalances([delta(ATTACKER, change(WETH, '50'))], [])).toEqual([
+      { address: ATTACKER, token: WETH, standard: 'erc20', actual: '50', counterfactual: '0', difference: '-50' },
+    ]);
+  });
+});
+
+describe('diffFlows', () => {
+  it('totals transfers per token and address pair, ignoring address case, before comparing', () => {
+    const actual = [flow(USDC, POOL, VICTIM, '2000'), flow(USDC, POOL, VICTIM, '900'), flow(WETH, VICTIM, POOL, '1000')];
+    const counterfactual = [flow(USDC, POOL, '0x00000000000000000000000000000000000000F1', '3000'), flow(WETH, VICTIM, POOL, '1000')];
+
+    expect(diffFlows(actual, counterfactual)).toEqual([
+      { token: USDC, standard: 'erc20', from: POOL, to: VICTIM, actual: '2900', counterfactual: '3000' },
+    ]);
+  });
+
+  it('lists transfers that only happen in one scenario', () => {
+    expect(diffFlows([flow(WETH, POOL, ATTACKER, '50')], [])).toEqual([
+      { token: WETH, standard: 'erc20', from: POOL, to: ATTACKER, actual: '50', counterfactual: '0' },
+    ]);
+  });
+});
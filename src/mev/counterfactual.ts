@@ -0,0 +1,260 @@
+/**
+ * What-if replay: re-run a historical transaction with preceding block txs removed
+ * (e.g. the frontrun of a sandwich), in another block or with overridden state, and diff
+ * its token flows and balance changes against the real execution.
+ */
+import type { Hash } from 'viem';
+import { getProgress, runWithProgress } from '../chat/progress.js';
+import { DEFAULT_CHAIN, getChainConfig } from '../config/chains.js';
+import { getAddressLabel, getInternalTransactions } from '../tools/etherscan.js';
+import {
+  describeTokenFlows,
+  extractNativeFlows,
+  extractTokenFlows,
+  getPublicClient,
+  getTransactionDetails,
+} from '../tools/rpc.js';
+import { simulateTransaction, type ReplayOverrides } from '../tools/tenderly.js';
+import { getTraceProvider } from '../tools/trace-provider.js';
+import { computeBalanceDeltas } from './balances.js';
+import { fetchBlockContext } from './block-context.js';
+import { detectSandwich, senderAccounts } from './patterns.js';
+import { createPriceOracle, type PriceOracle } from './pricing.js';
+import type {
+  BalanceDelta,
+  BalanceDiff,
+  CounterfactualReport,
+  FlowDiff,
+  ProgressEvent,
+  TokenFlow,
+  Transaction,
+} from '../types/index.js';
+
+export interface CounterfactualOptions extends ReplayOverrides {
+  /** Leave out the frontrun of the sandwich the tx is the victim of */
+  withoutFrontrun?: boolean;
+  /** Land the tx this many blocks after its own (ignored when `blockNumber` is set) */
+  blocksLater?: number;
+  onProgress?: (event: ProgressEvent) => void;
+}
+
+function describeScenario(excluded: string[], blockNumber: number, txBlock: number, options: ReplayOverrides): string {
+  const parts: string[] = [];
+  if (excluded.length) parts.push(`without ${excluded.map((h) => `${h.slice(0, 10)}...`).join(', ')}`);
+  if (blockNumber !== txBlock) parts.push(`landing at the top of block ${blockNumber} instead of ${txBlock}`);
+  const overridden = Object.keys(options.stateOverrides ?? {});
+  if (overridden.length) parts.push(`with state overrides for ${overridden.length} address(es)`);
+  if (options.blockOverrides) parts.push(`with block overrides (${Object.keys(options.blockOverrides).join(', ')})`);
+  return parts.length ? parts.join(', ') : 'unchanged replay';
+}
+
+async function frontrunOf(tx: Transaction, chain: string): Promise<string> {
+  const block = await fetchBlockContext(tx.blockNumber, { around: tx.hash, chain });
+  const pattern = detectSandwich(tx, block);
+  if (!pattern || pattern.details.role !== 'victim') {
+    throw new Error(`${tx.hash} is not the victim of a detected sandwich`);
+  }
+  return pattern.details.frontrunTx;
+}
+
+const deltaKey = (address: string, token: string, tokenId?: string) => `${address}:${token}:${tokenId ?? ''}`;
+
+export function diffBalances(actual: BalanceDelta[], counterfactual: BalanceDelta[]): BalanceDiff[] {
+  const entries = new Map<string, { diff: Omit<BalanceDiff, 'actual' | 'counterfactual' | 'difference'>; actual: bigint; counterfactual: bigint }>();
+  const add = (deltas: BalanceDelta[], side: 'actual' | 'counterfactual') => {
+    for (const d of deltas) {
+      for (const c of d.changes) {
+        const key = deltaKey(d.address, c.token, c.tokenId);
+        const entry = entries.get(key) ?? {
+          diff: {
+            address: d.address,
+            ...(d.label ? { label: d.label } : {}),
+            token: c.token,
+            standard: c.standard,
+            symbol: c.symbol,
+            decimals: c.decimals,
+            ...(c.tokenId !== undefined ? { tokenId: c.tokenId } : {}),
+          },
+          actual: 0n,
+          counterfactual: 0n,
+        };
+        entry[side] += BigInt(c.delta);
+        entries.set(key, entry);
+      }
+    }
+  };
+  add(actual, 'actual');
+  add(counterfactual, 'counterfactual');
+
+  return [...entries.values()]
+    .filter((e) => e.actual !== e.counterfactual)
+    .map((e) => ({
+      ...e.diff,
+      actual: e.actual.toString(),
+      counterfactual: e.counterfactual.toString(),
+      difference: (e.counterfactual - e.actual).toString(),
+    }));
+}
+
+export function diffFlows(actual: TokenFlow[], counterfactual: TokenFlow[]): FlowDiff[] {
+  const totals = new Map<string, { flow: TokenFlow; actual: bigint; counterfactual: bigint }>();
+  const add = (flows: TokenFlow[], side: 'actual' | 'counterfactual') => {
+    for (const f of flows) {
+      const key = `${f.token}:${f.tokenId ?? ''}:${f.from.toLowerCase()}:${f.to.toLowerCase()}`;
+      const entry = totals.get(key) ?? { flow: f, actual: 0n, counterfactual: 0n };
+      entry[side] += BigInt(f.amount);
+      totals.set(key, entry);
+    }
+  };
+  add(actual, 'actual');
+  add(counterfactual, 'counterfactual');
+
+  return [...totals.values()]
+    .filter((e) => e.actual !== e.counterfactual)
+    .map(({ flow, actual: a, counterfactual: c }) => ({
+      token: flow.token,
+      standard: flow.standard,
+      ...(flow.symbol ? { symbol: flow.symbol } : {}),
+      ...(flow.tokenId !== undefined ? { tokenId: flow.tokenId } : {}),
+      from: flow.from.toLowerCase(),
+      to: flow.to.toLowerCase(),
+      actual: a.toString(),
+      counterfactual: c.toString(),
+    }));
+}
+
+async function priceDiffs(diffs: BalanceDiff[], oracle: PriceOracle): Promise<BalanceDiff[]> {
+  return Promise.all(
+    diffs.map(async (d) => {
+      const value = await oracle.valueUsd(d.token, BigInt(d.difference), d).catch(() => null);
+      return value === null ? d : { ...d, differenceUsd: Math.round(value * 100) / 100 };
+    })
+  );
+}
+
+/**
+ * Replay `txHash` under a counterfactual scenario with the configured simulation backend.
+ * Removing block transactions needs SIMULATION_BACKEND=anvil.
+ */
+export async function replayCounterfactual(
+  txHash: string,
+  chain: string = DEFAULT_CHAIN,
+  options: CounterfactualOptions = {}
+): Promise<CounterfactualReport> {
+  const run = () => runCounterfactual(txHash, chain, options);
+  return options.onProgress ? runWithProgress(options.onProgress, run) : run();
+}
+
+async function runCounterfactual(
+  txHash: string,
+  chain: string,
+  options: CounterfactualOptions
+): Promise<CounterfactualReport> {
+  const chainName = getChainConfig(chain).name;
+  const hash = txHash.toLowerCase();
+  const [rawTx, receipt] = await Promise.all([
+    getTransactionDetails(hash as Hash, chainName),
+    getPublicClient(chainName).getTransactionReceipt({ hash: hash as Hash }),
+  ]);
+
+  const excludeTxs = (options.excludeTxs ?? []).map((h) => h.toLowerCase());
+  if (options.withoutFrontrun) {
+    const frontrun = await frontrunOf(rawTx, chainName);
+    if (!excludeTxs.includes(frontrun)) excludeTxs.push(frontrun);
+  }
+  const blockNumber = options.blockNumber ?? rawTx.blockNumber + (options.blocksLater ?? 0);
+  const overrides: ReplayOverrides = {
+    excludeTxs,
+    ...(blockNumber !== rawTx.blockNumber ? { blockNumber } : {}),
+    stateOverrides: options.stateOverrides,
+    blockOverrides: options.blockOverrides,
+  };
+  const description = describeScenario(excludeTxs, blockNumber, rawTx.blockNumber, overrides);
+  console.log(`🔀 [What-if] ${hash.slice(0, 10)}... ${description}`);
+  getProgress()?.({ type: 'counterfactual_start', payload: { txHash: hash, scenario: description } });
+
+  // Real execution: receipt logs plus native flows from the trace (Etherscan internal txs without one)
+  const traceProvider = getTraceProvider(chainName);
+  const actualTrace = traceProvider ? await traceProvider.traceTransaction(hash).catch(() => null) : null;
+  const actualRoot = actualTrace?.trace?.[0] ?? null;
+  const actualFlows = [
+    ...extractTokenFlows(receipt, chainName),
+    ...extractNativeFlows(rawTx, actualRoot, actualRoot ? [] : await getInternalTransactions(hash, chainName)),
+  ];
+
+  const result = await simulateTransaction(hash, chainName, overrides);
+  if (!result) {
+    throw new Error(
+      excludeTxs.length
+        ? 'Replay failed (removing block transactions requires SIMULATION_BACKEND=anvil)'
+        : 'Replay failed (check TENDERLY_RPC_URL or SIMULATION_BACKEND=anvil)'
+    );
+  }
+  const root = result.trace?.[0] ?? null;
+  const logs = (result.logs ?? []).map((log, logIndex) => ({ ...log, logIndex }));
+  const counterfactualFlows = [
+    ...extractTokenFlows({ logs: logs as any }, chainName),
+    ...extractNativeFlows(rawTx, root),
+  ];
+
+  const [describedActual, describedCounterfactual] = await Promise.all([
+    describeTokenFlows(actualFlows, chainName),
+    describeTokenFlows(counterfactualFlows, chainName),
+  ]);
+  const labels: Record<string, string> = {};
+  for (const address of [rawTx.from, rawTx.to].filter((a): a is string => Boolean(a))) {
+    const label = await getAddressLabel(address, chainName);
+    if (label) labels[address] = label;
+  }
+  const nativeSymbol = getChainConfig(chainName).nativeSymbol;
+  const actualDeltas = computeBalanceDeltas({
+    tx: rawTx,
+    tokenFlows: describedActual,
+    effectiveGasPrice: receipt.effectiveGasPrice?.toString(),
+    labels,
+    nativeSymbol,
+  });
+  const counterfactualGasUsed = BigInt(result.gasUsed || '0').toString();
+  const counterfactualDeltas = computeBalanceDeltas({
+    tx: { ...rawTx, gasUsed: counterfactualGasUsed },
+    tokenFlows: describedCounterfactual,
+    effectiveGasPrice: result.gasPrice ? BigInt(result.gasPrice).toString() : receipt.effectiveGasPrice?.toString(),
+    labels,
+    nativeSymbol,
+  });
+
+  let balanceDiffs = diffBalances(actualDeltas, counterfactualDeltas);
+  let senderDifferenceUsd: number | null = null;
+  try {
+    // Both sides valued at the real block's prices so only the amounts differ
+    balanceDiffs = await priceDiffs(balanceDiffs, createPriceOracle(chainName, rawTx.blockNumber));
+    const sender = new Set(senderAccounts(rawTx));
+    const priced = balanceDiffs.filter((d) => sender.has(d.address) && d.differenceUsd !== undefined);
+    if (priced.length) {
+      senderDifferenceUsd = Math.round(priced.reduce((sum, d) => sum + d.differenceUsd!, 0) * 100) / 100;
+    }
+  } catch (err) {
+    console.warn('   [What-if] USD pricing unavailable:', err instanceof Error ? err.message : err);
+  }
+
+  const report: CounterfactualReport = {
+    txHash: hash,
+    chain: chainName,
+    scenario: {
+      description,
+      excludedTxs: excludeTxs,
+      blockNumber,
+      stateOverrides: Object.keys(options.stateOverrides ?? {}).map((a) => a.toLowerCase()),
+      blockOverrides: options.blockOverrides ?? null,
+    },
+    actual: { blockNumber: rawTx.blockNumber, status: receipt.status === 'success', gasUsed: rawTx.gasUsed },
+    counterfactual: { status: result.status, gasUsed: counterfactualGasUsed, error: root?.error ?? null },
+    balanceDiffs,
+    flowDiffs: diffFlows(describedActual, describedCounterfactual),
+    senderDifferenceUsd,
+    counterfactualBalanceDeltas: counterfactualDeltas,
+  };
+  console.log(`   ✓ ${report.counterfactual.status ? 'Success' : 'Reverted'}, ${balanceDiffs.length} balance differences, sender ${senderDifferenceUsd ?? 'n/a'} USD`);
+  getProgress()?.({ type: 'counterfactual_done', payload: { report } });
+  return report;
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, parseAbi, parseAbiParameters } from 'viem';
+import { annotateFinancingFlows, decodeFlashLoans } from './flashloans.js';
+import type { RawLog } from './swaps.js';
+import type { FlashLoan, TokenFlow } from '../types/index.js';
+
+const SOLO = '0x1e0447b19bb6ecfdae1e4ae1694b0c3659614e4e';
+const AAVE_POOL = '0x7d2768de32b0b80b7a3454c06bdac94a69ddc7a9';
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const DAI = '0x6b175474e89094c44da98b954eedeac495271d0f';
+const BOT = '0x00000000000000000000000000000000000000b0';
+const POOL = '0x00000000000000000000000000000000000000a1';
+
+const DYDX_ABI = parseAbi([
+  'event LogWithdraw(address indexed accountOwner, uint256 accountNumber, uint256 market, ((bool sign, uint256 value) deltaWei, (bool sign, uint128 value) newPar) update, address to)',
+  'event LogDeposit(address indexed accountOwner, uint256 accountNumber, uint256 market, ((bool sign, uint256 value) deltaWei, (bool sign, uint128 value) newPar) update, address from)',
+  'event LogCall(address indexed accountOwner, uint256 accountNumber, address callee)',
+]);
+
+const AAVE_V2_ABI = parseAbi([
+  'event FlashLoan(address indexed target, address indexed initiator, address indexed asset, uint256 amount, uint256 premium, uint16 referralCode)',
+]);
+
+const topics = (...args: Parameters<typeof encodeEventTopics>) => encodeEventTopics(...args) as string[];
+
+const BALANCE_UPDATE = parseAbiParameters('uint256, uint256, ((bool, uint256), (bool, uint128)), address');
+
+// Receipt log fixtures: real event signatures, synthetic accounts and amounts
+function dydxLog(eventName: 'LogWithdraw' | 'LogDeposit', market: bigint, value: bigint, logIndex: number): RawLog {
+  return {
+    address: SOLO,
+    topics: topics({ abi: DYDX_ABI, eventName, args: { accountOwner: BOT } }),
+    data: encodeAbiParameters(BALANCE_UPDATE, [0n, market, [[eventName === 'LogDeposit', value], [false, 0n]], BOT]),
+    logIndex,
+  };
+}
+
+function dydxCall(logIndex: number): RawLog {
+  return {
+    address: SOLO,
+    topics: topics({ abi: DYDX_ABI, eventName: 'LogCall', args: { accountOwner: BOT } }),
+    data: encodeAbiParameters(parseAbiParameters('uint256, address'), [0n, BOT]),
+    logIndex,
+  };
+}
+
+const flow = (token: string, from: string, to: string, amount: string): TokenFlow => ({ standard: 'erc20', token, from, to, amount });
+
+describe('decodeFlashLoans', () => {
+  it('pairs a dYdX withdraw, call and deposit of the same market into one loan', async () => {
+    const loans = await decodeFlashLoans([
+      dydxLog('LogWithdraw', 0n, 1000n, 1),
+      dydxCall(2),
+      dydxLog('LogDeposit', 0n, 1002n, 3),
+    ]);
+
+    expect(loans).toEqual([
+      { provider: 'dydx', pool: SOLO, token: WETH, amount: '1000', fee: '2', receiver: BOT, logIndex: 1 },
+    ]);
+  });
+
+  it('ignores a dYdX withdraw that is not deposited back', async () => {
+    const loans = await decodeFlashLoans([
+      dydxLog('LogWithdraw', 0n, 1000n, 1),
+      dydxCall(2),
+      dydxLog('LogDeposit', 3n, 1000n, 3),
+      dydxLog('LogDeposit', 0n, 999n, 4),
+    ]);
+    expect(loans).toEqual([]);
+  });
+
+  it('decodes an Aave V2 FlashLoan event', async () => {
+    const loans = await decodeFlashLoans([{
+      address: AAVE_POOL,
+      topics: topics({ abi: AAVE_V2_ABI, eventName: 'FlashLoan', args: { target: BOT, initiator: BOT, asset: DAI } }),
+      data: encodeAbiParameters(parseAbiParameters('uint256, uint256, uint16'), [500n, 9n, 0]),
+      logIndex: 5,
+    }]);
+
+    expect(loans).toEqual([
+      { provider: 'aave_v2', pool: AAVE_POOL, token: DAI, amount: '500', fee: '9', receiver: BOT, logIndex: 5 },
+    ]);
+  });
+});
+
+describe('annotateFinancingFlows', () => {
+  const loan: FlashLoan = { provider: 'aave_v2', pool: AAVE_POOL, token: DAI, amount: '500', fee: '9', receiver: BOT, logIndex: 5 };
+
+  it('marks the borrow and the repayment with the principal', () => {
+    const flows = [
+      { ...flow(DAI, AAVE_POOL, BOT, '500'), symbol: 'DAI', decimals: '18' },
+      flow(DAI, BOT, POOL, '500'),
+      flow(DAI, POOL, BOT, '520'),
+      flow(DAI, BOT, AAVE_POOL, '509'),
+    ];
+    const { tokenFlows, flashLoans } = annotateFinancingFlows(flows, [loan]);
+
+    expect(tokenFlows[0]!.financing).toEqual({ kind: 'borrow', provider: 'aave_v2', principal: '500' });
+    expect(tokenFlows[1]!.financing).toBeUndefined();
+    expect(tokenFlows[3]!.financing).toEqual({ kind: 'repay', provider: 'aave_v2', principal: '500' });
+    expect(flashLoans[0]).toMatchObject({ repaid: true, symbol: 'DAI', decimals: '18' });
+    // The input flows are not mutated
+    expect(flows[0]!.financing).toBeUndefined();
+  });
+
+  it('reports an unrepaid loan', () => {
+    const { tokenFlows, flashLoans } = annotateFinancingFlows([flow(DAI, AAVE_POOL, BOT, '500')], [loan]);
+
+    expect(tokenFlows[0]!.financing?.kind).toBe('borrow');
+    expect(flashLoans[0]!.repaid).toBe(false);
+  });
+
+  it('pairs a dYdX repayment sent from the receiver back to Solo Margin', () => {
+    const dydx: FlashLoan = { provider: 'dydx', pool: SOLO, token: WETH, amount: '1000', fee: '2', receiver: BOT, logIndex: 1 };
+    const { tokenFlows, flashLoans } = annotateFinancingFlows(
+      [flow(WETH, SOLO, BOT, '1000'), flow(WETH, BOT, SOLO, '1002')],
+      [dydx]
+    );
+
+    expect(tokenFlows.map((f) => f.financing?.kind)).toEqual(['borrow', 'repay']);
+    expect(flashLoans[0]!.repaid).toBe(true);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Decodes flash loan events (Aave V2/V3, Balancer V2, Uniswap V3, Maker flash mint) and
+ * dYdX flash loans (withdraw → call → deposit within one Solo Margin operation), then
+ * marks the borrow / repayment transfers so the principal is treated as financing.
+ */
+import { parseAbi, toFunctionSelector, type Hex } from 'viem';
+import { getPoolTokens, tryDecodeEvent, type RawLog } from './swaps.js';
+import { DEFAULT_CHAIN } from '../config/chains.js';
+import { getPublicClient } from '../tools/rpc.js';
+import type { CallTrace } from '../tools/tenderly.js';
+import type { FlashLoan, TokenFlow } from '../types/index.js';
+
+const AAVE_V2_FLASHLOAN_ABI = parseAbi([
+  'event FlashLoan(address indexed target, address indexed initiator, address indexed asset, uint256 amount, uint256 premium, uint16 referralCode)',
+]);
+
+const AAVE_V3_FLASHLOAN_ABI = parseAbi([
+  'event FlashLoan(address indexed target, address initiator, address indexed asset, uint256 amount, uint8 interestRateMode, uint256 premium, uint16 indexed referralCode)',
+]);
+
+const BALANCER_FLASHLOAN_ABI = parseAbi([
+  'event FlashLoan(address indexed recipient, address indexed token, uint256 amount, uint256 feeAmount)',
+]);
+
+const MAKER_FLASHLOAN_ABI = parseAbi([
+  'event FlashLoan(address indexed receiver, address token, uint256 amount, uint256 fee)',
+]);
+
+const UNISWAP_V3_FLASH_ABI = parseAbi([
+  'event Flash(address indexed sender, address indexed recipient, uint256 amount0, uint256 amount1, uint256 paid0, uint256 paid1)',
+]);
+
+const DYDX_WITHDRAW_ABI = parseAbi([
+  'event LogWithdraw(address indexed accountOwner, uint256 accountNumber, uint256 market, ((bool sign, uint256 value) deltaWei, (bool sign, uint128 value) newPar) update, address to)',
+]);
+
+const DYDX_DEPOSIT_ABI = parseAbi([
+  'event LogDeposit(address indexed accountOwner, uint256 accountNumber, uint256 market, ((bool sign, uint256 value) deltaWei, (bool sign, uint128 value) newPar) update, address from)',
+]);
+
+const DYDX_CALL_ABI = parseAbi([
+  'event LogCall(address indexed accountOwner, uint256 accountNumber, address callee)',
+]);
+
+const DYDX_MARKET_ABI = parseAbi([
+  'function getMarketTokenAddress(uint256 marketId) view returns (address)',
+]);
+
+// Callbacks the lenders invoke on the receiver while the loan is outstanding
+const FLASH_LOAN_CALLBACK_SELECTORS = new Set<string>([
+  'function executeOperation(address[] assets, uint256[] amounts, uint256[] premiums, address initiator, bytes params)',
+  'function executeOperation(address asset, uint256 amount, uint256 premium, address initiator, bytes params)',
+  'function receiveFlashLoan(address[] tokens, uint256[] amounts, uint256[] feeAmounts, bytes userData)',
+  'function uniswapV3FlashCallback(uint256 fee0, uint256 fee1, bytes data)',
+  'function onFlashLoan(address initiator, address token, uint256 amount, uint256 fee, bytes data)',
+  'function callFunction(address sender, (address owner, uint256 number) accountInfo, bytes data)',
+].map((signature) => toFunctionSelector(signature)));
+
+// Mainnet Solo Margin markets (fixed since launch), read without an RPC call
+const DYDX_SOLO_MARGIN = '0x1e0447b19bb6ecfdae1e4ae1694b0c3659614e4e';
+const DYDX_MARKETS: Record<string, string> = {
+  '0': '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2', // WETH
+  '1': '0x89d24a6b4ccb1b6faa2625fe562bdd9a23260359', // SAI
+  '2': '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48', // USDC
+  '3': '0x6b175474e89094c44da98b954eedeac495271d0f', // DAI
+};
+
+const DYDX_MARKET_CACHE = new Map<string, Promise<string | null>>();
+
+function getDydxMarketToken(soloMargin: string, market: bigint, chain: string): Promise<string | null> {
+  const known = chain === DEFAULT_CHAIN && soloMargin === DYDX_SOLO_MARGIN ? DYDX_MARKETS[market.toString()] : undefined;
+  if (known) return Promise.resolve(known);
+  const key = `${chain}:${soloMargin}:${market}`;
+  let pending = DYDX_MARKET_CACHE.get(key);
+  if (!pending) {
+    pending = getPublicClient(chain)
+      .readContract({ address: soloMargin as Hex, abi: DYDX_MARKET_ABI, functionName: 'getMarketTokenAddress', args: [market] })
+      .then((token) => token.toLowerCase())
+      .catch(() => null);
+    DYDX_MARKET_CACHE.set(key, pending);
+  }
+  return pending;
+}
+
+async function decodeFlashLoan(log: RawLog, logIndex: number, chain: string): Promise<FlashLoan[]> {
+  const pool = log.address.toLowerCase();
+
+  const aaveV2 = tryDecodeEvent(AAVE_V2_FLASHLOAN_ABI, log);
+  const aaveV3 = aaveV2 ? null : tryDecodeEvent(AAVE_V3_FLASHLOAN_ABI, log);
+  const aave = aaveV2 ?? aaveV3;
+  if (aave) {
+    const { target, asset, amount, premium } = aave.args;
+    return [{
+      provider: aaveV2 ? 'aave_v2' : 'aave_v3',
+      pool,
+      token: asset.toLowerCase(),
+      amount: amount.toString(),
+      fee: premium.toString(),
+      receiver: target.toLowerCase(),
+      logIndex,
+    }];
+  }
+
+  const balancer = tryDecodeEvent(BALANCER_FLASHLOAN_ABI, log);
+  if (balancer) {
+    const { recipient, token, amount, feeAmount } = balancer.args;
+    return [{
+      provider: 'balancer_v2',
+      pool,
+      token: token.toLowerCase(),
+      amount: amount.toString(),
+      fee: feeAmount.toString(),
+      receiver: recipient.toLowerCase(),
+      logIndex,
+    }];
+  }
+
+  const maker = tryDecodeEvent(MAKER_FLASHLOAN_ABI, log);
+  if (maker) {
+    const { receiver, token, amount, fee } = maker.args;
+    return [{
+      provider: 'maker_flash_mint',
+      pool,
+      token: token.toLowerCase(),
+      amount: amount.toString(),
+      fee: fee.toString(),
+      receiver: receiver.toLowerCase(),
+      logIndex,
+    }];
+  }
+
+  const uniswap = tryDecodeEvent(UNISWAP_V3_FLASH_ABI, log);
+  if (uniswap) {
+    const tokens = await getPoolTokens(pool, chain);
+    if (!tokens) return [];
+    const { recipient, amount0, amount1, paid0, paid1 } = uniswap.args;
+    const legs: Array<[string, bigint, bigint]> = [
+      [tokens[0], amount0, paid0],
+      [tokens[1], amount1, paid1],
+    ];
+    return legs
+      .filter(([, amount]) => amount > 0n)
+      .map(([token, amount, paid]) => ({
+        provider: 'uniswap_v3',
+        pool,
+        token,
+        amount: amount.toString(),
+        fee: paid.toString(),
+        receiver: recipient.toLowerCase(),
+        logIndex,
+      }));
+  }
+
+  return [];
+}
+
+/**
+ * dYdX has no flash loan event: a Withdraw, a Call by the same account and a Deposit of at
+ * least the withdrawn amount of the same market back, in one operation, is a flash loan.
+ */
+async function decodeDydxFlashLoans(logs: readonly RawLog[], chain: string): Promise<FlashLoan[]> {
+  const actions = logs.map((log, i) => {
+    const logIndex = log.logIndex ?? i;
+    const withdraw = tryDecodeEvent(DYDX_WITHDRAW_ABI, log);
+    if (withdraw) return { kind: 'withdraw' as const, log, logIndex, args: withdraw.args };
+    const deposit = tryDecodeEvent(DYDX_DEPOSIT_ABI, log);
+    if (deposit) return { kind: 'deposit' as const, log, logIndex, args: deposit.args };
+    const call = tryDecodeEvent(DYDX_CALL_ABI, log);
+    if (call) return { kind: 'call' as const, log, logIndex, args: call.args };
+    return null;
+  }).filter((a): a is NonNullable<typeof a> => a !== null);
+
+  const loans: FlashLoan[] = [];
+  const used = new Set<number>();
+  for (const [i, withdraw] of actions.entries()) {
+    if (withdraw.kind !== 'withdraw') continue;
+    const solo = withdraw.log.address.toLowerCase();
+    const { accountOwner, accountNumber, market, update, to } = withdraw.args;
+    const sameAccount = (a: (typeof actions)[number]) =>
+      a.log.address.toLowerCase() === solo &&
+      a.args.accountOwner.toLowerCase() === accountOwner.toLowerCase() &&
+      a.args.accountNumber === accountNumber;
+
+    const later = actions.slice(i + 1);
+    const callAt = later.findIndex((a) => a.kind === 'call' && sameAccount(a));
+    if (callAt < 0) continue;
+    const amount = update.deltaWei.value;
+    const deposit = later.slice(callAt + 1).find(
+      (a) => a.kind === 'deposit' && sameAccount(a) && !used.has(a.logIndex) &&
+        a.args.market === market && a.args.update.deltaWei.value >= amount
+    );
+    if (!deposit || deposit.kind !== 'deposit') continue;
+    const token = await getDydxMarketToken(solo, market, chain);
+    if (!token) continue;
+    used.add(deposit.logIndex);
+    loans.push({
+      provider: 'dydx',
+      pool: solo,
+      token,
+      amount: amount.toString(),
+      fee: (deposit.args.update.deltaWei.value - amount).toString(),
+      receiver: to.toLowerCase(),
+      logIndex: withdraw.logIndex,
+    });
+  }
+  return loans;
+}
+
+export async function decodeFlashLoans(logs: readonly RawLog[], chain: string = DEFAULT_CHAIN): Promise<FlashLoan[]> {
+  const [decoded, dydx] = await Promise.all([
+    Promise.all(logs.map((log, i) => decodeFlashLoan(log, log.logIndex ?? i, chain))),
+    decodeDydxFlashLoans(logs, chain),
+  ]);
+  return [...decoded.flat(), ...dydx].sort((a, b) => a.logIndex - b.logIndex);
+}
+
+/**
+ * Mark each loan's borrow transfer (to the receiver) and repayment (back to the lender)
+ * with `financing`, and record whether it was repaid. Flows are matched by token and
+ * amount; Maker flash mints are borrowed from 0x0 and repaid to DssFlash.
+ */
+export function annotateFinancingFlows(
+  tokenFlows: TokenFlow[],
+  flashLoans: FlashLoan[]
+): { tokenFlows: TokenFlow[]; flashLoans: FlashLoan[] } {
+  const flows = tokenFlows.map((f) => ({ ...f }));
+  const annotated = flashLoans.map((loan) => {
+    const amount = BigInt(loan.amount);
+    const isToken = (f: TokenFlow) => !f.financing && f.token.toLowerCase() === loan.token;
+    const borrow = flows.find(
+      (f) => isToken(f) && f.to.toLowerCase() === loan.receiver && BigInt(f.amount) === amount
+    );
+    const lenders = new Set([loan.pool, ...(borrow ? [borrow.from.toLowerCase()] : [])]);
+    const returning = flows.filter((f) => isToken(f) && lenders.has(f.to.toLowerCase()));
+    const repay =
+      returning.find((f) => BigInt(f.amount) === amount + BigInt(loan.fee)) ??
+      returning.find((f) => f.from.toLowerCase() === loan.receiver && BigInt(f.amount) >= amount);
+
+    if (borrow) borrow.financing = { kind: 'borrow', provider: loan.provider, principal: loan.amount };
+    if (repay) repay.financing = { kind: 'repay', provider: loan.provider, principal: loan.amount };
+    const meta = borrow ?? repay;
+    return {
+      ...loan,
+      repaid: Boolean(repay),
+      ...(meta?.symbol ? { symbol: meta.symbol } : {}),
+      ...(meta?.decimals ? { decimals: meta.decimals } : {}),
+    };
+  });
+  return { tokenFlows: flows, flashLoans: annotated };
+}
+
+/**
+ * Attach the flattenedCalls (depth-first) index of each lender → receiver callback
+ */
+export function locateFlashLoanCallbacks(flashLoans: FlashLoan[], root: CallTrace | null | undefined): FlashLoan[] {
+  if (!root || flashLoans.length === 0) return flashLoans;
+  const callbacks: Array<{ index: number; from: string; to: string }> = [];
+  let index = 0;
+  const walk = (call: CallTrace) => {
+    const selector = call.input?.slice(0, 10).toLowerCase();
+    if (selector && FLASH_LOAN_CALLBACK_SELECTORS.has(selector)) {
+      callbacks.push({ index, from: call.from.toLowerCase(), to: call.to?.toLowerCase() ?? '' });
+    }
+    index++;
+    for (const sub of call.calls ?? []) walk(sub);
+  };
+  walk(root);
+
+  return flashLoans.map((loan) => {
+    // Multi-asset loans (Aave, Balancer) share one callback; dYdX calls the LogCall callee
+    const callback =
+      callbacks.find((c) => c.from === loan.pool && c.to === loan.receiver) ??
+      callbacks.find((c) => c.from === loan.pool);
+    return callback ? { ...loan, callbackIndex: callback.index } : loan;
+  });
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, parseAbi, parseAbiParameters, type Hex } from 'viem';
+import { decodeLiquidations } from './liquidations.js';
+import type { RawLog } from './swaps.js';
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const NATIVE = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+const AAVE_V3_POOL = '0x87870bca3f3fd6335c3f4ce8392d69350b4fa4e2';
+const C_USDC = '0x39aa39c021dfbae8fac545936693ac917d5e7563';
+const C_ETH = '0x4ddc2d193948926d02f9b1fe9e1daa0718270ed5';
+
+const LIQUIDATOR = '0x00000000000000000000000000000000000000e1';
+const BORROWER = '0x00000000000000000000000000000000000000f1';
+const AAVE_PROVIDER = '0x00000000000000000000000000000000000000a1';
+const AAVE_ORACLE = '0x00000000000000000000000000000000000000a2';
+const COMPTROLLER = '0x00000000000000000000000000000000000000c1';
+const COMPOUND_ORACLE = '0x00000000000000000000000000000000000000c2';
+
+// On-chain reads the decoders make, keyed by `address:function:args`; anything else reverts
+const reads: Record<string, unknown> = {
+  [`${AAVE_V3_POOL}:ADDRESSES_PROVIDER:`]: AAVE_PROVIDER,
+  [`${AAVE_PROVIDER}:getPriceOracle:`]: AAVE_ORACLE,
+  [`${AAVE_ORACLE}:getAssetPrice:${USDC}`]: 10n ** 8n,
+  [`${AAVE_ORACLE}:getAssetPrice:${WETH}`]: 2000n * 10n ** 8n,
+  [`${AAVE_ORACLE}:BASE_CURRENCY_UNIT:`]: 10n ** 8n,
+  [`${C_USDC}:underlying:`]: USDC,
+  [`${C_USDC}:comptroller:`]: COMPTROLLER,
+  [`${C_ETH}:exchangeRateStored:`]: 2n * 10n ** 26n,
+  [`${COMPTROLLER}:oracle:`]: COMPOUND_ORACLE,
+  [`${COMPOUND_ORACLE}:getUnderlyingPrice:${C_USDC}`]: 10n ** 30n,
+  [`${COMPOUND_ORACLE}:getUnderlyingPrice:${C_ETH}`]: 2000n * 10n ** 18n,
+};
+const decimals: Record<string, number> = { [USDC]: 6, [WETH]: 18 };
+
+vi.mock('../tools/rpc.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../tools/rpc.js')>()),
+  getPublicClient: () => ({
+    readContract: async ({ address, functionName, args = [] }: { address: string; functionName: string; args?: unknown[] }) => {
+      const key = `${address.toLowerCase()}:${functionName}:${args.map((a) => String(a).toLowerCase()).join(',')}`;
+      if (!(key in reads)) throw new Error(`execution reverted: ${key}`);
+      return reads[key];
+    },
+  }),
+  getTokenInfoFromRPC: async (token: string) => ({ name: null, symbol: null, decimals: decimals[token] ?? null }),
+}));
+
+const AAVE_ABI = parseAbi([
+  'event LiquidationCall(address indexed collateralAsset, address indexed debtAsset, address indexed user, uint256 debtToCover, uint256 liquidatedCollateralAmount, address liquidator, bool receiveAToken)',
+]);
+const COMPOUND_ABI = parseAbi([
+  'event LiquidateBorrow(address liquidator, address borrower, uint256 repayAmount, address cTokenCollateral, uint256 seizeTokens)',
+]);
+
+// Receipt log fixtures: real event signatures and markets, synthetic accounts, oracles and amounts
+const log = (address: string, topics: unknown, data: Hex, logIndex: number): RawLog => ({
+  address,
+  topics: topics as string[],
+  data,
+  logIndex,
+});
+
+const aaveLiquidation = log(
+  AAVE_V3_POOL,
+  encodeEventTopics({ abi: AAVE_ABI, eventName: 'LiquidationCall', args: { collateralAsset: WETH, debtAsset: USDC, user: BORROWER } }),
+  encodeAbiParameters(parseAbiParameters('uint256, uint256, address, bool'), [1000n * 10n ** 6n, 525n * 10n ** 15n, LIQUIDATOR, false]),
+  4
+);
+
+const compoundLiquidation = log(
+  C_USDC,
+  encodeEventTopics({ abi: COMPOUND_ABI, eventName: 'LiquidateBorrow' }),
+  encodeAbiParameters(parseAbiParameters('address, address, uint256, address, uint256'), [LIQUIDATOR, BORROWER, 1000n * 10n ** 6n, C_ETH, 2625n * 10n ** 6n]),
+  7
+);
+
+describe('decodeLiquidations', () => {
+  it('values an Aave V3 LiquidationCall with the market oracle', async () => {
+    const [liquidation] = await decodeLiquidations([aaveLiquidation], 1);
+
+    expect(liquidation).toEqual({
+      protocol: 'aave_v3',
+      market: AAVE_V3_POOL,
+      marketLabel: 'Aave V3: Pool',
+      borrower: BORROWER,
+      liquidator: LIQUIDATOR,
+      debtAsset: USDC,
+      debtRepaid: '1000000000',
+      collateralAsset: WETH,
+      collateralSeized: '525000000000000000',
+      debtRepaidUsd: 1000,
+      collateralSeizedUsd: 1050,
+      bonusUsd: 50,
+      logIndex: 4,
+    });
+  });
+
+  it('converts Compound seized cTokens to the underlying and treats cETH as native', async () => {
+    const [liquidation] = await decodeLiquidations([compoundLiquidation], 1);
+
+    expect(liquidation).toMatchObject({
+      protocol: 'compound',
+      market: C_USDC,
+      marketLabel: 'Compound: cUSDC',
+      borrower: BORROWER,
+      liquidator: LIQUIDATOR,
+      debtAsset: USDC,
+      collateralAsset: NATIVE,
+      collateralSeized: '525000000000000000',
+      debtRepaidUsd: 1000,
+      collateralSeizedUsd: 1050,
+      bonusUsd: 50,
+      logIndex: 7,
+    });
+  });
+
+  it('skips logs that are not liquidations', async () => {
+    const unrelated = { ...compoundLiquidation, topics: [`0x${'11'.repeat(32)}`] };
+    expect(await decodeLiquidations([unrelated, aaveLiquidation], 1)).toHaveLength(1);
+  });
+});
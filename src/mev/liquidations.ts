@@ -0,0 +1,283 @@
+/**
+ * Decodes lending-protocol liquidations (Aave V2/V3, Compound, Maker) and values them
+ * in USD with each protocol's own price oracle at the liquidation block.
+ */
+import { hexToString, parseAbi, type Hex } from 'viem';
+import { NATIVE_TOKEN_ADDRESS } from '../tools/rpc.js';
+import { getKnownAddressLabel } from '../tools/known-addresses.js';
+import { DEFAULT_CHAIN, getChainConfig } from '../config/chains.js';
+import { tryDecodeEvent, type RawLog } from './swaps.js';
+import { CHAINLINK_ETH_USD_FEED, readerAt, tokenDecimals, type BlockReader } from './pricing.js';
+import type { Liquidation } from '../types/index.js';
+
+const DAI_ADDRESS = '0x6b175474e89094c44da98b954eedeac495271d0f';
+const MAKER_ILK_REGISTRY = '0x5a464c28d19848f44199d003bef5ecc87d090f87';
+
+const RAY = 10n ** 27n;
+const RAD = 10n ** 45n;
+
+const AAVE_LIQUIDATION_ABI = parseAbi([
+  'event LiquidationCall(address indexed collateralAsset, address indexed debtAsset, address indexed user, uint256 debtToCover, uint256 liquidatedCollateralAmount, address liquidator, bool receiveAToken)',
+]);
+
+const COMPOUND_LIQUIDATION_ABI = parseAbi([
+  'event LiquidateBorrow(address liquidator, address borrower, uint256 repayAmount, address cTokenCollateral, uint256 seizeTokens)',
+]);
+
+const MAKER_BARK_ABI = parseAbi([
+  'event Bark(bytes32 indexed ilk, address indexed urn, uint256 ink, uint256 art, uint256 due, address clip, uint256 indexed id)',
+]);
+
+const MAKER_TAKE_ABI = parseAbi([
+  'event Take(uint256 indexed id, uint256 max, uint256 price, uint256 owe, uint256 tab, uint256 lot, address indexed usr)',
+]);
+
+const AAVE_ABI = parseAbi([
+  'function ADDRESSES_PROVIDER() view returns (address)',
+  'function getAddressesProvider() view returns (address)',
+  'function getPriceOracle() view returns (address)',
+  'function getAssetPrice(address asset) view returns (uint256)',
+  'function BASE_CURRENCY_UNIT() view returns (uint256)',
+]);
+
+const COMPOUND_ABI = parseAbi([
+  'function underlying() view returns (address)',
+  'function exchangeRateStored() view returns (uint256)',
+  'function comptroller() view returns (address)',
+  'function oracle() view returns (address)',
+  'function getUnderlyingPrice(address cToken) view returns (uint256)',
+]);
+
+const CHAINLINK_ABI = parseAbi([
+  'function latestAnswer() view returns (int256)',
+]);
+
+const MAKER_CLIPPER_ABI = parseAbi([
+  'function ilk() view returns (bytes32)',
+  'function vat() view returns (address)',
+  'function spotter() view returns (address)',
+]);
+
+const MAKER_VAT_ABI = parseAbi([
+  'function ilks(bytes32 ilk) view returns (uint256 Art, uint256 rate, uint256 spot, uint256 line, uint256 dust)',
+]);
+
+const MAKER_SPOTTER_ABI = parseAbi([
+  'function ilks(bytes32 ilk) view returns (address pip, uint256 mat)',
+]);
+
+const MAKER_ILK_REGISTRY_ABI = parseAbi([
+  'function gem(bytes32 ilk) view returns (address)',
+]);
+
+function toUsd(amount: bigint, price: bigint, scale: bigint): number {
+  return Number((amount * price * 100n) / scale) / 100;
+}
+
+async function decodeAave(log: RawLog, logIndex: number, read: BlockReader): Promise<Liquidation | null> {
+  const decoded = tryDecodeEvent(AAVE_LIQUIDATION_ABI, log);
+  if (!decoded) return null;
+  const { collateralAsset, debtAsset, user, debtToCover, liquidatedCollateralAmount, liquidator } = decoded.args;
+
+  const v3Provider = await read<string>(log.address, AAVE_ABI, 'ADDRESSES_PROVIDER');
+  const provider = v3Provider ?? (await read<string>(log.address, AAVE_ABI, 'getAddressesProvider'));
+  const oracle = provider ? await read<string>(provider, AAVE_ABI, 'getPriceOracle') : null;
+
+  let debtRepaidUsd: number | null = null;
+  let collateralSeizedUsd: number | null = null;
+  if (oracle) {
+    const [debtPrice, collateralPrice, debtDecimals, collateralDecimals] = await Promise.all([
+      read<bigint>(oracle, AAVE_ABI, 'getAssetPrice', [debtAsset]),
+      read<bigint>(oracle, AAVE_ABI, 'getAssetPrice', [collateralAsset]),
+      tokenDecimals(debtAsset.toLowerCase(), read.chain),
+      tokenDecimals(collateralAsset.toLowerCase(), read.chain),
+    ]);
+
+    // V3 oracles quote in the market's base currency (USD, 8 decimals on mainnet);
+    // V2 oracles quote in ETH wei and need the ETH/USD feed on top.
+    let baseUnit = v3Provider ? await read<bigint>(oracle, AAVE_ABI, 'BASE_CURRENCY_UNIT') : null;
+    let basePriceUsd = 1n;
+    if (!v3Provider && getChainConfig(read.chain).name === DEFAULT_CHAIN) {
+      const ethUsd = await read<bigint>(CHAINLINK_ETH_USD_FEED, CHAINLINK_ABI, 'latestAnswer');
+      if (ethUsd) {
+        basePriceUsd = ethUsd;
+        baseUnit = 10n ** 18n * 10n ** 8n;
+      }
+    }
+
+    if (baseUnit) {
+      if (debtPrice !== null) {
+        debtRepaidUsd = toUsd(debtToCover, debtPrice * basePriceUsd, baseUnit * 10n ** BigInt(debtDecimals));
+      }
+      if (collateralPrice !== null) {
+        collateralSeizedUsd = toUsd(liquidatedCollateralAmount, collateralPrice * basePriceUsd, baseUnit * 10n ** BigInt(collateralDecimals));
+      }
+    }
+  }
+
+  return {
+    protocol: v3Provider ? 'aave_v3' : 'aave_v2',
+    market: log.address.toLowerCase(),
+    borrower: user.toLowerCase(),
+    liquidator: liquidator.toLowerCase(),
+    debtAsset: debtAsset.toLowerCase(),
+    debtRepaid: debtToCover.toString(),
+    collateralAsset: collateralAsset.toLowerCase(),
+    collateralSeized: liquidatedCollateralAmount.toString(),
+    debtRepaidUsd,
+    collateralSeizedUsd,
+    bonusUsd: null,
+    logIndex,
+  };
+}
+
+async function decodeCompound(log: RawLog, logIndex: number, read: BlockReader): Promise<Liquidation | null> {
+  const decoded = tryDecodeEvent(COMPOUND_LIQUIDATION_ABI, log);
+  if (!decoded) return null;
+  const { liquidator, borrower, repayAmount, cTokenCollateral, seizeTokens } = decoded.args;
+  const borrowMarket = log.address.toLowerCase();
+  const collateralMarket = (cTokenCollateral as string).toLowerCase();
+
+  // cETH has no underlying() and holds native ETH.
+  const [debtUnderlying, collateralUnderlying, exchangeRate, comptroller] = await Promise.all([
+    read<string>(borrowMarket, COMPOUND_ABI, 'underlying'),
+    read<string>(collateralMarket, COMPOUND_ABI, 'underlying'),
+    read<bigint>(collateralMarket, COMPOUND_ABI, 'exchangeRateStored'),
+    read<string>(borrowMarket, COMPOUND_ABI, 'comptroller'),
+  ]);
+  const collateralSeized = exchangeRate !== null ? (seizeTokens * exchangeRate) / 10n ** 18n : null;
+
+  let debtRepaidUsd: number | null = null;
+  let collateralSeizedUsd: number | null = null;
+  const oracle = comptroller ? await read<string>(comptroller, COMPOUND_ABI, 'oracle') : null;
+  if (oracle) {
+    // Compound prices are USD scaled by 1e(36 - underlying decimals).
+    const [debtPrice, collateralPrice] = await Promise.all([
+      read<bigint>(oracle, COMPOUND_ABI, 'getUnderlyingPrice', [borrowMarket]),
+      read<bigint>(oracle, COMPOUND_ABI, 'getUnderlyingPrice', [collateralMarket]),
+    ]);
+    if (debtPrice !== null) debtRepaidUsd = toUsd(repayAmount, debtPrice, 10n ** 36n);
+    if (collateralPrice !== null && collateralSeized !== null) {
+      collateralSeizedUsd = toUsd(collateralSeized, collateralPrice, 10n ** 36n);
+    }
+  }
+
+  return {
+    protocol: 'compound',
+    market: borrowMarket,
+    borrower: borrower.toLowerCase(),
+    liquidator: liquidator.toLowerCase(),
+    debtAsset: debtUnderlying?.toLowerCase() ?? NATIVE_TOKEN_ADDRESS,
+    debtRepaid: repayAmount.toString(),
+    collateralAsset: collateralUnderlying?.toLowerCase() ?? NATIVE_TOKEN_ADDRESS,
+    collateralSeized: (collateralSeized ?? seizeTokens).toString(),
+    debtRepaidUsd,
+    collateralSeizedUsd,
+    bonusUsd: null,
+    logIndex,
+  };
+}
+
+function ilkName(ilk: string): string {
+  return hexToString(ilk as Hex).replace(/\0/g, '');
+}
+
+/**
+ * Collateral token of an ilk (IlkRegistry, mainnet) and its oracle price in DAI per
+ * collateral wad (ray). The Vat stores spot = price / mat, so price = spot * mat; this
+ * avoids reading the OSM, which only whitelisted contracts may peek.
+ */
+async function makerCollateral(clipper: string, ilk: string, read: BlockReader): Promise<{ gem: string | null; price: bigint | null }> {
+  const [vat, spotter, gem] = await Promise.all([
+    read<string>(clipper, MAKER_CLIPPER_ABI, 'vat'),
+    read<string>(clipper, MAKER_CLIPPER_ABI, 'spotter'),
+    read<string>(MAKER_ILK_REGISTRY, MAKER_ILK_REGISTRY_ABI, 'gem', [ilk]),
+  ]);
+  const [vatIlk, spotterIlk] = await Promise.all([
+    vat ? read<readonly bigint[]>(vat, MAKER_VAT_ABI, 'ilks', [ilk]) : null,
+    spotter ? read<readonly [string, bigint]>(spotter, MAKER_SPOTTER_ABI, 'ilks', [ilk]) : null,
+  ]);
+  const spot = vatIlk?.[2];
+  const mat = spotterIlk?.[1];
+  return {
+    gem: gem && !/^0x0{40}$/.test(gem) ? gem.toLowerCase() : null,
+    price: spot && mat ? (spot * mat) / RAY : null,
+  };
+}
+
+// Vat collateral amounts are wad (18 decimals) whatever the gem's own decimals
+async function decodeMaker(log: RawLog, logIndex: number, read: BlockReader): Promise<Liquidation | null> {
+  const bark = tryDecodeEvent(MAKER_BARK_ABI, log);
+  if (bark) {
+    const { ilk, urn, ink, due, clip } = bark.args;
+    const { gem, price } = await makerCollateral(clip, ilk, read);
+    return {
+      protocol: 'maker',
+      market: log.address.toLowerCase(),
+      borrower: urn.toLowerCase(),
+      liquidator: null,
+      debtAsset: DAI_ADDRESS,
+      debtRepaid: (due / RAY).toString(),
+      collateralAsset: gem,
+      collateralSeized: ink.toString(),
+      ilk: ilkName(ilk),
+      debtRepaidUsd: Number((due * 100n) / RAD) / 100,
+      collateralSeizedUsd: price !== null ? toUsd(ink, price, RAD) : null,
+      bonusUsd: null,
+      logIndex,
+    };
+  }
+
+  const take = tryDecodeEvent(MAKER_TAKE_ABI, log);
+  if (take) {
+    // owe is DAI in rad, price is DAI per collateral unit in ray: owe / price = collateral wad.
+    const { price, owe, usr } = take.args as { price: bigint; owe: bigint; usr: string };
+    const ilk = await read<string>(log.address, MAKER_CLIPPER_ABI, 'ilk');
+    const collateral = ilk ? await makerCollateral(log.address, ilk, read) : { gem: null, price: null };
+    const seized = price > 0n ? owe / price : 0n;
+    return {
+      protocol: 'maker',
+      market: log.address.toLowerCase(),
+      borrower: usr.toLowerCase(),
+      liquidator: null,
+      debtAsset: DAI_ADDRESS,
+      debtRepaid: (owe / RAY).toString(),
+      collateralAsset: collateral.gem,
+      collateralSeized: seized.toString(),
+      ilk: ilk ? ilkName(ilk) : undefined,
+      debtRepaidUsd: Number((owe * 100n) / RAD) / 100,
+      // Valued at the oracle price, not the auction price the keeper paid: the difference is the keeper's discount
+      collateralSeizedUsd: collateral.price !== null ? toUsd(seized, collateral.price, RAD) : null,
+      bonusUsd: null,
+      logIndex,
+    };
+  }
+
+  return null;
+}
+
+async function decodeLiquidation(log: RawLog, logIndex: number, read: BlockReader): Promise<Liquidation | null> {
+  const liquidation =
+    (await decodeAave(log, logIndex, read)) ??
+    (await decodeCompound(log, logIndex, read)) ??
+    (await decodeMaker(log, logIndex, read));
+  if (!liquidation) return null;
+
+  liquidation.marketLabel = getKnownAddressLabel(liquidation.market, getChainConfig(read.chain).labelChainId);
+  if (liquidation.collateralSeizedUsd !== null && liquidation.debtRepaidUsd !== null) {
+    liquidation.bonusUsd = Math.round((liquidation.collateralSeizedUsd - liquidation.debtRepaidUsd) * 100) / 100;
+  }
+  return liquidation;
+}
+
+export async function decodeLiquidations(
+  logs: readonly RawLog[],
+  blockNumber: number,
+  chain: string = DEFAULT_CHAIN
+): Promise<Liquidation[]> {
+  const read = readerAt(blockNumber, chain);
+  const decoded = await Promise.all(
+    logs.map((log, i) => decodeLiquidation(log, log.logIndex ?? i, read))
+  );
+  return decoded.filter((l): l is Liquidation => l !== null);
+}
@@ -0,0 +1,59 @@
+/**
+ * Decodes Uniswap V3 position events (Mint, Burn, Collect) used for JIT liquidity detection.
+ */
+import { parseAbi } from 'viem';
+import { tryDecodeEvent, type RawLog } from './swaps.js';
+import type { LiquidityEvent } from '../types/index.js';
+
+const UNISWAP_V3_POSITION_ABI = parseAbi([
+  'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Collect(address indexed owner, address recipient, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount0, uint128 amount1)',
+]);
+
+// Emitted by the NFT manager right after the pool's Mint / Burn for the same position
+const POSITION_MANAGER_ABI = parseAbi([
+  'event IncreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+  'event DecreaseLiquidity(uint256 indexed tokenId, uint128 liquidity, uint256 amount0, uint256 amount1)',
+]);
+
+const POSITION_MANAGER_EVENTS: Record<string, LiquidityEvent['type']> = {
+  IncreaseLiquidity: 'mint',
+  DecreaseLiquidity: 'burn',
+};
+
+export const UNISWAP_V3_POSITION_MANAGER = '0xc36442b4a4522e871399cd717abdd847ab11fe88';
+
+const EVENT_TYPES: Record<string, LiquidityEvent['type']> = {
+  Mint: 'mint',
+  Burn: 'burn',
+  Collect: 'collect',
+};
+
+export function decodeLiquidityEvents(logs: readonly RawLog[]): LiquidityEvent[] {
+  const events: LiquidityEvent[] = [];
+  logs.forEach((log, i) => {
+    if (log.address.toLowerCase() === UNISWAP_V3_POSITION_MANAGER) {
+      const npm = tryDecodeEvent(POSITION_MANAGER_ABI, log);
+      const type = npm && POSITION_MANAGER_EVENTS[npm.eventName];
+      const pending = [...events].reverse().find((e) => e.type === type && e.owner === UNISWAP_V3_POSITION_MANAGER);
+      if (type && pending && pending.tokenId === undefined) pending.tokenId = npm.args.tokenId.toString();
+      return;
+    }
+    const decoded = tryDecodeEvent(UNISWAP_V3_POSITION_ABI, log);
+    if (!decoded) return;
+    const { owner, tickLower, tickUpper, amount, amount0, amount1 } = decoded.args;
+    events.push({
+      type: EVENT_TYPES[decoded.eventName],
+      pool: log.address.toLowerCase(),
+      owner: owner.toLowerCase(),
+      tickLower: Number(tickLower),
+      tickUpper: Number(tickUpper),
+      liquidity: (amount ?? 0n).toString(),
+      amount0: amount0.toString(),
+      amount1: amount1.toString(),
+      logIndex: log.logIndex ?? i,
+    });
+  });
+  return events;
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it } from 'vitest';
+import { detectArbitrage, detectJitLiquidity, detectSandwich, senderAccounts } from './patterns.js';
+import type { BlockContext, BlockTxContext, LiquidityEvent, Swap, TokenFlow, Transaction } from '../types/index.js';
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const EOA = '0x00000000000000000000000000000000000000e0';
+const EXECUTOR = '0x00000000000000000000000000000000000000e1';
+const VAULT = '0x00000000000000000000000000000000000000e2';
+const POOL_A = '0x00000000000000000000000000000000000000a1';
+const POOL_B = '0x00000000000000000000000000000000000000b1';
+
+const tx: Transaction = {
+  hash: '0x01',
+  from: EOA,
+  to: EXECUTOR,
+  value: '0',
+  gasUsed: '200000',
+  gasPrice: '1',
+  blockNumber: 1,
+  input: '0x',
+  logs: [],
+};
+
+const flow = (token: string, from: string, to: string, amount: string): TokenFlow => ({ standard: 'erc20', token, from, to, amount });
+
+const blockTx = (index: number, from: string, to: string, extra: Partial<BlockTxContext>): BlockTxContext => ({
+  hash: `0x0${index}`,
+  index,
+  from,
+  to,
+  status: 'success',
+  gasUsed: '100000',
+  effectiveGasPrice: '1',
+  tokenFlows: [],
+  swaps: [],
+  liquidityEvents: [],
+  ...extra,
+});
+
+const swaps: Swap[] = [
+  { pool: POOL_A, protocol: 'uniswap_v2', tokenIn: WETH, tokenOut: USDC, amountIn: '1000', amountOut: '3000', sender: EXECUTOR, recipient: POOL_B, logIndex: 1 },
+  { pool: POOL_B, protocol: 'uniswap_v3', tokenIn: USDC, tokenOut: WETH, amountIn: '3000', amountOut: '1100', sender: EXECUTOR, recipient: EXECUTOR, logIndex: 3 },
+];
+
+describe('detectArbitrage', () => {
+  it('attributes the profit to the address that keeps the start token', () => {
+    const flows = [
+      flow(WETH, EXECUTOR, POOL_A, '1000'),
+      flow(USDC, POOL_A, POOL_B, '3000'),
+      flow(WETH, POOL_B, EXECUTOR, '1100'),
+      // executor forwards the principal back and the profit to a third address
+      flow(WETH, EXECUTOR, VAULT, '100'),
+    ];
+    const pattern = detectArbitrage(tx, flows, swaps)!;
+
+    expect(pattern.type).toBe('arbitrage');
+    expect(pattern.details.cyclic).toBe(true);
+    expect(pattern.details.beneficiary).toBe(VAULT);
+    expect(pattern.details.executor).toBe(EXECUTOR);
+    expect(pattern.details.profitToken).toBe(WETH);
+    expect(pattern.details.profit).toBe('100');
+    expect(pattern.details.beneficiaryProfitByToken[WETH]).toBe('100');
+  });
+
+  it('falls back to the executor when it keeps the profit', () => {
+    const flows = [
+      flow(WETH, EXECUTOR, POOL_A, '1000'),
+      flow(USDC, POOL_A, POOL_B, '3000'),
+      flow(WETH, POOL_B, EXECUTOR, '1100'),
+    ];
+    const pattern = detectArbitrage(tx, flows, swaps)!;
+
+    expect(pattern.details.beneficiary).toBe(EXECUTOR);
+    expect(pattern.details.profit).toBe('100');
+    expect(pattern.confidence).toBeCloseTo(0.9);
+  });
+
+  it('ignores a non-cyclic swap pair', () => {
+    const oneWay: Swap[] = [swaps[0]!, { ...swaps[1]!, tokenOut: '0x00000000000000000000000000000000000000d1' }];
+    expect(detectArbitrage(tx, [], oneWay)).toBeNull();
+  });
+});
+
+describe('detectSandwich', () => {
+  const BOT = '0x00000000000000000000000000000000000000b0';
+  const ROUTER = '0x7a250d5630b4cf539739df2c5dacb4c659f2488d';
+  const VICTIM = '0x00000000000000000000000000000000000000f1';
+  const SEARCHER_2 = '0x00000000000000000000000000000000000000e3';
+  const swap = (tokenIn: string, tokenOut: string, amountIn: string, amountOut: string, sender: string): Swap => ({
+    pool: POOL_A, protocol: 'uniswap_v2', tokenIn, tokenOut, amountIn, amountOut, sender, recipient: sender, logIndex: 0,
+  });
+
+  const block = (frontTo: string, backFrom: string, backTo: string): BlockContext => ({
+    blockNumber: 1,
+    timestamp: 0,
+    miner: '0x00',
+    baseFeePerGas: null,
+    transactionCount: 3,
+    txs: [
+      blockTx(1, EOA, frontTo, {
+        swaps: [swap(WETH, USDC, '1000', '3000', frontTo)],
+        tokenFlows: [flow(WETH, frontTo, POOL_A, '1000'), flow(USDC, POOL_A, frontTo, '3000')],
+      }),
+      blockTx(2, VICTIM, ROUTER, { swaps: [swap(WETH, USDC, '5000', '14000', ROUTER)] }),
+      blockTx(3, backFrom, backTo, {
+        swaps: [swap(USDC, WETH, '3000', '1050', backTo)],
+        tokenFlows: [flow(USDC, backTo, POOL_A, '3000'), flow(WETH, POOL_A, backTo, '1050')],
+      }),
+    ],
+  });
+
+  it('matches a front/victim/back around the same pool from one bot contract', () => {
+    const pattern = detectSandwich({ ...tx, hash: '0x02', from: VICTIM, to: ROUTER }, block(BOT, SEARCHER_2, BOT))!;
+
+    expect(pattern.type).toBe('sandwich');
+    expect(pattern.details).toMatchObject({
+      role: 'victim',
+      attacker: EOA,
+      attackerContract: BOT,
+      victim: VICTIM,
+      pool: POOL_A,
+      frontrunTx: '0x01',
+      victimTx: '0x02',
+      backrunTx: '0x03',
+      victimAmountIn: '5000',
+      profitToken: WETH,
+      profit: '50',
+    });
+    expect(pattern.confidence).toBe(0.95);
+  });
+
+  it('does not pair two unrelated users of the victim\'s router', () => {
+    expect(detectSandwich({ ...tx, hash: '0x01', to: ROUTER }, block(ROUTER, SEARCHER_2, ROUTER))).toBeNull();
+  });
+});
+
+describe('detectJitLiquidity', () => {
+  const NPM = '0xc36442b4a4522e871399cd717abdd847ab11fe88';
+  const position = { pool: POOL_A, owner: NPM, tickLower: -60, tickUpper: 60, liquidity: '500', amount0: '1000', amount1: '3000' };
+  const mint = (tokenId: string): LiquidityEvent => ({ type: 'mint', ...position, logIndex: 0, tokenId });
+  const burn = (tokenId: string): LiquidityEvent => ({ type: 'burn', ...position, logIndex: 0, tokenId });
+
+  const block = (burnFrom: string, burnTokenId: string): BlockContext => ({
+    blockNumber: 1,
+    timestamp: 0,
+    miner: '0x00',
+    baseFeePerGas: null,
+    transactionCount: 3,
+    txs: [
+      blockTx(1, '0x00000000000000000000000000000000000000f1', NPM, { liquidityEvents: [mint('7')] }),
+      blockTx(2, EOA, EXECUTOR, { swaps: [swaps[0]!] }),
+      blockTx(3, burnFrom, NPM, { liquidityEvents: [burn(burnTokenId)] }),
+    ],
+  });
+
+  it('pairs a mint and burn of the same NFT position across sender EOAs', () => {
+    const pattern = detectJitLiquidity({ ...tx, hash: '0x02' }, block('0x00000000000000000000000000000000000000f2', '7'))!;
+
+    expect(pattern.type).toBe('jit_liquidity');
+    expect(pattern.details.role).toBe('swap');
+    expect(pattern.details.searcherContract).toBeNull();
+  });
+
+  it('does not treat unrelated position manager users as one searcher', () => {
+    expect(detectJitLiquidity({ ...tx, hash: '0x02' }, block('0x00000000000000000000000000000000000000f2', '8'))).toBeNull();
+  });
+});
+
+describe('senderAccounts', () => {
+  const ROUTER = '0x1111111254eeb25477b68fb85ed929f73a960582';
+  const flows = [flow(WETH, EXECUTOR, POOL_A, '1000'), flow(USDC, POOL_A, POOL_B, '3000'), flow(WETH, POOL_B, EXECUTOR, '1100')];
+
+  it('adds the executor the arbitrage ran through', () => {
+    expect(senderAccounts(tx, detectArbitrage(tx, flows, swaps))).toEqual([EOA, EXECUTOR]);
+  });
+
+  it('keeps the sender alone behind a public router or without a pattern', () => {
+    const routed = { ...tx, to: ROUTER };
+    expect(senderAccounts(routed, detectArbitrage(routed, flows, swaps))).toEqual([EOA]);
+    expect(senderAccounts(tx, null)).toEqual([EOA]);
+  });
+});
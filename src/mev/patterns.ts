@@ -1,88 +1,399 @@
-import type { Transaction, TokenFlow, MEVPattern } from '../types/index.js';
+import { zeroAddress } from 'viem';
+import type {
+  Transaction,
+  TokenFlow,
+  MEVPattern,
+  BlockContext,
+  BlockTxContext,
+  Swap,
+  Liquidation,
+  FlashLoan,
+  LiquidityEvent,
+} from '../types/index.js';
+import { UNISWAP_V3_POSITION_MANAGER } from './liquidity.js';
+import { isSwapRouter } from './swaps.js';
 
+/**
+ * Net token balance change of a set of addresses (transfers among them cancel out).
+ * Flash loan principal is financing: a borrow counts as nothing, a repayment as its fee.
+ */
+export function netFlowsFor(addresses: Set<string>, tokenFlows: TokenFlow[]): Map<string, bigint> {
+  const net = new Map<string, bigint>();
+  for (const flow of tokenFlows) {
+    const from = addresses.has(flow.from.toLowerCase());
+    const to = addresses.has(flow.to.toLowerCase());
+    if (from === to) continue;
+    const token = flow.token.toLowerCase();
+    const amount = BigInt(flow.amount) - BigInt(flow.financing?.principal ?? '0');
+    if (amount === 0n) continue;
+    net.set(token, (net.get(token) || 0n) + (to ? amount : -amount));
+  }
+  return net;
+}
+
+function toStringRecord(map: Map<string, bigint>): Record<string, string> {
+  return Object.fromEntries(Array.from(map.entries()).map(([k, v]) => [k, v.toString()]));
+}
+
+/**
+ * Swap path ordered by log index. `closed` means every token bought is sold again
+ * (split routes); `cyclic` additionally requires a single hop chain back to the start token.
+ */
+function analyzeSwapPath(swaps: Swap[]): { cyclic: boolean; closed: boolean; startToken: string } {
+  const path = swaps.slice().sort((a, b) => a.logIndex - b.logIndex);
+  const startToken = path[0].tokenIn;
+  const chained = path.every((s, i) => i === 0 || s.tokenIn === path[i - 1].tokenOut);
+  const cyclic = chained && path[path.length - 1].tokenOut === startToken;
+
+  const bought = new Set(path.map((s) => s.tokenOut));
+  const sold = new Set(path.map((s) => s.tokenIn));
+  const closed = bought.size === sold.size && [...bought].every((t) => sold.has(t));
+
+  return { cyclic, closed, startToken };
+}
+
+// Shared vaults hold the balances of many pools; they are never the arbitrageur
+const SHARED_VAULTS = new Set([
+  '0xba12222222228d8ba445958a75a0704d566bf2c8', // Balancer V2 Vault
+  '0x000000000004444c5dc75cb358380d2e3de08a90', // Uniswap V4 PoolManager
+]);
+
+/**
+ * Who kept the start token at the end of the cycle: the address (not a pool) with the
+ * largest net gain in it, else the recipient of the closing swap, else tx.to.
+ * Covers bots that run through an executor / router or pay the profit to a third address.
+ */
+function findBeneficiary(tx: Transaction, tokenFlows: TokenFlow[], path: Swap[], startToken: string): string {
+  const excluded = new Set([...path.map((s) => s.pool), ...SHARED_VAULTS, zeroAddress]);
+  const candidates = new Set(
+    tokenFlows
+      .filter((f) => f.token.toLowerCase() === startToken)
+      .map((f) => f.to.toLowerCase())
+      .filter((a) => !excluded.has(a))
+  );
+  let best: { address: string; net: bigint } | null = null;
+  for (const address of candidates) {
+    const net = netFlowsFor(new Set([address]), tokenFlows).get(startToken) ?? 0n;
+    if (net > 0n && (!best || net > best.net)) best = { address, net };
+  }
+  if (best) return best.address;
+
+  const closing = path[path.length - 1]!.recipient.toLowerCase();
+  if (!excluded.has(closing)) return closing;
+  return tx.to?.toLowerCase() ?? tx.from.toLowerCase();
+}
+
+/**
+ * 检测套利
+ * The tx's swaps must form a cycle back to the starting token. Profit is measured on the
+ * token transfers of the beneficiary (see findBeneficiary), the executor contract (tx.to)
+ * and the owner EOA (tx.from).
+ */
 export function detectArbitrage(
   tx: Transaction,
-  tokenFlows: TokenFlow[]
+  tokenFlows: TokenFlow[],
+  swaps: Swap[] = []
 ): MEVPattern | null {
-  const fromAddress = tx.from.toLowerCase();
-  
-  const netFlows = new Map<string, bigint>();
-  
-  for (const flow of tokenFlows) {
-    const token = flow.token.toLowerCase();
-    const amount = BigInt(flow.amount);
-    
-    if (flow.to.toLowerCase() === fromAddress) {
-      netFlows.set(token, (netFlows.get(token) || 0n) + amount);
-    }
-    if (flow.from.toLowerCase() === fromAddress) {
-      netFlows.set(token, (netFlows.get(token) || 0n) - amount);
-    }
+  if (swaps.length < 2) return null;
+
+  const { cyclic, closed, startToken } = analyzeSwapPath(swaps);
+  if (!cyclic && !closed) return null;
+
+  const path = swaps.slice().sort((a, b) => a.logIndex - b.logIndex);
+  const owner = tx.from.toLowerCase();
+  const executor = tx.to?.toLowerCase() ?? owner;
+  const beneficiary = findBeneficiary(tx, tokenFlows, path, startToken);
+  const beneficiaryNet = netFlowsFor(new Set([beneficiary]), tokenFlows);
+  const ownerNet = netFlowsFor(new Set([owner]), tokenFlows);
+  const combinedNet = netFlowsFor(new Set([owner, executor, beneficiary]), tokenFlows);
+
+  const swapNet = new Map<string, bigint>();
+  for (const swap of swaps) {
+    swapNet.set(swap.tokenIn, (swapNet.get(swap.tokenIn) || 0n) - BigInt(swap.amountIn));
+    swapNet.set(swap.tokenOut, (swapNet.get(swap.tokenOut) || 0n) + BigInt(swap.amountOut));
   }
-  
-  // 检查是否有代币净增加 (可能是利润)
-  const hasProfit = Array.from(netFlows.values()).some(net => net > 0n);
-  
-  // 检查是否涉及多个代币 (套利通常在多个池子间进行)
-  const uniqueTokens = new Set(tokenFlows.map(f => f.token.toLowerCase())).size;
-  
-  if (hasProfit && uniqueTokens >= 2) {
-    return {
-      type: 'arbitrage',
-      confidence: 0.7,
-      details: {
-        uniqueTokens,
-        netFlows: Object.fromEntries(
-          Array.from(netFlows.entries()).map(([k, v]) => [k, v.toString()])
-        ),
-      },
-    };
+
+  const profit = combinedNet.get(startToken) ?? swapNet.get(startToken) ?? 0n;
+  const profitable = Array.from(combinedNet.values()).some((v) => v > 0n) || profit > 0n;
+  const hasLoss = Array.from(combinedNet.values()).some((v) => v < 0n);
+
+  let confidence = cyclic ? 0.9 : 0.75;
+  if (!profitable || hasLoss) confidence -= 0.3;
+
+  return {
+    type: 'arbitrage',
+    confidence,
+    details: {
+      cyclic,
+      profitable,
+      beneficiary,
+      executor,
+      owner,
+      protocols: [...new Set(swaps.map((s) => s.protocol))],
+      path: path.map((s) => ({ pool: s.pool, protocol: s.protocol, tokenIn: s.tokenIn, tokenOut: s.tokenOut, amountIn: s.amountIn, amountOut: s.amountOut })),
+      profitToken: startToken,
+      profit: profit.toString(),
+      profitByToken: toStringRecord(combinedNet),
+      beneficiaryProfitByToken: toStringRecord(beneficiaryNet),
+      ownerProfitByToken: toStringRecord(ownerNet),
+      swapNetByToken: toStringRecord(swapNet),
+    },
+  };
+}
+
+function isSameSearcher(front: BlockTxContext, back: BlockTxContext, victim: BlockTxContext): boolean {
+  if (front.from === back.from) return true;
+  // Searchers often rotate EOAs but keep the same bot contract; a shared router is not a shared bot.
+  return front.to !== null && front.to === back.to && front.to !== victim.to;
+}
+
+interface SandwichMatch {
+  front: BlockTxContext;
+  victim: BlockTxContext;
+  back: BlockTxContext;
+  frontSwap: Swap;
+  victimSwap: Swap;
+}
+
+function findSandwich(targetHash: string, txs: BlockTxContext[]): SandwichMatch | null {
+  const ordered = txs.filter((t) => t.status === 'success').sort((a, b) => a.index - b.index);
+
+  for (let i = 0; i < ordered.length; i++) {
+    const front = ordered[i];
+    for (let k = ordered.length - 1; k > i + 1; k--) {
+      const back = ordered[k];
+      for (let j = i + 1; j < k; j++) {
+        const victim = ordered[j];
+        if (![front.hash, victim.hash, back.hash].includes(targetHash)) continue;
+        if (victim.from === front.from || !isSameSearcher(front, back, victim)) continue;
+
+        for (const frontSwap of front.swaps) {
+          const victimSwap = victim.swaps.find(
+            (s) => s.pool === frontSwap.pool && s.tokenIn === frontSwap.tokenIn
+          );
+          if (!victimSwap) continue;
+          const backSwap = back.swaps.find(
+            (s) => s.pool === frontSwap.pool && s.tokenIn === frontSwap.tokenOut
+          );
+          if (backSwap) return { front, victim, back, frontSwap, victimSwap };
+        }
+      }
+    }
   }
-  
   return null;
 }
 
 /**
  * 检测三明治攻击
- * 启发式: 需要访问前后交易，MVP 暂时简化
- * TODO: 在完整版本中实现区块内交易分析
+ * A frontrun and a backrun by the same searcher on the same pool, wrapping a victim
+ * swap in the same direction as the frontrun. The analyzed tx may be any of the three.
  */
 export function detectSandwich(
-  _tx: Transaction,
-  tokenFlows: TokenFlow[]
+  tx: Transaction,
+  blockContext?: BlockContext | null
 ): MEVPattern | null {
-  // MVP: 简单标记为未知
-  // 完整实现需要: 获取同区块的前后交易，分析价格影响
-  
-  // 占位实现: 检测是否为大额 swap (可能是被夹击的目标)
-  const largeSwap = tokenFlows.length >= 2 && 
-    tokenFlows.some(f => BigInt(f.amount) > 10n ** 20n); // > 100 tokens (假设 18 decimals)
-  
-  if (largeSwap) {
-    return {
-      type: 'sandwich',
-      confidence: 0.3, // 低置信度，因为无法确认
-      details: {
-        note: 'Potential large swap (needs context of surrounding txs)',
-        flowCount: tokenFlows.length,
-      },
-    };
+  if (!blockContext) return null;
+
+  const match = findSandwich(tx.hash.toLowerCase(), blockContext.txs);
+  if (!match) return null;
+
+  const { front, victim, back, frontSwap, victimSwap } = match;
+  const attackers = new Set([front.from, back.from]);
+  if (front.to && front.to === back.to) attackers.add(front.to);
+
+  const net = netFlowsFor(attackers, [...front.tokenFlows, ...back.tokenFlows]);
+  const profit = net.get(frontSwap.tokenIn) ?? 0n;
+  const role =
+    tx.hash.toLowerCase() === front.hash ? 'frontrun' : tx.hash.toLowerCase() === back.hash ? 'backrun' : 'victim';
+
+  return {
+    type: 'sandwich',
+    confidence: profit > 0n ? 0.95 : 0.8,
+    details: {
+      role,
+      attacker: front.from,
+      attackerContract: front.to === back.to ? front.to : null,
+      victim: victim.from,
+      pool: frontSwap.pool,
+      protocols: [frontSwap.protocol],
+      frontrunTx: front.hash,
+      victimTx: victim.hash,
+      backrunTx: back.hash,
+      victimAmountIn: victimSwap.amountIn,
+      victimAmountOut: victimSwap.amountOut,
+      profitToken: frontSwap.tokenIn,
+      profit: profit.toString(),
+      profitByToken: toStringRecord(net),
+    },
+  };
+}
+
+/**
+ * 检测清算
+ * Driven by the lending protocols' own liquidation events; amounts are in the assets'
+ * raw units, USD values come from the protocol oracles at the liquidation block.
+ */
+export function detectLiquidation(
+  tx: Transaction,
+  liquidations: Liquidation[] = [],
+  flashLoans: FlashLoan[] = []
+): MEVPattern | null {
+  if (liquidations.length === 0) return null;
+
+  const sumUsd = (pick: (l: Liquidation) => number | null) => {
+    const values = liquidations.map(pick);
+    return values.every((v) => v !== null)
+      ? Math.round(values.reduce((a, b) => a! + b!, 0)! * 100) / 100
+      : null;
+  };
+
+  return {
+    type: 'liquidation',
+    confidence: 0.95,
+    details: {
+      protocols: [...new Set(liquidations.map((l) => l.protocol))],
+      liquidator: liquidations[0].liquidator ?? tx.from.toLowerCase(),
+      borrowers: [...new Set(liquidations.map((l) => l.borrower))],
+      liquidations,
+      debtRepaidUsd: sumUsd((l) => l.debtRepaidUsd),
+      collateralSeizedUsd: sumUsd((l) => l.collateralSeizedUsd),
+      bonusUsd: sumUsd((l) => l.bonusUsd),
+      flashLoanFunded: flashLoans.length > 0,
+      flashLoans,
+    },
+  };
+}
+
+function isSamePosition(a: LiquidityEvent, b: LiquidityEvent): boolean {
+  return a.pool === b.pool && a.owner === b.owner && a.tickLower === b.tickLower && a.tickUpper === b.tickUpper;
+}
+
+/**
+ * Positions minted through the NFT manager share its address as owner, so the searcher
+ * must match at the transaction level: same sender, the same NFT position, or the same
+ * private contract. The NFT manager and public routers are entry points anyone can call.
+ */
+function isSameJitSearcher(mintTx: BlockTxContext, burnTx: BlockTxContext, mint: LiquidityEvent, burn: LiquidityEvent): boolean {
+  if (mintTx.from === burnTx.from) return true;
+  if (mint.owner === UNISWAP_V3_POSITION_MANAGER || mintTx.to === UNISWAP_V3_POSITION_MANAGER) {
+    return mint.tokenId !== undefined && mint.tokenId === burn.tokenId;
+  }
+  return mintTx.to !== null && mintTx.to === burnTx.to && !isSwapRouter(mintTx.to);
+}
+
+/**
+ * 检测 JIT 流动性
+ * A Uniswap V3 Mint right before a swap on the same pool, and a Burn of the same position
+ * by the same searcher right after it. Fees = Collect amounts minus the burned principal.
+ */
+export function detectJitLiquidity(
+  tx: Transaction,
+  blockContext?: BlockContext | null
+): MEVPattern | null {
+  if (!blockContext) return null;
+
+  const targetHash = tx.hash.toLowerCase();
+  const ordered = blockContext.txs.filter((t) => t.status === 'success').sort((a, b) => a.index - b.index);
+
+  for (let i = 0; i < ordered.length; i++) {
+    const mintTx = ordered[i];
+    for (const mint of mintTx.liquidityEvents.filter((e) => e.type === 'mint')) {
+      for (let k = i + 2; k < ordered.length; k++) {
+        const burnTx = ordered[k];
+        const burn = burnTx.liquidityEvents.find((e) => e.type === 'burn' && isSamePosition(e, mint));
+        if (!burn || !isSameJitSearcher(mintTx, burnTx, mint, burn)) continue;
+
+        for (let j = i + 1; j < k; j++) {
+          const swapTx = ordered[j];
+          if (swapTx.from === mintTx.from) continue;
+          const swap = swapTx.swaps.find((s) => s.pool === mint.pool);
+          if (!swap) continue;
+          if (![mintTx.hash, swapTx.hash, burnTx.hash].includes(targetHash)) continue;
+
+          const collect = burnTx.liquidityEvents.find((e) => e.type === 'collect' && isSamePosition(e, mint));
+          const fees0 = collect ? BigInt(collect.amount0) - BigInt(burn.amount0) : 0n;
+          const fees1 = collect ? BigInt(collect.amount1) - BigInt(burn.amount1) : 0n;
+          const role = targetHash === mintTx.hash ? 'mint' : targetHash === burnTx.hash ? 'burn' : 'swap';
+
+          return {
+            type: 'jit_liquidity',
+            confidence: collect ? 0.9 : 0.8,
+            details: {
+              role,
+              searcher: mintTx.from,
+              searcherContract:
+                mintTx.to === burnTx.to && mintTx.to !== UNISWAP_V3_POSITION_MANAGER && !isSwapRouter(mintTx.to)
+                  ? mintTx.to
+                  : null,
+              victim: swapTx.from,
+              pool: mint.pool,
+              protocols: ['uniswap_v3'],
+              mintTx: mintTx.hash,
+              swapTx: swapTx.hash,
+              burnTx: burnTx.hash,
+              tickLower: mint.tickLower,
+              tickUpper: mint.tickUpper,
+              liquidity: mint.liquidity,
+              depositedAmount0: mint.amount0,
+              depositedAmount1: mint.amount1,
+              withdrawnAmount0: burn.amount0,
+              withdrawnAmount1: burn.amount1,
+              feesAmount0: fees0.toString(),
+              feesAmount1: fees1.toString(),
+              swapTokenIn: swap.tokenIn,
+              swapTokenOut: swap.tokenOut,
+              swapAmountIn: swap.amountIn,
+              swapAmountOut: swap.amountOut,
+            },
+          };
+        }
+      }
+    }
   }
-  
   return null;
 }
 
+export interface MEVDetectionContext {
+  block?: BlockContext | null;
+  swaps?: Swap[];
+  liquidations?: Liquidation[];
+  flashLoans?: FlashLoan[];
+}
+
+/**
+ * The sender's own accounts: its EOA, plus the contract it called when the detected pattern
+ * names that contract as the sender's executor (arbitrage executor that is not a public
+ * router, sandwich / JIT searcher contract, liquidator). A token, pool, router or EOA the tx
+ * called holds someone else's balance.
+ */
+export function senderAccounts(tx: Pick<Transaction, 'from' | 'to'>, pattern?: MEVPattern | null): string[] {
+  const from = tx.from.toLowerCase();
+  const to = tx.to?.toLowerCase();
+  if (!to || to === from || !pattern) return [from];
+
+  const d = pattern.details;
+  const own =
+    (pattern.type === 'arbitrage' && d.executor === to && !isSwapRouter(to)) ||
+    (pattern.type === 'sandwich' && d.role !== 'victim' && d.attackerContract === to) ||
+    (pattern.type === 'jit_liquidity' && d.role !== 'swap' && d.searcherContract === to) ||
+    (pattern.type === 'liquidation' && d.liquidator === to);
+  return own ? [from, to] : [from];
+}
+
 /**
  * 主识别函数: 尝试所有模式
  */
 export function identifyMEVPattern(
   tx: Transaction,
-  tokenFlows: TokenFlow[]
+  tokenFlows: TokenFlow[],
+  context: MEVDetectionContext = {}
 ): MEVPattern {
   // 按优先级尝试各种模式
   const patterns = [
-    detectArbitrage(tx, tokenFlows),
-    detectSandwich(tx, tokenFlows),
+    detectLiquidation(tx, context.liquidations, context.flashLoans),
+    detectArbitrage(tx, tokenFlows, context.swaps),
+    detectSandwich(tx, context.block),
+    detectJitLiquidity(tx, context.block),
   ];
   
   // 返回最高置信度的模式
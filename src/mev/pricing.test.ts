@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { zeroAddress } from 'viem';
+import { computeProfitSummary, meanTick, priceBalanceDeltas, tickToPrice, type PriceOracle } from './pricing.js';
+import { computeBalanceDeltas } from './balances.js';
+import { senderAccounts } from './patterns.js';
+import { NATIVE_TOKEN_ADDRESS } from '../tools/rpc.js';
+import type { TokenFlow, Transaction } from '../types/index.js';
+
+describe('meanTick', () => {
+  it('averages tickCumulatives over the window', () => {
+    expect(meanTick([1_000_000n, 1_000_000n + 1800n * 195_000n], 1800)).toBe(195_000);
+  });
+
+  it('rounds negative means toward negative infinity', () => {
+    expect(meanTick([0n, -1801n], 1800)).toBe(-2);
+    expect(meanTick([0n, -1800n], 1800)).toBe(-1);
+    expect(meanTick([0n, 1801n], 1800)).toBe(1);
+  });
+});
+
+describe('tickToPrice', () => {
+  it('is 1 at tick 0 for tokens with equal decimals', () => {
+    expect(tickToPrice(0, true, 18, 18)).toBe(1);
+    expect(tickToPrice(0, false, 18, 18)).toBe(1);
+  });
+
+  it('prices token1 against token0 with the inverse tick', () => {
+    // USDC (6 decimals) / WETH (18 decimals) pool: token0 = USDC, token1 = WETH
+    const wethInUsdc = tickToPrice(195_000, false, 18, 6);
+    const usdcInWeth = tickToPrice(195_000, true, 6, 18);
+
+    expect(wethInUsdc).toBeCloseTo(1e12 / 1.0001 ** 195_000, 6);
+    expect(wethInUsdc).toBeGreaterThan(3000);
+    expect(wethInUsdc).toBeLessThan(4000);
+    expect(wethInUsdc * usdcInWeth).toBeCloseTo(1, 9);
+  });
+
+  it('moves the price by one basis point per tick', () => {
+    expect(tickToPrice(1, true, 18, 18) / tickToPrice(0, true, 18, 18)).toBeCloseTo(1.0001, 12);
+  });
+});
+
+describe('computeProfitSummary', () => {
+  const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+  const ALICE = '0x00000000000000000000000000000000000000a1';
+  const BOB = '0x00000000000000000000000000000000000000b1';
+  const ONE_ETH = 10n ** 18n;
+
+  // 2000 USD per ETH / WETH
+  const oracle: PriceOracle = {
+    chain: 'ethereum',
+    blockNumber: 1,
+    priceUsd: async () => ({ usd: 2000, source: 'chainlink' }),
+    valueUsd: async (_token, amount) => (Number(amount) / 1e18) * 2000,
+  };
+
+  const summarize = async (to: string, tokenFlows: TokenFlow[]) => {
+    const tx: Transaction = {
+      hash: '0x01',
+      from: ALICE,
+      to,
+      value: ONE_ETH.toString(),
+      gasUsed: '21000',
+      gasPrice: '1000000000',
+      blockNumber: 1,
+      input: '0x',
+      logs: [],
+    };
+    const deltas = await priceBalanceDeltas(computeBalanceDeltas({ tx, tokenFlows }), oracle);
+    return computeProfitSummary({ deltas, accounts: senderAccounts(tx, null), oracle });
+  };
+
+  const native = (from: string, to: string): TokenFlow => ({ standard: 'native', token: NATIVE_TOKEN_ADDRESS, from, to, amount: ONE_ETH.toString() });
+
+  it('counts a plain ETH transfer as the sent amount plus gas', async () => {
+    const summary = await summarize(BOB, [native(ALICE, BOB)]);
+
+    expect(summary.accounts).toEqual([ALICE]);
+    expect(summary.netProfitUsd).toBe(-2000.04);
+  });
+
+  it('counts a WETH wrap as gas only', async () => {
+    const summary = await summarize(WETH, [
+      native(ALICE, WETH),
+      { standard: 'erc20', token: WETH, from: zeroAddress, to: ALICE, amount: ONE_ETH.toString(), synthetic: 'wrap' },
+    ]);
+
+    expect(summary.accounts).toEqual([ALICE]);
+    expect(summary.netProfitUsd).toBe(-0.04);
+  });
+});
@@ -0,0 +1,317 @@
+/**
+ * On-chain USD pricing at a block: Chainlink feeds where available, otherwise a
+ * Uniswap V3 TWAP against the wrapped native token (or a stablecoin) priced by Chainlink.
+ * Every read is pinned to the transaction's block, so historic values need an archive node.
+ */
+import { parseAbi, zeroAddress, type Hex } from 'viem';
+import { getPublicClient, getTokenInfoFromRPC, NATIVE_TOKEN_ADDRESS } from '../tools/rpc.js';
+import { getChainConfig } from '../config/chains.js';
+import type { BalanceDelta, ProfitSummary, TokenStandard } from '../types/index.js';
+
+export interface TokenPrice {
+  usd: number;
+  source: 'chainlink' | 'uniswap_v3_twap';
+}
+
+export interface PriceOracle {
+  chain: string;
+  blockNumber: number;
+  priceUsd(token: string): Promise<TokenPrice | null>;
+  /** USD value of a raw amount; null for NFTs and tokens without an on-chain price */
+  valueUsd(token: string, amount: bigint, options?: { decimals?: string | number; standard?: TokenStandard }): Promise<number | null>;
+}
+
+export const CHAINLINK_ETH_USD_FEED = '0x5f4ec3df9cbd43714fe2740f5e3616155c5b8419';
+
+// token → Chainlink <TOKEN>/USD aggregator. The native token is keyed by NATIVE_TOKEN_ADDRESS
+// and also covers the chain's wrapped native token.
+const CHAINLINK_USD_FEEDS: Record<string, Record<string, string>> = {
+  ethereum: {
+    [NATIVE_TOKEN_ADDRESS]: CHAINLINK_ETH_USD_FEED,
+    '0x2260fac5e5542a773aa44fbcfedf7c193bc2c599': '0xf4030086522a5beea4988f8ca5b36dbc97bee88c', // WBTC (BTC/USD)
+    '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48': '0x8fffffd4afb6115b954bd326cbe7b4ba576818f6', // USDC
+    '0xdac17f958d2ee523a2206206994597c13d831ec7': '0x3e7d1eab13ad0104d2750b8863b489d65364e32d', // USDT
+    '0x6b175474e89094c44da98b954eedeac495271d0f': '0xaed0c38402a5d19df6e4c03f4e2dced6e29c1ee9', // DAI
+    '0x514910771af9ca656af840dff83e8264ecf986ca': '0x2c1d072e956affc0d435cb7ac38ef18d24d9127c', // LINK
+  },
+  arbitrum: { [NATIVE_TOKEN_ADDRESS]: '0x639fe6ab55c921f74e7fac1ee960c0b6293ba612' },
+  optimism: { [NATIVE_TOKEN_ADDRESS]: '0x13e3ee699d1909e989722e753853ae30b17e08c5' },
+  base: { [NATIVE_TOKEN_ADDRESS]: '0x71041dddad3595f9ced3dccfbe3d1f4b0a16bb70' },
+  polygon: { [NATIVE_TOKEN_ADDRESS]: '0xab594600376ec9fd91f8e885dadf0ce036862de0' },
+  bsc: { [NATIVE_TOKEN_ADDRESS]: '0x0567f2323251f0aab15c8dfb1967e4e8a7d42aee' },
+};
+
+const UNISWAP_V3_FACTORIES: Record<string, string> = {
+  ethereum: '0x1f98431c8ad98523631ae4a59f267346ea31f984',
+  arbitrum: '0x1f98431c8ad98523631ae4a59f267346ea31f984',
+  optimism: '0x1f98431c8ad98523631ae4a59f267346ea31f984',
+  polygon: '0x1f98431c8ad98523631ae4a59f267346ea31f984',
+  base: '0x33128a8fc17869897dce68ed026d694621f6fdfd',
+  bsc: '0xdb1d10011ad0ff90774d0c6bb92e5c5c8b4461f7',
+};
+
+// Quote tokens besides the wrapped native token, tried in order
+const STABLE_QUOTES: Record<string, string[]> = {
+  ethereum: ['0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48'],
+};
+
+const V3_FEE_TIERS = [500, 3000, 10000, 100];
+const TWAP_WINDOW_SECONDS = 1800;
+
+const CHAINLINK_ABI = parseAbi([
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)',
+  'function decimals() view returns (uint8)',
+]);
+
+const UNISWAP_V3_ABI = parseAbi([
+  'function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)',
+  'function token0() view returns (address)',
+  'function liquidity() view returns (uint128)',
+  'function observe(uint32[] secondsAgos) view returns (int56[] tickCumulatives, uint160[] secondsPerLiquidityCumulativeX128s)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+]);
+
+/** Contract read at a fixed block; reverts and RPC errors resolve to null */
+export type BlockReader = (<T>(address: string, abi: readonly unknown[], functionName: string, args?: readonly unknown[]) => Promise<T | null>) & {
+  chain: string;
+};
+
+export function readerAt(blockNumber: number, chain: string): BlockReader {
+  const client = getPublicClient(chain);
+  const read = async <T>(address: string, abi: readonly unknown[], functionName: string, args: readonly unknown[] = []) => {
+    try {
+      return (await client.readContract({
+        address: address as Hex,
+        abi: abi as any,
+        functionName,
+        args,
+        blockNumber: BigInt(blockNumber),
+      } as any)) as T;
+    } catch {
+      return null;
+    }
+  };
+  return Object.assign(read, { chain });
+}
+
+export async function tokenDecimals(token: string, chain: string): Promise<number> {
+  if (token === NATIVE_TOKEN_ADDRESS) return 18;
+  const info = await getTokenInfoFromRPC(token, chain);
+  return info?.decimals ?? 18;
+}
+
+/**
+ * Arithmetic mean tick between two tickCumulative observations, rounded toward negative
+ * infinity as Uniswap's OracleLibrary.consult does
+ */
+export function meanTick(tickCumulatives: readonly [bigint, bigint], windowSeconds: number): number {
+  const delta = tickCumulatives[1] - tickCumulatives[0];
+  const window = BigInt(windowSeconds);
+  let tick = delta / window;
+  if (delta < 0n && delta % window !== 0n) tick--;
+  return Number(tick);
+}
+
+/**
+ * Price of one whole `token` in whole units of the pool's other token at `tick`
+ * (1.0001^tick is token1 per token0 in raw units)
+ */
+export function tickToPrice(tick: number, tokenIsToken0: boolean, tokenDecimals: number, quoteDecimals: number): number {
+  return Math.pow(1.0001, tokenIsToken0 ? tick : -tick) * 10 ** (tokenDecimals - quoteDecimals);
+}
+
+/**
+ * Price oracle pinned to `blockNumber`; prices are cached per token for the oracle's lifetime
+ */
+export function createPriceOracle(chain: string, blockNumber: number): PriceOracle {
+  const chainConfig = getChainConfig(chain);
+  const wrappedNative = chainConfig.wrappedNativeToken.toLowerCase();
+  const feeds = CHAINLINK_USD_FEEDS[chainConfig.name] ?? {};
+  const cache = new Map<string, Promise<TokenPrice | null>>();
+
+  const read = readerAt(blockNumber, chain);
+
+  const feedFor = (token: string) => feeds[token === wrappedNative ? NATIVE_TOKEN_ADDRESS : token];
+
+  const chainlinkPrice = async (feed: string): Promise<number | null> => {
+    const [round, decimals] = await Promise.all([
+      read<readonly [bigint, bigint, bigint, bigint, bigint]>(feed, CHAINLINK_ABI, 'latestRoundData'),
+      read<number>(feed, CHAINLINK_ABI, 'decimals'),
+    ]);
+    if (!round || decimals === null || round[1] <= 0n) return null;
+    return Number(round[1]) / 10 ** decimals;
+  };
+
+  const deepestPool = async (factory: string, token: string, quote: string): Promise<string | null> => {
+    const pools = await Promise.all(
+      V3_FEE_TIERS.map((fee) => read<string>(factory, UNISWAP_V3_ABI, 'getPool', [token, quote, fee]))
+    );
+    let best: { pool: string; liquidity: bigint } | null = null;
+    for (const pool of pools) {
+      if (!pool || pool.toLowerCase() === zeroAddress) continue;
+      const liquidity = (await read<bigint>(pool, UNISWAP_V3_ABI, 'liquidity')) ?? 0n;
+      if (liquidity > 0n && (!best || liquidity > best.liquidity)) best = { pool, liquidity };
+    }
+    return best?.pool ?? null;
+  };
+
+  const averageTick = async (pool: string): Promise<number | null> => {
+    const observed = await read<readonly [readonly bigint[], readonly bigint[]]>(
+      pool, UNISWAP_V3_ABI, 'observe', [[TWAP_WINDOW_SECONDS, 0]]
+    );
+    if (observed) {
+      const [start, end] = observed[0];
+      return meanTick([start!, end!], TWAP_WINDOW_SECONDS);
+    }
+    // Pools without enough observation history only give the spot tick
+    const slot0 = await read<readonly [bigint, number]>(pool, UNISWAP_V3_ABI, 'slot0');
+    return slot0 ? Number(slot0[1]) : null;
+  };
+
+  const twapPrice = async (token: string): Promise<number | null> => {
+    const factory = UNISWAP_V3_FACTORIES[chainConfig.name];
+    if (!factory) return null;
+    for (const quote of [wrappedNative, ...(STABLE_QUOTES[chainConfig.name] ?? [])]) {
+      if (quote === token) continue;
+      const pool = await deepestPool(factory, token, quote);
+      if (!pool) continue;
+      const [tick, token0, quoteUsd, tokenDec, quoteDec] = await Promise.all([
+        averageTick(pool),
+        read<string>(pool, UNISWAP_V3_ABI, 'token0'),
+        chainlinkPrice(feedFor(quote)!),
+        tokenDecimals(token, chain),
+        tokenDecimals(quote, chain),
+      ]);
+      if (tick === null || !token0 || quoteUsd === null) continue;
+      return tickToPrice(tick, token0.toLowerCase() === token, tokenDec, quoteDec) * quoteUsd;
+    }
+    return null;
+  };
+
+  const loadPrice = async (token: string): Promise<TokenPrice | null> => {
+    const feed = feedFor(token);
+    if (feed) {
+      const usd = await chainlinkPrice(feed);
+      if (usd !== null) return { usd, source: 'chainlink' };
+    }
+    if (token === NATIVE_TOKEN_ADDRESS) return null;
+    const usd = await twapPrice(token);
+    return usd !== null && Number.isFinite(usd) ? { usd, source: 'uniswap_v3_twap' } : null;
+  };
+
+  const priceUsd = (token: string) => {
+    const key = token.toLowerCase();
+    let pending = cache.get(key);
+    if (!pending) {
+      pending = loadPrice(key).catch(() => null);
+      cache.set(key, pending);
+    }
+    return pending;
+  };
+
+  return {
+    chain: chainConfig.name,
+    blockNumber,
+    priceUsd,
+    async valueUsd(token, amount, options = {}) {
+      if (options.standard === 'erc721' || options.standard === 'erc1155') return null;
+      const price = await priceUsd(token);
+      if (!price) return null;
+      const decimals = options.decimals !== undefined && options.decimals !== ''
+        ? Number(options.decimals)
+        : await tokenDecimals(token.toLowerCase(), chain);
+      return (Number(amount) / 10 ** decimals) * price.usd;
+    },
+  };
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Sum of USD values of raw per-token amounts (e.g. MEVPattern.details.profitByToken).
+ * Null when no token could be priced.
+ */
+export async function valueTokenAmountsUsd(
+  amounts: Record<string, string>,
+  oracle: PriceOracle
+): Promise<number | null> {
+  const values = await Promise.all(
+    Object.entries(amounts).map(([token, amount]) => oracle.valueUsd(token, BigInt(amount)))
+  );
+  const priced = values.filter((v): v is number => v !== null);
+  return priced.length ? roundUsd(priced.reduce((a, b) => a + b, 0)) : null;
+}
+
+/**
+ * Ledger with `valueUsd` per fungible change and `netUsd` per address (priced changes only)
+ */
+export async function priceBalanceDeltas(deltas: BalanceDelta[], oracle: PriceOracle): Promise<BalanceDelta[]> {
+  return Promise.all(
+    deltas.map(async (d) => {
+      const changes = await Promise.all(
+        d.changes.map(async (change) => {
+          const value = await oracle.valueUsd(change.token, BigInt(change.delta), change);
+          return value === null ? change : { ...change, valueUsd: roundUsd(value) };
+        })
+      );
+      const priced = changes.filter((c) => c.valueUsd !== undefined);
+      return priced.length
+        ? { ...d, changes, netUsd: roundUsd(priced.reduce((sum, c) => sum + c.valueUsd!, 0)) }
+        : { ...d, changes };
+    })
+  );
+}
+
+/**
+ * USD profit of the transaction's sender (`accounts`, see senderAccounts), split into gross
+ * profit, gas cost and the builder's share. Gross is the net result before paying gas and
+ * direct coinbase transfers.
+ */
+export async function computeProfitSummary(input: {
+  deltas: BalanceDelta[];
+  accounts: string[];
+  oracle: PriceOracle;
+}): Promise<ProfitSummary> {
+  const { deltas, oracle } = input;
+  const accounts = input.accounts.map((a) => a.toLowerCase());
+  const own = deltas.filter((d) => accounts.includes(d.address) && !d.roles.includes('coinbase'));
+  const sender = deltas.find((d) => d.roles.includes('sender'));
+  const coinbase = deltas.find((d) => d.roles.includes('coinbase'));
+
+  const native = await oracle.priceUsd(NATIVE_TOKEN_ADDRESS);
+  const toUsd = (wei: bigint) => (native ? roundUsd((Number(wei) / 1e18) * native.usd) : null);
+
+  const gasFee = BigInt(sender?.gasFee ?? '0');
+  const priorityFee = BigInt(coinbase?.priorityFee ?? '0');
+  const coinbaseNative = BigInt(coinbase?.changes.find((c) => c.standard === 'native')?.delta ?? '0');
+  const coinbaseTransfers = coinbase ? coinbaseNative - priorityFee : 0n;
+
+  const unpricedTokens = [
+    ...new Set(
+      own.flatMap((d) => d.changes.filter((c) => c.valueUsd === undefined).map((c) => c.token))
+    ),
+  ];
+  const pricedAny = own.some((d) => d.netUsd !== undefined);
+  const netProfitUsd = pricedAny ? roundUsd(own.reduce((sum, d) => sum + (d.netUsd ?? 0), 0)) : null;
+  const gasCostUsd = toUsd(gasFee);
+  const coinbaseTransferUsd = toUsd(coinbaseTransfers > 0n ? coinbaseTransfers : 0n);
+  const builderTipUsd = coinbase ? toUsd(coinbaseNative > 0n ? coinbaseNative : 0n) : null;
+  const grossProfitUsd =
+    netProfitUsd !== null && gasCostUsd !== null
+      ? roundUsd(netProfitUsd + gasCostUsd + (coinbaseTransferUsd ?? 0))
+      : null;
+
+  return {
+    accounts,
+    nativePriceUsd: native ? native.usd : null,
+    grossProfitUsd,
+    gasCostUsd,
+    builderTipUsd,
+    coinbaseTransferUsd,
+    netProfitUsd,
+    unpricedTokens,
+    blockNumber: oracle.blockNumber,
+  };
+}
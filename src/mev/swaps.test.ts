@@ -0,0 +1,189 @@
+import { describe, expect, it, vi } from 'vitest';
+import { encodeAbiParameters, encodeEventTopics, keccak256, pad, parseAbi, parseAbiParameters, toHex, type Hex } from 'viem';
+import { decodeSwaps } from './swaps.js';
+import type { RawLog } from './swaps.js';
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const USDC = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const DAI = '0x6b175474e89094c44da98b954eedeac495271d0f';
+const ZERO = '0x0000000000000000000000000000000000000000';
+const NATIVE = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+const UNISWAP_V2_FACTORY = '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f';
+const SUSHI_FACTORY = '0xc0aee478e3658e2610c5f7a4a2e1777ce9e4f2ac';
+const POOL_MANAGER = '0x000000000004444c5dc75cb358380d2e3de08a90';
+const POSITION_MANAGER = '0xbd216513d74c8cf14cf4747e6aaa6420ff64ee9e';
+const VAULT = '0xba12222222228d8ba445958a75a0704d566bf2c8';
+
+const TRADER = '0x00000000000000000000000000000000000000e1';
+const ROUTER = '0x00000000000000000000000000000000000000e2';
+const V2_POOL = '0x00000000000000000000000000000000000000a2';
+const SUSHI_POOL = '0x00000000000000000000000000000000000000a5';
+const V3_POOL = '0x00000000000000000000000000000000000000a3';
+const CURVE_POOL = '0x00000000000000000000000000000000000000c0';
+const BALANCER_POOL = '0x00000000000000000000000000000000000000b0';
+
+// On-chain reads the decoders make, keyed by `address:function:args`
+const reads: Record<string, unknown> = {
+  [`${V2_POOL}:token0:`]: USDC,
+  [`${V2_POOL}:token1:`]: WETH,
+  [`${V2_POOL}:factory:`]: UNISWAP_V2_FACTORY,
+  [`${SUSHI_POOL}:token0:`]: USDC,
+  [`${SUSHI_POOL}:token1:`]: WETH,
+  [`${SUSHI_POOL}:factory:`]: SUSHI_FACTORY,
+  [`${V3_POOL}:token0:`]: USDC,
+  [`${V3_POOL}:token1:`]: WETH,
+  [`${CURVE_POOL}:coins:0`]: DAI,
+  [`${CURVE_POOL}:coins:1`]: USDC,
+};
+
+const V4_KEY = [ZERO, USDC, 500, 10, ZERO] as const;
+const V4_POOL_ID = keccak256(encodeAbiParameters(parseAbiParameters('address, address, uint24, int24, address'), V4_KEY));
+reads[`${POSITION_MANAGER}:poolKeys:${V4_POOL_ID.slice(0, 52)}`] = V4_KEY;
+
+vi.mock('../tools/rpc.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../tools/rpc.js')>()),
+  getPublicClient: () => ({
+    readContract: async ({ address, functionName, args = [] }: { address: string; functionName: string; args?: unknown[] }) => {
+      const key = `${address.toLowerCase()}:${functionName}:${args.map(String).join(',')}`;
+      if (!(key in reads)) throw new Error(`execution reverted: ${key}`);
+      return reads[key];
+    },
+  }),
+}));
+
+const ABI = parseAbi([
+  'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+]);
+const V3_ABI = parseAbi([
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+]);
+const V4_ABI = parseAbi([
+  'event Swap(bytes32 indexed id, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)',
+]);
+const CURVE_ABI = parseAbi([
+  'event TokenExchange(address indexed buyer, int128 sold_id, uint256 tokens_sold, int128 bought_id, uint256 tokens_bought)',
+]);
+const BALANCER_ABI = parseAbi([
+  'event Swap(bytes32 indexed poolId, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut)',
+]);
+
+// Receipt log fixtures: real event signatures, synthetic pools and amounts
+const log = (address: string, topics: unknown, data: Hex, logIndex: number): RawLog => ({
+  address,
+  topics: topics as string[],
+  data,
+  logIndex,
+});
+
+const v2Swap = (pool: string, amounts: [bigint, bigint, bigint, bigint], logIndex = 0) =>
+  log(
+    pool,
+    encodeEventTopics({ abi: ABI, eventName: 'Swap', args: { sender: ROUTER, to: TRADER } }),
+    encodeAbiParameters(parseAbiParameters('uint256, uint256, uint256, uint256'), amounts),
+    logIndex
+  );
+
+const transfer = (token: string, from: string, to: string, value: bigint, logIndex: number) =>
+  log(token, [encodeEventTopics({ abi: ABI, eventName: 'Transfer' })[0], pad(from as Hex), pad(to as Hex)], toHex(value, { size: 32 }), logIndex);
+
+describe('decodeSwaps', () => {
+  it('decodes a Uniswap V2 swap and tells the protocol by factory', async () => {
+    const [uniswap, sushi] = await decodeSwaps([
+      v2Swap(V2_POOL, [0n, 10n ** 18n, 3000n * 10n ** 6n, 0n], 0),
+      v2Swap(SUSHI_POOL, [100n, 0n, 0n, 7n], 1),
+    ]);
+
+    expect(uniswap).toEqual({
+      pool: V2_POOL,
+      protocol: 'uniswap_v2',
+      tokenIn: WETH,
+      tokenOut: USDC,
+      amountIn: (10n ** 18n).toString(),
+      amountOut: (3000n * 10n ** 6n).toString(),
+      sender: ROUTER,
+      recipient: TRADER,
+      logIndex: 0,
+    });
+    expect(sushi).toMatchObject({ protocol: 'sushiswap', tokenIn: USDC, tokenOut: WETH, amountIn: '100', amountOut: '7' });
+  });
+
+  it('reads Uniswap V3 signed deltas from the pool side', async () => {
+    const [swap] = await decodeSwaps([log(
+      V3_POOL,
+      encodeEventTopics({ abi: V3_ABI, eventName: 'Swap', args: { sender: ROUTER, recipient: TRADER } }),
+      encodeAbiParameters(parseAbiParameters('int256, int256, uint160, uint128, int24'), [-2500n, 10n ** 18n, 1n, 1n, 0]),
+      3
+    )]);
+
+    // Fallback protocol: the pool has no known factory
+    expect(swap).toMatchObject({ protocol: 'uniswap_v3', tokenIn: WETH, tokenOut: USDC, amountIn: (10n ** 18n).toString(), amountOut: '2500' });
+  });
+
+  it('resolves Uniswap V4 currencies from the PositionManager pool key', async () => {
+    const [swap] = await decodeSwaps([log(
+      POOL_MANAGER,
+      encodeEventTopics({ abi: V4_ABI, eventName: 'Swap', args: { id: V4_POOL_ID, sender: ROUTER } }),
+      encodeAbiParameters(parseAbiParameters('int128, int128, uint160, uint128, int24, uint24'), [-(10n ** 18n), 2900n, 1n, 1n, 0, 500]),
+      4
+    )]);
+
+    expect(swap).toMatchObject({
+      pool: V4_POOL_ID,
+      protocol: 'uniswap_v4',
+      tokenIn: NATIVE,
+      tokenOut: USDC,
+      amountIn: (10n ** 18n).toString(),
+      amountOut: '2900',
+      sender: ROUTER,
+    });
+  });
+
+  it('keeps placeholders for a Uniswap V4 pool the PositionManager does not know', async () => {
+    const unknownId = keccak256(toHex('unknown pool'));
+    const [swap] = await decodeSwaps([log(
+      POOL_MANAGER,
+      encodeEventTopics({ abi: V4_ABI, eventName: 'Swap', args: { id: unknownId, sender: ROUTER } }),
+      encodeAbiParameters(parseAbiParameters('int128, int128, uint160, uint128, int24, uint24'), [5n, -7n, 1n, 1n, 0, 500]),
+      4
+    )]);
+
+    expect(swap).toMatchObject({ tokenIn: `${unknownId}:currency1`, tokenOut: `${unknownId}:currency0`, amountIn: '7', amountOut: '5' });
+  });
+
+  it('decodes a Curve TokenExchange with the pool coins', async () => {
+    const [swap] = await decodeSwaps([log(
+      CURVE_POOL,
+      encodeEventTopics({ abi: CURVE_ABI, eventName: 'TokenExchange', args: { buyer: TRADER } }),
+      encodeAbiParameters(parseAbiParameters('int128, uint256, int128, uint256'), [0n, 500n, 1n, 499n]),
+      5
+    )]);
+
+    expect(swap).toMatchObject({ protocol: 'curve', tokenIn: DAI, tokenOut: USDC, amountIn: '500', amountOut: '499', sender: TRADER, recipient: TRADER });
+  });
+
+  it('takes the Balancer trader from the transfers into and out of the Vault', async () => {
+    const poolId = pad(BALANCER_POOL as Hex, { dir: 'right' });
+    const swaps = await decodeSwaps([
+      transfer(DAI, TRADER, VAULT, 500n, 6),
+      log(
+        VAULT,
+        encodeEventTopics({ abi: BALANCER_ABI, eventName: 'Swap', args: { poolId, tokenIn: DAI, tokenOut: WETH } }),
+        encodeAbiParameters(parseAbiParameters('uint256, uint256'), [500n, 3n]),
+        7
+      ),
+      log(
+        VAULT,
+        encodeEventTopics({ abi: BALANCER_ABI, eventName: 'Swap', args: { poolId, tokenIn: WETH, tokenOut: USDC } }),
+        encodeAbiParameters(parseAbiParameters('uint256, uint256'), [3n, 490n]),
+        8
+      ),
+      transfer(USDC, VAULT, ROUTER, 490n, 9),
+    ]);
+
+    expect(swaps.map((s) => [s.pool, s.protocol, s.sender, s.recipient])).toEqual([
+      [BALANCER_POOL, 'balancer_v2', TRADER, ROUTER],
+      [BALANCER_POOL, 'balancer_v2', TRADER, ROUTER],
+    ]);
+  });
+});
@@ -0,0 +1,468 @@
+/**
+ * Decodes DEX Swap events from receipt logs into a protocol-independent Swap model
+ * (Uniswap V2/V3/V4, SushiSwap, Curve, Balancer V2), and attributes each swap to the
+ * call that emitted it and the router / aggregator it went through.
+ *
+ * Swaps come from pool events only. Universal Router and 1inch legs that hit these pools
+ * are decoded with the router attached, but their calldata (commands, minimum outputs,
+ * final recipients) is not, and fills without a pool event (1inch limit orders / RFQ,
+ * Universal Router NFT commands) produce no Swap.
+ */
+import { decodeEventLog, encodeAbiParameters, formatUnits, keccak256, parseAbi, parseAbiParameters, type Abi, type Hex } from 'viem';
+import { getPublicClient, NATIVE_TOKEN_ADDRESS } from '../tools/rpc.js';
+import { correlateLogsToCalls } from '../tools/event-decoder.js';
+import type { CallTrace } from '../tools/tenderly.js';
+import { DEFAULT_CHAIN } from '../config/chains.js';
+import type { Swap, TokenFlow } from '../types/index.js';
+
+export interface RawLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  logIndex?: number | null;
+}
+
+const UNISWAP_V2_SWAP_ABI = parseAbi([
+  'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+]);
+
+const UNISWAP_V3_SWAP_ABI = parseAbi([
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+]);
+
+const CURVE_EXCHANGE_ABI = parseAbi([
+  'event TokenExchange(address indexed buyer, int128 sold_id, uint256 tokens_sold, int128 bought_id, uint256 tokens_bought)',
+  'event TokenExchangeUnderlying(address indexed buyer, int128 sold_id, uint256 tokens_sold, int128 bought_id, uint256 tokens_bought)',
+]);
+
+const CURVE_CRYPTO_EXCHANGE_ABI = parseAbi([
+  'event TokenExchange(address indexed buyer, uint256 sold_id, uint256 tokens_sold, uint256 bought_id, uint256 tokens_bought)',
+]);
+
+const BALANCER_V2_SWAP_ABI = parseAbi([
+  'event Swap(bytes32 indexed poolId, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut)',
+]);
+
+const UNISWAP_V4_SWAP_ABI = parseAbi([
+  'event Swap(bytes32 indexed id, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)',
+]);
+
+const UNISWAP_V4_POSITION_MANAGER_ABI = parseAbi([
+  'function poolKeys(bytes25 poolId) view returns (address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks)',
+]);
+
+const POOL_KEY_PARAMS = parseAbiParameters('address, address, uint24, int24, address');
+
+// Uniswap V4 deployments: the PositionManager stores the PoolKey of pools it has positions in
+const UNISWAP_V4_DEPLOYMENTS: Record<string, { poolManager: string; positionManager: string }> = {
+  ethereum: {
+    poolManager: '0x000000000004444c5dc75cb358380d2e3de08a90',
+    positionManager: '0xbd216513d74c8cf14cf4747e6aaa6420ff64ee9e',
+  },
+};
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const POOL_FACTORY_ABI = parseAbi(['function factory() view returns (address)']);
+
+// V2 / V3 forks share the Uniswap events; the factory tells them apart
+const FACTORY_PROTOCOLS: Record<string, string> = {
+  '0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f': 'uniswap_v2',
+  '0x8909dc15e40173ff4699343b6eb8132c65e18ec6': 'uniswap_v2',
+  '0xc0aee478e3658e2610c5f7a4a2e1777ce9e4f2ac': 'sushiswap',
+  '0xc35dadb65012ec5796536bd9864ed8773abc74c4': 'sushiswap',
+  '0x1f98431c8ad98523631ae4a59f267346ea31f984': 'uniswap_v3',
+  '0x33128a8fc17869897dce68ed026d694621f6fdfd': 'uniswap_v3',
+  '0xbaceb8ec6b9355dfc0269c18bac9d6e2bdc29c4f': 'sushiswap_v3',
+};
+
+// Entry points that route swaps through the pools above
+const SWAP_ROUTERS: Record<string, string> = {
+  '0x7a250d5630b4cf539739df2c5dacb4c659f2488d': 'uniswap_v2_router',
+  '0xe592427a0aece92de3edee1f18e0157c05861564': 'uniswap_v3_router',
+  '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45': 'uniswap_v3_router',
+  '0xef1c6e67703c7bd7107eed8303fbe6ec2554bf6b': 'uniswap_universal_router',
+  '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad': 'uniswap_universal_router',
+  '0x66a9893cc07d91d95644aedd05d03f95e1dba8af': 'uniswap_universal_router',
+  '0xd9e1ce17f2641f24ae83637ab66a2cca9c378b9f': 'sushiswap_router',
+  '0x1111111254fb6c44bac0bed2854e76f90643097d': '1inch',
+  '0x1111111254eeb25477b68fb85ed929f73a960582': '1inch',
+  '0x111111125421ca6dc452d289314280a0f8842a65': '1inch',
+};
+
+export function isSwapRouter(address: string | null | undefined): boolean {
+  return !!address && address.toLowerCase() in SWAP_ROUTERS;
+}
+
+const CURVE_COINS_ABI = parseAbi([
+  'function coins(uint256) view returns (address)',
+  'function underlying_coins(uint256) view returns (address)',
+]);
+
+const CURVE_COINS_LEGACY_ABI = parseAbi([
+  'function coins(int128) view returns (address)',
+  'function underlying_coins(int128) view returns (address)',
+]);
+
+const POOL_TOKENS_ABI = parseAbi([
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+]);
+
+const POOL_TOKENS_CACHE = new Map<string, Promise<[string, string] | null>>();
+
+async function fetchPoolTokens(pool: string, chain: string): Promise<[string, string] | null> {
+  try {
+    const client = getPublicClient(chain);
+    const [token0, token1] = await Promise.all([
+      client.readContract({ address: pool as Hex, abi: POOL_TOKENS_ABI, functionName: 'token0' }),
+      client.readContract({ address: pool as Hex, abi: POOL_TOKENS_ABI, functionName: 'token1' }),
+    ]);
+    return [token0.toLowerCase(), token1.toLowerCase()];
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * token0/token1 of a Uniswap-style pool (cached, pool tokens are immutable)
+ */
+export function getPoolTokens(pool: string, chain: string = DEFAULT_CHAIN): Promise<[string, string] | null> {
+  const key = `${chain}:${pool.toLowerCase()}`;
+  let pending = POOL_TOKENS_CACHE.get(key);
+  if (!pending) {
+    pending = fetchPoolTokens(pool.toLowerCase(), chain);
+    POOL_TOKENS_CACHE.set(key, pending);
+  }
+  return pending;
+}
+
+const POOL_FACTORY_CACHE = new Map<string, Promise<string | null>>();
+
+/**
+ * Protocol of a Uniswap-style pool from its factory; unknown factories keep `fallback`
+ */
+async function getPoolProtocol(pool: string, fallback: string, chain: string): Promise<string> {
+  const key = `${chain}:${pool}`;
+  let pending = POOL_FACTORY_CACHE.get(key);
+  if (!pending) {
+    pending = getPublicClient(chain)
+      .readContract({ address: pool as Hex, abi: POOL_FACTORY_ABI, functionName: 'factory' })
+      .then((factory) => factory.toLowerCase())
+      .catch(() => null);
+    POOL_FACTORY_CACHE.set(key, pending);
+  }
+  const factory = await pending;
+  return (factory && FACTORY_PROTOCOLS[factory]) ?? fallback;
+}
+
+const V4_POOL_CACHE = new Map<string, Promise<[string, string] | null>>();
+
+const v4Currency = (address: string) => (/^0x0{40}$/.test(address) ? NATIVE_TOKEN_ADDRESS : address.toLowerCase());
+
+async function fetchV4PoolCurrencies(poolManager: string, poolId: string, chain: string): Promise<[string, string] | null> {
+  const deployment = UNISWAP_V4_DEPLOYMENTS[chain];
+  if (deployment?.poolManager !== poolManager) return null;
+
+  // poolKeys is indexed by the first 25 bytes of the id; check the key hashes to the full id
+  const key = await getPublicClient(chain)
+    .readContract({
+      address: deployment.positionManager as Hex,
+      abi: UNISWAP_V4_POSITION_MANAGER_ABI,
+      functionName: 'poolKeys',
+      args: [poolId.slice(0, 52) as Hex],
+    })
+    .catch(() => null);
+  if (!key || keccak256(encodeAbiParameters(POOL_KEY_PARAMS, key)) !== poolId) return null;
+  return [v4Currency(key[0]), v4Currency(key[1])];
+}
+
+/**
+ * currency0/currency1 of a Uniswap V4 pool (native ETH as NATIVE_TOKEN_ADDRESS). V4 pools
+ * have no contract to ask, so this relies on the PositionManager's stored PoolKey; pools it
+ * has never seen get `<pool id>:currency0` / `:currency1` placeholders. Their Initialize log is
+ * not searched: it can be any distance back and most RPCs cap getLogs ranges.
+ */
+async function getV4PoolCurrencies(poolManager: string, poolId: string, chain: string): Promise<[string, string]> {
+  const key = `${chain}:${poolManager}:${poolId}`;
+  let pending = V4_POOL_CACHE.get(key);
+  if (!pending) {
+    pending = fetchV4PoolCurrencies(poolManager, poolId, chain);
+    V4_POOL_CACHE.set(key, pending);
+  }
+  return (await pending) ?? [`${poolId}:currency0`, `${poolId}:currency1`];
+}
+
+export const CURVE_COIN_CACHE = new Map<string, Promise<string | null>>();
+
+async function fetchCurveCoin(
+  pool: string,
+  index: bigint,
+  fn: 'coins' | 'underlying_coins',
+  chain: string
+): Promise<string | null> {
+  // Older Curve pools index coins with int128, newer ones with uint256.
+  for (const abi of [CURVE_COINS_ABI, CURVE_COINS_LEGACY_ABI]) {
+    try {
+      const coin = await getPublicClient(chain).readContract({
+        address: pool as Hex,
+        abi,
+        functionName: fn,
+        args: [index],
+      });
+      return (coin as string).toLowerCase();
+    } catch {
+      continue;
+    }
+  }
+  return null;
+}
+
+function getCurveCoin(pool: string, index: bigint, underlying: boolean, chain: string): Promise<string | null> {
+  const fn = underlying ? 'underlying_coins' : 'coins';
+  const key = `${chain}:${pool.toLowerCase()}:${fn}:${index}`;
+  let pending = CURVE_COIN_CACHE.get(key);
+  if (!pending) {
+    pending = fetchCurveCoin(pool.toLowerCase(), index, fn, chain);
+    CURVE_COIN_CACHE.set(key, pending);
+  }
+  return pending;
+}
+
+export function tryDecodeEvent(abi: Abi, log: RawLog): { eventName: string; args: Record<string, any> } | null {
+  try {
+    const decoded = decodeEventLog({
+      abi,
+      data: log.data as Hex,
+      topics: log.topics as [Hex, ...Hex[]],
+      strict: true,
+    }) as { eventName: string; args: unknown };
+    return { eventName: decoded.eventName, args: decoded.args as Record<string, any> };
+  } catch {
+    return null;
+  }
+}
+
+async function decodeUniswapV2Swap(log: RawLog, logIndex: number, chain: string): Promise<Swap | null> {
+  const decoded = tryDecodeEvent(UNISWAP_V2_SWAP_ABI, log);
+  if (!decoded) return null;
+  const tokens = await getPoolTokens(log.address, chain);
+  if (!tokens) return null;
+
+  const { sender, amount0In, amount1In, amount0Out, amount1Out, to } = decoded.args;
+  const zeroForOne = amount0In > 0n && amount1Out > 0n;
+  return {
+    pool: log.address.toLowerCase(),
+    protocol: await getPoolProtocol(log.address.toLowerCase(), 'uniswap_v2', chain),
+    tokenIn: zeroForOne ? tokens[0] : tokens[1],
+    tokenOut: zeroForOne ? tokens[1] : tokens[0],
+    amountIn: (zeroForOne ? amount0In : amount1In).toString(),
+    amountOut: (zeroForOne ? amount1Out : amount0Out).toString(),
+    sender: sender.toLowerCase(),
+    recipient: to.toLowerCase(),
+    logIndex,
+  };
+}
+
+async function decodeUniswapV3Swap(log: RawLog, logIndex: number, chain: string): Promise<Swap | null> {
+  const decoded = tryDecodeEvent(UNISWAP_V3_SWAP_ABI, log);
+  if (!decoded) return null;
+  const tokens = await getPoolTokens(log.address, chain);
+  if (!tokens) return null;
+
+  // Signed deltas from the pool's perspective: positive = paid into the pool.
+  const { sender, recipient, amount0, amount1 } = decoded.args as { sender: string; recipient: string; amount0: bigint; amount1: bigint };
+  const zeroForOne = amount0 > 0n;
+  return {
+    pool: log.address.toLowerCase(),
+    protocol: await getPoolProtocol(log.address.toLowerCase(), 'uniswap_v3', chain),
+    tokenIn: zeroForOne ? tokens[0] : tokens[1],
+    tokenOut: zeroForOne ? tokens[1] : tokens[0],
+    amountIn: (zeroForOne ? amount0 : amount1).toString(),
+    amountOut: (zeroForOne ? -amount1 : -amount0).toString(),
+    sender: sender.toLowerCase(),
+    recipient: recipient.toLowerCase(),
+    logIndex,
+  };
+}
+
+async function decodeCurveExchange(log: RawLog, logIndex: number, chain: string): Promise<Swap | null> {
+  const decoded = tryDecodeEvent(CURVE_EXCHANGE_ABI, log) ?? tryDecodeEvent(CURVE_CRYPTO_EXCHANGE_ABI, log);
+  if (!decoded) return null;
+
+  const { buyer, sold_id, tokens_sold, bought_id, tokens_bought } = decoded.args;
+  const underlying = decoded.eventName === 'TokenExchangeUnderlying';
+  const [tokenIn, tokenOut] = await Promise.all([
+    getCurveCoin(log.address, BigInt(sold_id), underlying, chain),
+    getCurveCoin(log.address, BigInt(bought_id), underlying, chain),
+  ]);
+  if (!tokenIn || !tokenOut) return null;
+
+  return {
+    pool: log.address.toLowerCase(),
+    protocol: 'curve',
+    tokenIn,
+    tokenOut,
+    amountIn: tokens_sold.toString(),
+    amountOut: tokens_bought.toString(),
+    sender: buyer.toLowerCase(),
+    recipient: buyer.toLowerCase(),
+    logIndex,
+  };
+}
+
+function decodeBalancerV2Swap(log: RawLog, logIndex: number): Swap | null {
+  const decoded = tryDecodeEvent(BALANCER_V2_SWAP_ABI, log);
+  if (!decoded) return null;
+
+  const { poolId, tokenIn, tokenOut, amountIn, amountOut } = decoded.args;
+  // The Vault emits the swap; the pool address is the first 20 bytes of the poolId
+  // and the trader is not part of the event (see attributeBalancerTraders).
+  return {
+    pool: (poolId as string).slice(0, 42).toLowerCase(),
+    protocol: 'balancer_v2',
+    tokenIn: tokenIn.toLowerCase(),
+    tokenOut: tokenOut.toLowerCase(),
+    amountIn: amountIn.toString(),
+    amountOut: amountOut.toString(),
+    sender: log.address.toLowerCase(),
+    recipient: log.address.toLowerCase(),
+    logIndex,
+  };
+}
+
+async function decodeUniswapV4Swap(log: RawLog, logIndex: number, chain: string): Promise<Swap | null> {
+  const decoded = tryDecodeEvent(UNISWAP_V4_SWAP_ABI, log);
+  if (!decoded) return null;
+  const poolManager = log.address.toLowerCase();
+  const { id, sender, amount0, amount1 } = decoded.args as { id: string; sender: string; amount0: bigint; amount1: bigint };
+  const currencies = await getV4PoolCurrencies(poolManager, id.toLowerCase(), chain);
+
+  // Deltas from the swapper's perspective: negative = paid into the pool
+  const zeroForOne = amount0 < 0n;
+  return {
+    pool: id.toLowerCase(),
+    protocol: 'uniswap_v4',
+    tokenIn: zeroForOne ? currencies[0] : currencies[1],
+    tokenOut: zeroForOne ? currencies[1] : currencies[0],
+    amountIn: (zeroForOne ? -amount0 : -amount1).toString(),
+    amountOut: (zeroForOne ? amount1 : amount0).toString(),
+    // The event only names the caller of the PoolManager (usually a router)
+    sender: sender.toLowerCase(),
+    recipient: sender.toLowerCase(),
+    logIndex,
+  };
+}
+
+async function decodeSwap(log: RawLog, logIndex: number, chain: string): Promise<Swap | null> {
+  return (
+    (await decodeUniswapV2Swap(log, logIndex, chain)) ??
+    (await decodeUniswapV3Swap(log, logIndex, chain)) ??
+    (await decodeUniswapV4Swap(log, logIndex, chain)) ??
+    (await decodeCurveExchange(log, logIndex, chain)) ??
+    decodeBalancerV2Swap(log, logIndex)
+  );
+}
+
+/**
+ * Replace the Vault as sender / recipient of Balancer swaps with the accounts that paid the
+ * input into the Vault and received the output from it (matched by token and amount). Hops
+ * of a batch swap settle inside the Vault, so unmatched legs take the batch's trader.
+ */
+function attributeBalancerTraders(swaps: Swap[], logs: readonly RawLog[]): Swap[] {
+  // As decoded, both point at the Vault that emitted the event
+  const vault = (s: Swap) => (s.protocol === 'balancer_v2' ? s.sender : null);
+  const vaults = new Set(swaps.map(vault).filter((v): v is string => v !== null));
+  if (vaults.size === 0) return swaps;
+
+  const transfers = logs
+    .filter((log) => log.topics[0]?.toLowerCase() === TRANSFER_TOPIC && log.topics.length === 3)
+    .map((log) => ({
+      token: log.address.toLowerCase(),
+      from: `0x${log.topics[1]!.slice(26)}`.toLowerCase(),
+      to: `0x${log.topics[2]!.slice(26)}`.toLowerCase(),
+      amount: log.data && log.data !== '0x' ? BigInt(log.data.slice(0, 66)).toString() : '0',
+    }));
+  const paidIn = (s: Swap, v: string) => transfers.find((t) => t.to === v && t.token === s.tokenIn && t.amount === s.amountIn)?.from;
+  const paidOut = (s: Swap, v: string) => transfers.find((t) => t.from === v && t.token === s.tokenOut && t.amount === s.amountOut)?.to;
+
+  const senders = swaps.map((s) => { const v = vault(s); return v ? paidIn(s, v) : undefined; });
+  const recipients = swaps.map((s) => { const v = vault(s); return v ? paidOut(s, v) : undefined; });
+  const trader = senders.find(Boolean);
+  const receiver = recipients.find(Boolean);
+
+  return swaps.map((s, i) => {
+    const v = vault(s);
+    if (!v) return s;
+    return { ...s, sender: senders[i] ?? trader ?? v, recipient: recipients[i] ?? receiver ?? v };
+  });
+}
+
+/**
+ * Decode all recognised Swap events (Uniswap V2/V3/V4 and forks, Curve, Balancer V2) in log order
+ */
+export async function decodeSwaps(logs: readonly RawLog[], chain: string = DEFAULT_CHAIN): Promise<Swap[]> {
+  const decoded = await Promise.all(
+    logs.map((log, i) => decodeSwap(log, log.logIndex ?? i, chain))
+  );
+  return attributeBalancerTraders(decoded.filter((s): s is Swap => s !== null), logs);
+}
+
+/**
+ * Set each swap's `callIndex` (the frame that emitted its event) and `router` (the
+ * outermost known router / aggregator frame above it). Without a trace the router is
+ * the tx's `to` when it is a known router.
+ */
+export function attributeSwaps(
+  swaps: Swap[],
+  logs: readonly RawLog[],
+  root?: CallTrace | null,
+  txTo?: string | null
+): Swap[] {
+  const entryRouter = txTo ? SWAP_ROUTERS[txTo.toLowerCase()] : undefined;
+  if (!root) return swaps.map((swap) => (entryRouter ? { ...swap, router: entryRouter } : swap));
+
+  // Outermost router above every frame, in flattenedCalls (depth-first) order
+  const routers: Array<string | undefined> = [];
+  const walk = (call: CallTrace, router: string | undefined) => {
+    const own = router ?? SWAP_ROUTERS[call.to?.toLowerCase() ?? ''];
+    routers.push(own);
+    for (const sub of call.calls ?? []) walk(sub, own);
+  };
+  walk(root, undefined);
+
+  const callIndexes = correlateLogsToCalls(root, logs.map((log) => ({ ...log, topics: [...log.topics] })));
+  const callByLog = new Map(logs.map((log, i) => [log.logIndex ?? i, callIndexes[i]]));
+  return swaps.map((swap) => {
+    const callIndex = callByLog.get(swap.logIndex);
+    const router = callIndex !== undefined ? routers[callIndex] : entryRouter;
+    return {
+      ...swap,
+      ...(callIndex !== undefined ? { callIndex } : {}),
+      ...(router ? { router } : {}),
+    };
+  });
+}
+
+/**
+ * Prompt lines for swaps, e.g. "1.5 WETH → 3000 USDC on uniswap_v3 0x88e6a0c2dd... (call #4, via 1inch)".
+ * Symbols and decimals come from the (enriched) token flows.
+ */
+export function describeSwaps(swaps: Swap[], tokenFlows: TokenFlow[], nativeSymbol = 'ETH'): string[] {
+  const tokens = new Map<string, { symbol?: string; decimals?: string }>();
+  for (const f of tokenFlows) {
+    if (f.symbol && !tokens.has(f.token.toLowerCase())) tokens.set(f.token.toLowerCase(), { symbol: f.symbol, decimals: f.decimals });
+  }
+  const amount = (token: string, raw: string) => {
+    const info = token === NATIVE_TOKEN_ADDRESS ? { symbol: nativeSymbol, decimals: '18' } : tokens.get(token);
+    if (!info?.decimals) return `${raw} (raw) ${info?.symbol ?? `${token.slice(0, 10)}...`}`;
+    return `${formatUnits(BigInt(raw), Number(info.decimals))} ${info.symbol}`;
+  };
+  return swaps.map((s) => {
+    const where = [
+      s.callIndex !== undefined ? `call #${s.callIndex + 1}` : null,
+      s.router ? `via ${s.router}` : null,
+    ].filter(Boolean);
+    return `${amount(s.tokenIn, s.amountIn)} → ${amount(s.tokenOut, s.amountOut)} on ${s.protocol} ${s.pool.slice(0, 12)}... (sender ${s.sender}, recipient ${s.recipient}${where.length ? `, ${where.join(', ')}` : ''})`;
+  });
+}
@@ -0,0 +1,301 @@
+/**
+ * Local Anvil / Hardhat fork as a simulation backend (SIMULATION_BACKEND=anvil).
+ *
+ * Historical transactions are replayed on a fork at `blockNumber - 1`: the fork is reset,
+ * automine is switched off, the preceding transactions of the block and the target are sent
+ * (impersonated senders) and mined together as one block with the original timestamp, then
+ * the target is traced. Anvil should run with `--order fifo` so the block keeps the send
+ * order. Counterfactual replays can leave preceding transactions out, land the transaction
+ * in another block or override state first.
+ * Results use the TenderlySimulationResult shape.
+ */
+import { zeroAddress, type Hash, type PublicClient, type Transaction as ViemTransaction } from 'viem';
+import { config } from '../config/index.js';
+import { DEFAULT_CHAIN, getChainConfig } from '../config/chains.js';
+import { getPublicClient } from './rpc.js';
+import { DEFAULT_ANVIL_RPC_URL, fetchCallTracerRoot, getTraceClient } from './trace-provider.js';
+import type {
+  TenderlySimulationParams,
+  TenderlySimulationResult,
+  BalanceChange,
+  StateChange,
+  NonceChange,
+  ReplayOverrides,
+  StateOverride,
+} from './tenderly.js';
+
+export interface AnvilReplayOptions extends ReplayOverrides {
+  chain?: string;
+  /** Replay the transactions that precede the target in its block (default: true) */
+  replayPrecedingTxs?: boolean;
+}
+
+interface PrestateAccount {
+  balance?: string;
+  nonce?: number;
+  code?: string;
+  storage?: Record<string, string>;
+}
+
+interface PrestateDiff {
+  pre: Record<string, PrestateAccount>;
+  post: Record<string, PrestateAccount>;
+}
+
+const ZERO_WORD = `0x${'0'.repeat(64)}`;
+
+function getAnvilClient(chain: string): PublicClient {
+  return getTraceClient(chain, config.anvilRpcUrl || DEFAULT_ANVIL_RPC_URL);
+}
+
+async function anvilRequest<T = unknown>(client: PublicClient, method: string, params: unknown[] = []): Promise<T> {
+  return (await client.request({ method: method as any, params: params as any })) as T;
+}
+
+const toHex = (value: bigint | number) => `0x${value.toString(16)}`;
+
+async function resetFork(client: PublicClient, chain: string, blockNumber?: bigint): Promise<void> {
+  await anvilRequest(client, 'anvil_reset', [{
+    forking: {
+      jsonRpcUrl: getChainConfig(chain).rpcUrl,
+      ...(blockNumber !== undefined ? { blockNumber: Number(blockNumber) } : {}),
+    },
+  }]);
+  await anvilRequest(client, 'anvil_autoImpersonateAccount', [true]);
+}
+
+async function applyStateOverrides(client: PublicClient, overrides: Record<string, StateOverride> = {}): Promise<void> {
+  for (const [address, override] of Object.entries(overrides)) {
+    if (override.balance) await anvilRequest(client, 'anvil_setBalance', [address, override.balance]);
+    if (override.nonce) await anvilRequest(client, 'anvil_setNonce', [address, override.nonce]);
+    if (override.code) await anvilRequest(client, 'anvil_setCode', [address, override.code]);
+    for (const [slot, value] of Object.entries(override.stateDiff ?? {})) {
+      await anvilRequest(client, 'anvil_setStorageAt', [address, slot, value]);
+    }
+  }
+}
+
+/**
+ * Send parameters of a mined tx. The nonce is dropped when the sender's earlier txs may
+ * have been left out or the tx lands in another block (Anvil fills in the current one).
+ */
+function toSendParams(tx: ViemTransaction, keepNonce = true): Record<string, unknown> {
+  const params: Record<string, unknown> = {
+    from: tx.from,
+    to: tx.to ?? undefined,
+    gas: toHex(tx.gas),
+    value: toHex(tx.value),
+    input: tx.input,
+    ...(keepNonce ? { nonce: toHex(tx.nonce) } : {}),
+  };
+  if (tx.maxFeePerGas !== undefined && tx.maxFeePerGas !== null) {
+    params.maxFeePerGas = toHex(tx.maxFeePerGas);
+    params.maxPriorityFeePerGas = toHex(tx.maxPriorityFeePerGas ?? 0n);
+  } else if (tx.gasPrice !== undefined && tx.gasPrice !== null) {
+    params.gasPrice = toHex(tx.gasPrice);
+  }
+  if ('accessList' in tx && tx.accessList?.length) {
+    params.accessList = tx.accessList;
+  }
+  return params;
+}
+
+async function fetchStateDiff(client: PublicClient, txHash: string): Promise<PrestateDiff | null> {
+  try {
+    return await anvilRequest<PrestateDiff>(client, 'debug_traceTransaction', [
+      txHash,
+      { tracer: 'prestateTracer', tracerConfig: { diffMode: true } },
+    ]);
+  } catch (error) {
+    console.log(`   ⚠️  [Anvil] prestateTracer unavailable: ${error}`);
+    return null;
+  }
+}
+
+/**
+ * Convert a prestateTracer diff into Tenderly-style balance / storage / nonce changes.
+ * In diff mode `pre` only holds modified fields, and storage slots reset to zero are
+ * omitted from `post`.
+ */
+export function stateDiffToChanges(diff: PrestateDiff): {
+  balanceChanges: BalanceChange[];
+  stateChanges: StateChange[];
+  nonceChange: NonceChange[];
+} {
+  const balanceChanges: BalanceChange[] = [];
+  const stateChanges: StateChange[] = [];
+  const nonceChange: NonceChange[] = [];
+  const addresses = new Set([...Object.keys(diff.pre ?? {}), ...Object.keys(diff.post ?? {})]);
+
+  for (const address of addresses) {
+    const pre = diff.pre?.[address] ?? {};
+    // Accounts missing from `post` were self-destructed
+    const post = diff.post?.[address] ?? { balance: '0x0', nonce: 0 };
+
+    if (post.balance !== undefined && post.balance !== pre.balance) {
+      const original = pre.balance ?? '0x0';
+      balanceChanges.push({
+        address: address.toLowerCase(),
+        original,
+        dirty: post.balance,
+        delta: (BigInt(post.balance) - BigInt(original)).toString(),
+      });
+    }
+
+    if (post.nonce !== undefined && post.nonce !== pre.nonce) {
+      nonceChange.push({
+        address: address.toLowerCase(),
+        original: String(pre.nonce ?? 0),
+        dirty: String(post.nonce),
+      });
+    }
+
+    const slots = new Set([...Object.keys(pre.storage ?? {}), ...Object.keys(post.storage ?? {})]);
+    for (const slot of slots) {
+      const original = pre.storage?.[slot] ?? ZERO_WORD;
+      const dirty = post.storage?.[slot] ?? ZERO_WORD;
+      if (original === dirty) continue;
+      stateChanges.push({ address: address.toLowerCase(), slot, original, dirty });
+    }
+  }
+
+  return { balanceChanges, stateChanges, nonceChange };
+}
+
+async function collectResult(client: PublicClient, txHash: string): Promise<TenderlySimulationResult> {
+  const receipt = await client.getTransactionReceipt({ hash: txHash as Hash });
+  const [root, diff] = await Promise.all([
+    fetchCallTracerRoot(client, txHash),
+    fetchStateDiff(client, txHash),
+  ]);
+  const changes = diff ? stateDiffToChanges(diff) : null;
+
+  return {
+    gasUsed: toHex(receipt.gasUsed),
+    gasPrice: toHex(receipt.effectiveGasPrice),
+    status: receipt.status === 'success',
+    trace: root ? [root] : [],
+    logs: receipt.logs.map((log) => ({
+      address: log.address,
+      topics: [...log.topics],
+      data: log.data,
+    })),
+    balanceChanges: changes?.balanceChanges,
+    stateChanges: changes?.stateChanges,
+    nonceChange: changes?.nonceChange,
+  };
+}
+
+/**
+ * Replay a historical transaction on the local fork, optionally with counterfactual changes
+ */
+export async function anvilSimulateTransaction(
+  txHash: string,
+  options: AnvilReplayOptions = {}
+): Promise<TenderlySimulationResult | null> {
+  const chain = options.chain ?? DEFAULT_CHAIN;
+  const anvil = getAnvilClient(chain);
+
+  try {
+    console.log(`   🎭 [Anvil] Replaying transaction ${txHash.slice(0, 10)}...`);
+    const upstream = getPublicClient(chain);
+    const tx = await upstream.getTransaction({ hash: txHash as Hash });
+    if (tx.blockNumber === null || tx.transactionIndex === null) {
+      throw new Error(`Transaction ${txHash} is not mined`);
+    }
+    // Another landing block: the tx goes first, on top of the previous block's state
+    const landing = options.blockNumber !== undefined ? BigInt(options.blockNumber) : tx.blockNumber;
+    const block = await upstream.getBlock({ blockNumber: landing, includeTransactions: true });
+    const blockOverrides = options.blockOverrides ?? {};
+
+    await resetFork(anvil, chain, landing - 1n);
+    await anvilRequest(anvil, 'anvil_setCoinbase', [blockOverrides.coinbase ?? block.miner]);
+    await anvilRequest(anvil, 'evm_setNextBlockTimestamp', [blockOverrides.time ?? toHex(block.timestamp)]);
+
+    const baseFee = blockOverrides.baseFee ?? (block.baseFeePerGas !== null ? toHex(block.baseFeePerGas) : null);
+    if (baseFee !== null) await anvilRequest(anvil, 'anvil_setNextBlockBaseFeePerGas', [baseFee]);
+    // Overrides apply to the parent state, before any tx of the landing block
+    await applyStateOverrides(anvil, options.stateOverrides);
+
+    // Queue everything and mine a single block, so the target runs at `landing` with its
+    // timestamp and base fee instead of one local block per replayed tx.
+    await anvilRequest(anvil, 'evm_setAutomine', [false]);
+    const excluded = new Set((options.excludeTxs ?? []).map((h) => h.toLowerCase()));
+    const preceding = options.replayPrecedingTxs === false || landing !== tx.blockNumber
+      ? []
+      : block.transactions.slice(0, tx.transactionIndex).filter((t) => !excluded.has(t.hash.toLowerCase()));
+    const excludedSenders = new Set(
+      block.transactions.filter((t) => excluded.has(t.hash.toLowerCase())).map((t) => t.from.toLowerCase())
+    );
+    let skipped = 0;
+    for (const prior of preceding) {
+      try {
+        await anvilRequest(anvil, 'eth_sendTransaction', [toSendParams(prior, !excludedSenders.has(prior.from.toLowerCase()))]);
+      } catch {
+        skipped++;
+      }
+    }
+    if (preceding.length > 0 || excluded.size > 0) {
+      console.log(`      Replayed ${preceding.length - skipped}/${preceding.length} preceding txs (${excluded.size} left out)`);
+    }
+
+    const counterfactual = landing !== tx.blockNumber || excludedSenders.has(tx.from.toLowerCase()) ||
+      Boolean(options.stateOverrides?.[tx.from]?.nonce ?? options.stateOverrides?.[tx.from.toLowerCase()]?.nonce);
+    const localHash = await anvilRequest<string>(anvil, 'eth_sendTransaction', [toSendParams(tx, !counterfactual)]);
+    await anvilRequest(anvil, 'evm_mine');
+    const result = await collectResult(anvil, localHash);
+
+    console.log(`   ✅ [Anvil] Replay completed`);
+    console.log(`      Gas Used: ${result.gasUsed} (original tx: 0x${tx.gas.toString(16)} limit)`);
+    console.log(`      Status: ${result.status ? 'Success' : 'Failed'}`);
+    console.log(`      Logs: ${result.logs.length}`);
+    console.log(`      Balance Changes: ${result.balanceChanges?.length ?? 0}`);
+    return result;
+  } catch (error) {
+    console.error('   ❌ [Anvil] Replay failed:', error);
+    return null;
+  } finally {
+    await anvilRequest(anvil, 'evm_setAutomine', [true]).catch(() => undefined);
+  }
+}
+
+/**
+ * Simulate an arbitrary transaction on the local fork with optional state / block overrides
+ */
+export async function anvilSimulateNewTransaction(
+  params: TenderlySimulationParams,
+  chain: string = DEFAULT_CHAIN
+): Promise<TenderlySimulationResult | null> {
+  const anvil = getAnvilClient(chain);
+
+  try {
+    console.log(`   🎭 [Anvil] Simulating new transaction to ${params.to.slice(0, 10)}...`);
+    const blockNumber = params.blockNumber && params.blockNumber !== 'latest'
+      ? BigInt(params.blockNumber)
+      : undefined;
+    await resetFork(anvil, chain, blockNumber);
+
+    await applyStateOverrides(anvil, params.stateOverrides);
+
+    const blockOverrides = params.blockOverrides;
+    if (blockOverrides?.time) await anvilRequest(anvil, 'evm_setNextBlockTimestamp', [blockOverrides.time]);
+    if (blockOverrides?.coinbase) await anvilRequest(anvil, 'anvil_setCoinbase', [blockOverrides.coinbase]);
+    if (blockOverrides?.baseFee) await anvilRequest(anvil, 'anvil_setNextBlockBaseFeePerGas', [blockOverrides.baseFee]);
+
+    const localHash = await anvilRequest<string>(anvil, 'eth_sendTransaction', [{
+      from: params.from ?? zeroAddress,
+      to: params.to,
+      gas: params.gas,
+      gasPrice: params.gasPrice,
+      value: params.value,
+      input: params.input,
+    }]);
+    const result = await collectResult(anvil, localHash);
+
+    console.log(`   ✅ [Anvil] Simulation completed`);
+    return result;
+  } catch (error) {
+    console.error('   ❌ [Anvil] Simulation failed:', error);
+    return null;
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Decode trace call input / output with a contract ABI, falling back to the
+ * kecc4k256 selector DB signature (inputs only, parameter names unknown).
+ */
+import {
+  decodeFunctionData,
+  decodeFunctionResult,
+  parseAbiItem,
+  toFunctionSelector,
+  toFunctionSignature,
+  type AbiFunction,
+  type AbiParameter,
+  type Hex,
+} from 'viem';
+import { getContractMetadata } from './contract-metadata.js';
+import { decodeCalldata } from './rpc.js';
+import type { CallTrace } from './tenderly.js';
+import type { DecodedParam, DecodedTraceCall } from '../types/index.js';
+
+/**
+ * JSON-safe copy of a decoded value (bigints become decimal strings)
+ */
+export function toJsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') return value.toString();
+  if (Array.isArray(value)) return value.map(toJsonValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toJsonValue(v)]));
+  }
+  return value;
+}
+
+function toParams(params: readonly AbiParameter[], values: readonly unknown[]): DecodedParam[] {
+  return params.map((param, i) => ({
+    name: param.name || `arg${i}`,
+    type: param.type,
+    value: toJsonValue(values[i]),
+  }));
+}
+
+function findFunction(abi: any[], selector: string): AbiFunction | undefined {
+  return abi.find((entry) => {
+    if (entry?.type !== 'function') return false;
+    try {
+      return toFunctionSelector(entry as AbiFunction) === selector;
+    } catch {
+      return false;
+    }
+  });
+}
+
+function decodeWith(fn: AbiFunction, input: Hex, output: string | undefined): Omit<DecodedTraceCall, 'source'> {
+  const decoded: Omit<DecodedTraceCall, 'source'> = {
+    functionName: fn.name,
+    signature: toFunctionSignature(fn),
+  };
+
+  try {
+    const { args } = decodeFunctionData({ abi: [fn], data: input });
+    decoded.inputs = toParams(fn.inputs, args ?? []);
+  } catch {
+    // Selector matched but the calldata does not fit (collision or malformed input)
+  }
+
+  if (output && output !== '0x' && fn.outputs.length > 0) {
+    try {
+      const result = decodeFunctionResult({ abi: [fn], functionName: fn.name, data: output as Hex });
+      decoded.outputs = toParams(fn.outputs, fn.outputs.length === 1 ? [result] : (result as readonly unknown[]));
+    } catch {
+      // Reverted calls return error data instead of the declared outputs
+    }
+  }
+
+  return decoded;
+}
+
+/**
+ * Decode one call. `abi` is the callee's ABI (for proxies: implementation ABI first).
+ * Returns null when the call has no calldata or the selector is unknown.
+ */
+export function decodeTraceCall(
+  call: { input?: string; output?: string },
+  abi?: any[] | null
+): DecodedTraceCall | null {
+  const input = call.input?.toLowerCase();
+  if (!input || input.length < 10) return null;
+  const selector = input.slice(0, 10);
+
+  const fromAbi = abi?.length ? findFunction(abi, selector) : undefined;
+  if (fromAbi) {
+    return { ...decodeWith(fromAbi, input as Hex, call.output), source: 'abi' };
+  }
+
+  const signature = decodeCalldata(input).functionSignature;
+  if (!signature) return null;
+  try {
+    const fn = parseAbiItem(`function ${signature}`) as AbiFunction;
+    // Selector DB signatures carry no return types
+    return { ...decodeWith(fn, input as Hex, undefined), source: 'selector_db' };
+  } catch {
+    return { functionName: signature.split('(')[0]!, signature, source: 'selector_db' };
+  }
+}
+
+/**
+ * Annotate a call tree in place with the Tenderly-style decoded fields
+ * (function, functionSignature, decodedInput, decodedOutput)
+ */
+export function annotateCallTrace(
+  call: CallTrace,
+  abiFor: (address: string) => any[] | null | undefined
+): void {
+  const decoded = decodeTraceCall(call, call.to ? abiFor(call.to.toLowerCase()) : null);
+  if (decoded) {
+    call.function = decoded.functionName;
+    call.functionSignature = decoded.signature;
+    call.decodedInput = decoded.inputs;
+    call.decodedOutput = decoded.outputs;
+  }
+  for (const sub of call.calls ?? []) annotateCallTrace(sub, abiFor);
+}
+
+/**
+ * Decoding ABIs of the contracts called in a trace (first `limit` distinct targets with calldata)
+ */
+export async function fetchCallTargetAbis(
+  calls: CallTrace[],
+  chain: string,
+  blockNumber?: number,
+  limit = 20
+): Promise<Map<string, any[] | null>> {
+  const targets = [
+    ...new Set(calls.filter((c) => c.to && c.input && c.input.length >= 10).map((c) => c.to.toLowerCase())),
+  ].slice(0, limit);
+  const abis = new Map<string, any[] | null>();
+  for (const address of targets) {
+    try {
+      abis.set(address, (await getContractMetadata(address, chain, blockNumber)).decodingAbi);
+    } catch {
+      abis.set(address, null);
+    }
+  }
+  return abis;
+}
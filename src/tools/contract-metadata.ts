@@ -0,0 +1,227 @@
+/**
+ * Contract metadata (verified ABI / source) with a persistent per-address cache, plus
+ * proxy resolution (EIP-1967, EIP-1967 beacon, EIP-1822 UUPS, Gnosis Safe) so calls to
+ * a proxy are decoded with its implementation's ABI.
+ */
+import type Database from 'better-sqlite3';
+import path from 'path';
+import { parseAbi, type Hex } from 'viem';
+import { config } from '../config/index.js';
+import { DEFAULT_CHAIN } from '../config/chains.js';
+import { getContractABI, getContractSource } from './etherscan.js';
+import { isFixtureSessionActive } from './fixtures.js';
+import { getPublicClient } from './rpc.js';
+import { DATA_DIR, openSqlite } from './sqlite.js';
+import type { ProxyInfo } from '../types/index.js';
+
+export interface ContractMetadata {
+  address: string;
+  abi: any[] | null;
+  source: string | null;
+  proxy: ProxyInfo | null;
+  implementationAbi: any[] | null;
+  implementationSource: string | null;
+  /** ABI to decode calls to this address: implementation ABI followed by the proxy's own ABI */
+  decodingAbi: any[] | null;
+}
+
+interface VerifiedContract {
+  abi: any[] | null;
+  source: string | null;
+}
+
+// Unverified contracts are re-checked after a day, verified ones never change.
+const UNVERIFIED_TTL_SECONDS = 24 * 60 * 60;
+
+const DB_PATH = process.env.CONTRACT_CACHE_DB_PATH || path.join(DATA_DIR, 'contracts.db');
+
+// bytes32(uint256(keccak256('eip1967.proxy.implementation')) - 1)
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+// bytes32(uint256(keccak256('eip1967.proxy.beacon')) - 1)
+const EIP1967_BEACON_SLOT = '0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50';
+// keccak256('PROXIABLE')
+const EIP1822_PROXIABLE_SLOT = '0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7';
+
+const BEACON_ABI = parseAbi(['function implementation() view returns (address)']);
+const SAFE_PROXY_ABI = parseAbi(['function masterCopy() view returns (address)']);
+
+let db: Database.Database | null | undefined;
+
+function getDb(): Database.Database | null {
+  if (db === undefined) {
+    db = openSqlite(DB_PATH, `
+      CREATE TABLE IF NOT EXISTS contracts (
+        chain TEXT NOT NULL,
+        address TEXT NOT NULL,
+        abi TEXT,
+        source TEXT,
+        fetched_at INTEGER DEFAULT (strftime('%s', 'now')),
+        PRIMARY KEY (chain, address)
+      );
+    `, 'Contract metadata cache');
+  }
+  return db;
+}
+
+const MEMORY_CACHE = new Map<string, Promise<VerifiedContract>>();
+
+function readCached(chain: string, address: string): VerifiedContract | null {
+  const row = getDb()
+    ?.prepare('SELECT abi, source, fetched_at FROM contracts WHERE chain = ? AND address = ?')
+    .get(chain, address) as { abi: string | null; source: string | null; fetched_at: number } | undefined;
+  if (!row) return null;
+  const expired = !row.abi && Date.now() / 1000 - row.fetched_at > UNVERIFIED_TTL_SECONDS;
+  if (expired) return null;
+  return { abi: row.abi ? JSON.parse(row.abi) : null, source: row.source };
+}
+
+function writeCached(chain: string, address: string, contract: VerifiedContract): void {
+  getDb()
+    ?.prepare(
+      `INSERT OR REPLACE INTO contracts (chain, address, abi, source, fetched_at)
+       VALUES (?, ?, ?, ?, strftime('%s', 'now'))`
+    )
+    .run(chain, address, contract.abi ? JSON.stringify(contract.abi) : null, contract.source);
+}
+
+async function fetchVerifiedContract(address: string, chain: string): Promise<VerifiedContract> {
+  // Without an API key every lookup misses; do not remember that as "unverified".
+  const usePersistentCache = !isFixtureSessionActive() && Boolean(config.etherscanApiKey);
+  if (usePersistentCache) {
+    const cached = readCached(chain, address);
+    if (cached) return cached;
+  }
+
+  const [abi, source] = await Promise.all([
+    getContractABI(address, chain),
+    getContractSource(address, chain),
+  ]);
+  const contract = { abi: abi && abi.length > 0 ? abi : null, source: source || null };
+  if (usePersistentCache) {
+    try {
+      writeCached(chain, address, contract);
+    } catch (error) {
+      console.warn(`   ⚠️  [Contracts] Failed to cache ${address.slice(0, 10)}...:`, error);
+    }
+  }
+  return contract;
+}
+
+/**
+ * Verified ABI and source of an address (Etherscan, cached per chain + address)
+ */
+export function getVerifiedContract(address: string, chain: string = DEFAULT_CHAIN): Promise<VerifiedContract> {
+  const normalized = address.toLowerCase();
+  const key = `${chain}:${normalized}`;
+  if (isFixtureSessionActive()) return fetchVerifiedContract(normalized, chain);
+  let pending = MEMORY_CACHE.get(key);
+  if (!pending) {
+    pending = fetchVerifiedContract(normalized, chain);
+    MEMORY_CACHE.set(key, pending);
+    pending.catch(() => MEMORY_CACHE.delete(key));
+  }
+  return pending;
+}
+
+function slotToAddress(value: Hex | undefined | null): string | null {
+  if (!value || value.length !== 66) return null;
+  // An address slot has 12 zero bytes of padding
+  if (!/^0x0{24}/.test(value)) return null;
+  const address = `0x${value.slice(26)}`.toLowerCase();
+  return /^0x0{40}$/.test(address) ? null : address;
+}
+
+/**
+ * Detect a proxy at `address` and resolve its implementation at `blockNumber` (latest when omitted)
+ */
+export async function resolveProxy(
+  address: string,
+  chain: string = DEFAULT_CHAIN,
+  blockNumber?: number
+): Promise<ProxyInfo | null> {
+  const client = getPublicClient(chain);
+  const at = blockNumber !== undefined ? { blockNumber: BigInt(blockNumber) } : {};
+  const readSlot = (slot: Hex) =>
+    client.getStorageAt({ address: address as Hex, slot, ...at }).catch(() => undefined);
+
+  const implementation = slotToAddress(await readSlot(EIP1967_IMPLEMENTATION_SLOT));
+  if (implementation) return { type: 'eip1967', implementation };
+
+  const beacon = slotToAddress(await readSlot(EIP1967_BEACON_SLOT));
+  if (beacon) {
+    const beaconImplementation = await client
+      .readContract({ address: beacon as Hex, abi: BEACON_ABI, functionName: 'implementation', ...at })
+      .catch(() => null);
+    if (beaconImplementation) {
+      return { type: 'eip1967_beacon', implementation: beaconImplementation.toLowerCase(), beacon };
+    }
+  }
+
+  const proxiable = slotToAddress(await readSlot(EIP1822_PROXIABLE_SLOT));
+  if (proxiable) return { type: 'eip1822', implementation: proxiable };
+
+  // Gnosis Safe proxies keep the singleton in slot 0 and expose it via masterCopy()
+  const singleton = slotToAddress(await readSlot('0x0'));
+  if (singleton) {
+    const masterCopy = await client
+      .readContract({ address: address as Hex, abi: SAFE_PROXY_ABI, functionName: 'masterCopy', ...at })
+      .catch(() => null);
+    if (masterCopy?.toLowerCase() === singleton) {
+      return { type: 'gnosis_safe', implementation: singleton };
+    }
+  }
+
+  return null;
+}
+
+function mayBeProxy(abi: any[] | null): boolean {
+  // Verified proxies expose a fallback; unverified contracts are checked too.
+  return !abi || abi.some((entry) => entry?.type === 'fallback');
+}
+
+const METADATA_CACHE = new Map<string, Promise<ContractMetadata>>();
+
+/**
+ * ABI / source of a contract, following proxies to their implementation at `blockNumber`
+ */
+export function getContractMetadata(
+  address: string,
+  chain: string = DEFAULT_CHAIN,
+  blockNumber?: number
+): Promise<ContractMetadata> {
+  const normalized = address.toLowerCase();
+  if (isFixtureSessionActive()) return loadContractMetadata(normalized, chain, blockNumber);
+  const key = `${chain}:${normalized}:${blockNumber ?? 'latest'}`;
+  let pending = METADATA_CACHE.get(key);
+  if (!pending) {
+    pending = loadContractMetadata(normalized, chain, blockNumber);
+    METADATA_CACHE.set(key, pending);
+    pending.catch(() => METADATA_CACHE.delete(key));
+  }
+  return pending;
+}
+
+async function loadContractMetadata(
+  normalized: string,
+  chain: string,
+  blockNumber?: number
+): Promise<ContractMetadata> {
+  const own = await getVerifiedContract(normalized, chain);
+  const proxy = mayBeProxy(own.abi) ? await resolveProxy(normalized, chain, blockNumber) : null;
+  const implementation = proxy ? await getVerifiedContract(proxy.implementation, chain) : null;
+
+  if (proxy) {
+    console.log(`      [Proxy] ${normalized.slice(0, 10)}... → ${proxy.implementation.slice(0, 10)}... (${proxy.type})`);
+  }
+
+  const decodingAbi = [...(implementation?.abi ?? []), ...(own.abi ?? [])];
+  return {
+    address: normalized,
+    abi: own.abi,
+    source: own.source,
+    proxy,
+    implementationAbi: implementation?.abi ?? null,
+    implementationSource: implementation?.source ?? null,
+    decodingAbi: decodingAbi.length > 0 ? decodingAbi : null,
+  };
+}
@@ -1,24 +1,40 @@
 import axios from 'axios';
 import { config } from '../config/index.js';
+import { DEFAULT_CHAIN, getChainConfig } from '../config/chains.js';
+import { isReplayingFixtures, withFixture } from './fixtures.js';
 
-// Etherscan API V2 - 统一所有链的 API
+// Etherscan API V2 - 统一所有链的 API, the chain is selected by `chainid`
 const ETHERSCAN_API = 'https://api.etherscan.io/v2/api';
-const CHAIN_ID = 1; // 1 = Ethereum Mainnet
+
+/**
+ * GET against Etherscan V2 through the fixture layer (the API key is not part of the fixture key)
+ */
+function etherscanGet(options: { params: Record<string, unknown>; timeout?: number }): Promise<{ data: any }> {
+  const { apikey: _apikey, ...request } = options.params;
+  return withFixture('etherscan', request, async () => {
+    const response = await axios.get(ETHERSCAN_API, options);
+    return { data: response.data };
+  });
+}
+
+function hasEtherscanAccess(): boolean {
+  return Boolean(config.etherscanApiKey) || isReplayingFixtures();
+}
 
 /**
  * 获取合约 ABI
  */
-export async function getContractABI(address: string): Promise<any[] | null> {
-  if (!config.etherscanApiKey) {
+export async function getContractABI(address: string, chain: string = DEFAULT_CHAIN): Promise<any[] | null> {
+  if (!hasEtherscanAccess()) {
     console.warn('Etherscan API key not configured, skipping ABI fetch');
     return null;
   }
 
   try {
     console.log(`      [Contract ABI] Fetching for ${address.slice(0, 10)}...`);
-    const response = await axios.get(ETHERSCAN_API, {
+    const response = await etherscanGet({
       params: {
-        chainid: CHAIN_ID,
+        chainid: getChainConfig(chain).etherscanChainId,
         module: 'contract',
         action: 'getabi',
         address,
@@ -52,15 +68,15 @@ export async function getContractABI(address: string): Promise<any[] | null> {
 /**
  * 获取合约源码
  */
-export async function getContractSource(address: string): Promise<string | null> {
-  if (!config.etherscanApiKey) {
+export async function getContractSource(address: string, chain: string = DEFAULT_CHAIN): Promise<string | null> {
+  if (!hasEtherscanAccess()) {
     return null;
   }
 
   try {
-    const response = await axios.get(ETHERSCAN_API, {
+    const response = await etherscanGet({
       params: {
-        chainid: CHAIN_ID,
+        chainid: getChainConfig(chain).etherscanChainId,
         module: 'contract',
         action: 'getsourcecode',
         address,
@@ -84,17 +100,17 @@ export async function getContractSource(address: string): Promise<string | null>
 /**
  * 获取合约名称 (从 Etherscan)
  */
-export async function getContractName(address: string): Promise<string | null> {
-  if (!config.etherscanApiKey) {
+export async function getContractName(address: string, chain: string = DEFAULT_CHAIN): Promise<string | null> {
+  if (!hasEtherscanAccess()) {
     console.log(`      [Contract Name] Skipped (no API key)`);
     return null;
   }
 
   try {
     console.log(`      [Contract Name] Fetching for ${address.slice(0, 10)}...`);
-    const response = await axios.get(ETHERSCAN_API, {
+    const response = await etherscanGet({
       params: {
-        chainid: CHAIN_ID,
+        chainid: getChainConfig(chain).etherscanChainId,
         module: 'contract',
         action: 'getsourcecode',
         address,
@@ -147,10 +163,10 @@ export async function getContractName(address: string): Promise<string | null> {
  * - OKLink API (multi-chain support)
  * - Manual curation in local database
  */
-export async function getAddressLabel(address: string): Promise<string | null> {
+export async function getAddressLabel(address: string, chain: string = DEFAULT_CHAIN): Promise<string | null> {
   // 只检查本地数据库
   const { getKnownAddressLabel } = await import('./known-addresses.js');
-  const knownLabel = getKnownAddressLabel(address);
+  const knownLabel = getKnownAddressLabel(address, getChainConfig(chain).labelChainId);
   if (knownLabel) {
     console.log(`      [Nametag] ✓ Found in local DB: ${knownLabel}`);
     return knownLabel;
@@ -163,17 +179,17 @@ export async function getAddressLabel(address: string): Promise<string | null> {
 /**
  * 获取交易的内部调用
  */
-export async function getInternalTransactions(txHash: string): Promise<any[]> {
-  if (!config.etherscanApiKey) {
+export async function getInternalTransactions(txHash: string, chain: string = DEFAULT_CHAIN): Promise<any[]> {
+  if (!hasEtherscanAccess()) {
     console.log(`      [Internal Txs] Skipped (no API key)`);
     return [];
   }
 
   try {
     console.log(`      [Internal Txs] Fetching for ${txHash.slice(0, 10)}...`);
-    const response = await axios.get(ETHERSCAN_API, {
+    const response = await etherscanGet({
       params: {
-        chainid: CHAIN_ID,
+        chainid: getChainConfig(chain).etherscanChainId,
         module: 'account',
         action: 'txlistinternal',
         txhash: txHash,
@@ -201,16 +217,64 @@ export async function getInternalTransactions(txHash: string): Promise<any[]> {
   }
 }
 
+/**
+ * Latest transactions of an address (newest first): normal txs (txlist), internal
+ * transfers (txlistinternal) or ERC20 transfers (tokentx)
+ */
+export async function getAddressActivity(
+  address: string,
+  action: 'txlist' | 'txlistinternal' | 'tokentx',
+  chain: string = DEFAULT_CHAIN,
+  limit = 100
+): Promise<any[]> {
+  if (!hasEtherscanAccess()) {
+    console.log(`      [Address ${action}] Skipped (no API key)`);
+    return [];
+  }
+
+  try {
+    console.log(`      [Address ${action}] Fetching for ${address.slice(0, 10)}...`);
+    const response = await etherscanGet({
+      params: {
+        chainid: getChainConfig(chain).etherscanChainId,
+        module: 'account',
+        action,
+        address,
+        page: 1,
+        offset: limit,
+        sort: 'desc',
+        apikey: config.etherscanApiKey,
+      },
+      timeout: 10000,
+    });
+
+    if (response.data.status === '1' && Array.isArray(response.data.result)) {
+      console.log(`      [Address ${action}] ✓ Found ${response.data.result.length} entries`);
+      return response.data.result;
+    }
+    return [];
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      if (error.code === 'ETIMEDOUT' || error.code === 'ECONNABORTED') {
+        console.log(`      [Address ${action}] ⏱️  Timeout`);
+      } else {
+        console.log(`      [Address ${action}] ⚠️  Error: ${error.message}`);
+      }
+    }
+    return [];
+  }
+}
+
 /**
  * 获取代币信息
  */
-export async function getTokenInfo(tokenAddress: string): Promise<{
+export async function getTokenInfo(tokenAddress: string, chain: string = DEFAULT_CHAIN): Promise<{
   name: string | null;
   symbol: string | null;
   decimals: string | null;
   totalSupply: string | null;
 } | null> {
-  if (!config.etherscanApiKey) {
+  if (!hasEtherscanAccess()) {
     return null;
   }
 
@@ -219,9 +283,9 @@ export async function getTokenInfo(tokenAddress: string): Promise<{
     
     // 并行获取代币信息
     const [nameRes, supplyRes] = await Promise.all([
-      axios.get(ETHERSCAN_API, {
+      etherscanGet({
         params: {
-          chainid: CHAIN_ID,
+          chainid: getChainConfig(chain).etherscanChainId,
           module: 'token',
           action: 'tokeninfo',
           contractaddress: tokenAddress,
@@ -232,9 +296,9 @@ export async function getTokenInfo(tokenAddress: string): Promise<{
         console.log(`      [Token Info] Name fetch error: ${err.message}`);
         return null;
       }),
-      axios.get(ETHERSCAN_API, {
+      etherscanGet({
         params: {
-          chainid: CHAIN_ID,
+          chainid: getChainConfig(chain).etherscanChainId,
           module: 'stats',
           action: 'tokensupply',
           contractaddress: tokenAddress,
@@ -268,38 +332,3 @@ export async function getTokenInfo(tokenAddress: string): Promise<{
     return null;
   }
 }
-
-/**
- * 获取历史 Gas 价格
- */
-export async function getGasPriceAtBlock(_blockNumber: number): Promise<{
-  gasPrice: string | null;
-  baseFee: string | null;
-} | null> {
-  if (!config.etherscanApiKey) {
-    return null;
-  }
-
-  try {
-    // 获取当前 Gas 价格作为参考
-    const response = await axios.get(ETHERSCAN_API, {
-      params: {
-        chainid: CHAIN_ID,
-        module: 'gastracker',
-        action: 'gasoracle',
-        apikey: config.etherscanApiKey,
-      },
-      timeout: 10000,
-    });
-
-    if (response.data.status === '1' && response.data.result) {
-      return {
-        gasPrice: response.data.result.ProposeGasPrice || null,
-        baseFee: response.data.result.suggestBaseFee || null,
-      };
-    }
-    return null;
-  } catch (error) {
-    return null;
-  }
-}
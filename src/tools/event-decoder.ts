@@ -0,0 +1,188 @@
+/**
+ * Decodes receipt logs into an ordered event timeline and correlates each log with
+ * the call frame that emitted it.
+ *
+ * Events are decoded with the emitter's verified ABI when available, otherwise with a
+ * built-in library of common DeFi events.
+ */
+import { decodeEventLog, parseAbi, toEventSelector, type Abi, type AbiEvent, type Hex } from 'viem';
+import { toJsonValue } from './call-decoder.js';
+import type { CallTrace } from './tenderly.js';
+import type { DecodedEvent } from '../types/index.js';
+
+interface ReceiptLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+  logIndex?: number | string | null;
+}
+
+// Events sharing a selector but differing in indexed params live in separate ABIs.
+const BUILTIN_EVENT_ABIS: Abi[] = [
+  parseAbi([
+    'event Transfer(address indexed from, address indexed to, uint256 value)',
+    'event Approval(address indexed owner, address indexed spender, uint256 value)',
+    'event Deposit(address indexed dst, uint256 wad)',
+    'event Withdrawal(address indexed src, uint256 wad)',
+    'event Sync(uint112 reserve0, uint112 reserve1)',
+    'event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)',
+    'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+    'event Swap(bytes32 indexed poolId, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut)',
+    'event Swap(bytes32 indexed id, address indexed sender, int128 amount0, int128 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick, uint24 fee)',
+    'event TokenExchange(address indexed buyer, int128 sold_id, uint256 tokens_sold, int128 bought_id, uint256 tokens_bought)',
+    'event TokenExchange(address indexed buyer, uint256 sold_id, uint256 tokens_sold, uint256 bought_id, uint256 tokens_bought)',
+    'event Mint(address indexed sender, uint256 amount0, uint256 amount1)',
+    'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+    'event Burn(address indexed sender, uint256 amount0, uint256 amount1, address indexed to)',
+    'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+    'event Collect(address indexed owner, address recipient, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount0, uint128 amount1)',
+    'event Flash(address indexed sender, address indexed recipient, uint256 amount0, uint256 amount1, uint256 paid0, uint256 paid1)',
+    'event FlashLoan(address indexed target, address indexed initiator, address indexed asset, uint256 amount, uint256 premium, uint16 referralCode)',
+    'event FlashLoan(address indexed target, address initiator, address indexed asset, uint256 amount, uint8 interestRateMode, uint256 premium, uint16 indexed referralCode)',
+    'event FlashLoan(address indexed recipient, address indexed token, uint256 amount, uint256 feeAmount)',
+    'event LogWithdraw(address indexed accountOwner, uint256 accountNumber, uint256 market, ((bool sign, uint256 value) deltaWei, (bool sign, uint128 value) newPar) update, address to)',
+    'event LogDeposit(address indexed accountOwner, uint256 accountNumber, uint256 market, ((bool sign, uint256 value) deltaWei, (bool sign, uint128 value) newPar) update, address from)',
+    'event LogCall(address indexed accountOwner, uint256 accountNumber, address callee)',
+    'event LiquidationCall(address indexed collateralAsset, address indexed debtAsset, address indexed user, uint256 debtToCover, uint256 liquidatedCollateralAmount, address liquidator, bool receiveAToken)',
+    'event LiquidateBorrow(address liquidator, address borrower, uint256 repayAmount, address cTokenCollateral, uint256 seizeTokens)',
+  ]),
+  parseAbi([
+    'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)',
+    'event Approval(address indexed owner, address indexed approved, uint256 indexed tokenId)',
+    'event FlashLoan(address indexed receiver, address token, uint256 amount, uint256 fee)',
+  ]),
+];
+
+function decodeWithAbi(abi: readonly any[], log: ReceiptLog): Omit<DecodedEvent, 'logIndex' | 'address'> | null {
+  const topic0 = log.topics[0]?.toLowerCase();
+  if (!topic0) return null;
+
+  for (const item of abi) {
+    if (item?.type !== 'event' || item.anonymous) continue;
+    const event = item as AbiEvent;
+    try {
+      if (toEventSelector(event) !== topic0) continue;
+      const decoded = decodeEventLog({
+        abi: [event],
+        data: log.data as Hex,
+        topics: log.topics as [Hex, ...Hex[]],
+        strict: true,
+      });
+      const args = decoded.args as Record<string, unknown> | readonly unknown[];
+      return {
+        name: event.name,
+        signature: `${event.name}(${event.inputs.map((input) => input.type).join(',')})`,
+        args: event.inputs.map((input, i) => ({
+          name: input.name || `arg${i}`,
+          type: input.type,
+          value: toJsonValue(Array.isArray(args) ? args[i] : (args as Record<string, unknown>)[input.name || i]),
+        })),
+      };
+    } catch {
+      // Same selector with a different indexed layout; try the next candidate
+    }
+  }
+  return null;
+}
+
+/**
+ * Decode one log: emitter ABI first, then the built-in event library
+ */
+export function decodeLog(log: ReceiptLog, abi?: any[] | null): Omit<DecodedEvent, 'logIndex' | 'address'> | null {
+  if (abi?.length) {
+    const decoded = decodeWithAbi(abi, log);
+    if (decoded) return { ...decoded, source: 'abi' };
+  }
+  for (const builtin of BUILTIN_EVENT_ABIS) {
+    const decoded = decodeWithAbi(builtin, log);
+    if (decoded) return { ...decoded, source: 'builtin' };
+  }
+  return null;
+}
+
+interface Frame {
+  index: number;
+  /** Address whose logs the frame emits (the caller's for DELEGATECALL / CALLCODE) */
+  emitter: string;
+  failed: boolean;
+}
+
+function collectFrames(call: CallTrace, failedParent = false, frames: Frame[] = []): Frame[] {
+  const delegated = call.type === 'DELEGATECALL' || call.type === 'CALLCODE';
+  const failed = failedParent || Boolean(call.error);
+  frames.push({ index: frames.length, emitter: (delegated ? call.from : call.to)?.toLowerCase() ?? '', failed });
+  for (const sub of call.calls ?? []) collectFrames(sub, failed, frames);
+  return frames;
+}
+
+/**
+ * Emitting frame per log from callTracer `withLog` output, in execution order.
+ * Frame indexes follow the depth-first order of FlattenedCall.index.
+ */
+function logsFromFrames(call: CallTrace, counter = { n: 0 }, out: Array<{ index: number; address: string }> = []) {
+  const index = counter.n++;
+  const logs = call.logs ?? [];
+  const children = call.calls ?? [];
+  const emitUpTo = (position: number) => {
+    for (const log of logs) {
+      if ((log.position ?? children.length) === position) out.push({ index, address: log.address.toLowerCase() });
+    }
+  };
+  children.forEach((child, i) => {
+    emitUpTo(i);
+    logsFromFrames(child, counter, out);
+  });
+  for (const log of logs) {
+    if ((log.position ?? children.length) >= children.length) out.push({ index, address: log.address.toLowerCase() });
+  }
+  return out;
+}
+
+/**
+ * Index of the call frame that emitted each receipt log. Uses the logs attached to the
+ * trace when present; otherwise matches the emitter address against successful frames
+ * in execution order.
+ */
+export function correlateLogsToCalls(root: CallTrace | undefined, logs: ReceiptLog[]): Array<number | undefined> {
+  if (!root) return logs.map(() => undefined);
+
+  const fromFrames = logsFromFrames(root);
+  if (
+    fromFrames.length === logs.length &&
+    fromFrames.every((frame, i) => frame.address === logs[i]!.address.toLowerCase())
+  ) {
+    return fromFrames.map((frame) => frame.index);
+  }
+
+  const frames = collectFrames(root).filter((frame) => !frame.failed);
+  let cursor = 0;
+  return logs.map((log) => {
+    const emitter = log.address.toLowerCase();
+    const candidates = frames.filter((frame) => frame.emitter === emitter);
+    if (candidates.length === 0) return undefined;
+    const next = candidates.find((frame) => frame.index >= cursor) ?? candidates[candidates.length - 1]!;
+    cursor = next.index;
+    return next.index;
+  });
+}
+
+/**
+ * Ordered event timeline of a receipt
+ */
+export function decodeEvents(
+  logs: ReceiptLog[],
+  abiFor: (address: string) => any[] | null | undefined,
+  root?: CallTrace
+): DecodedEvent[] {
+  const callIndexes = correlateLogsToCalls(root, logs);
+  return logs.map((log, i) => {
+    const address = log.address.toLowerCase();
+    const decoded = decodeLog(log, abiFor(address));
+    const logIndex = log.logIndex !== undefined && log.logIndex !== null ? Number(log.logIndex) : i;
+    const event: DecodedEvent = decoded
+      ? { logIndex, address, ...decoded }
+      : { logIndex, address, name: null, topics: [...log.topics], data: log.data };
+    if (callIndexes[i] !== undefined) event.callIndex = callIndexes[i];
+    return event;
+  });
+}
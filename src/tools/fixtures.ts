@@ -0,0 +1,180 @@
+/**
+ * Record / replay of external responses (RPC, trace, Etherscan, LLM) per analyzed transaction.
+ *
+ * record: responses are fetched live and written to `<dir>/<txHash>/<kind>.json`
+ * replay: responses come only from those files; a missing entry throws
+ *
+ * Outside runWithFixtures (or with mode "off") withFixture is a pass-through.
+ */
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { http, type Transport } from 'viem';
+import { config } from '../config/index.js';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+export type FixtureKind = 'rpc' | 'trace' | 'etherscan' | 'llm';
+
+export const FIXTURE_KINDS: FixtureKind[] = ['rpc', 'trace', 'etherscan', 'llm'];
+
+export interface FixtureOptions {
+  mode: FixtureMode;
+  /** Root fixture directory (default: FIXTURE_DIR or ./fixtures) */
+  dir?: string;
+}
+
+interface FixtureEntry {
+  request: unknown;
+  response: unknown;
+}
+
+type FixtureFile = Record<string, FixtureEntry>;
+
+interface FixtureSession {
+  mode: Exclude<FixtureMode, 'off'>;
+  txDir: string;
+  files: Record<FixtureKind, FixtureFile>;
+  misses: string[];
+}
+
+const storage = new AsyncLocalStorage<FixtureSession>();
+
+function fixtureKey(request: unknown): string {
+  return createHash('sha256').update(JSON.stringify(request)).digest('hex').slice(0, 24);
+}
+
+export function getFixtureDir(txHash: string, dir: string = config.fixtureDir || 'fixtures'): string {
+  return path.resolve(dir, txHash.toLowerCase());
+}
+
+export function hasFixtures(txHash: string, dir?: string): boolean {
+  return existsSync(getFixtureDir(txHash, dir));
+}
+
+export function isReplayingFixtures(): boolean {
+  return storage.getStore()?.mode === 'replay';
+}
+
+/**
+ * True while recording or replaying; persistent caches are bypassed so every
+ * external response ends up in (or comes from) the fixture files.
+ */
+export function isFixtureSessionActive(): boolean {
+  return storage.getStore() !== undefined;
+}
+
+function loadFiles(txDir: string | null): Record<FixtureKind, FixtureFile> {
+  const files = {} as Record<FixtureKind, FixtureFile>;
+  for (const kind of FIXTURE_KINDS) {
+    const file = txDir ? path.join(txDir, `${kind}.json`) : null;
+    files[kind] = file && existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : {};
+  }
+  return files;
+}
+
+function saveFiles(session: FixtureSession): void {
+  // A recording that fetched nothing (e.g. no network) must not leave a directory that hasFixtures accepts
+  if (FIXTURE_KINDS.every((kind) => Object.keys(session.files[kind]).length === 0)) return;
+  mkdirSync(session.txDir, { recursive: true });
+  for (const kind of FIXTURE_KINDS) {
+    const entries = session.files[kind];
+    if (Object.keys(entries).length === 0) continue;
+    writeFileSync(path.join(session.txDir, `${kind}.json`), JSON.stringify(entries, null, 2) + '\n');
+  }
+}
+
+/**
+ * Run fn with fixtures for txHash. In record mode the fixture files are written when fn settles.
+ */
+export async function runWithFixtures<T>(
+  txHash: string,
+  options: FixtureOptions,
+  fn: () => Promise<T>
+): Promise<T> {
+  if (options.mode === 'off') return fn();
+
+  const txDir = getFixtureDir(txHash, options.dir);
+  if (options.mode === 'replay' && !existsSync(txDir)) {
+    throw new Error(`No fixtures recorded for ${txHash} in ${txDir}`);
+  }
+
+  const session: FixtureSession = {
+    mode: options.mode,
+    txDir,
+    files: loadFiles(options.mode === 'replay' ? txDir : null),
+    misses: [],
+  };
+  console.log(`🎞️  [Fixtures] ${options.mode} mode: ${txDir}`);
+
+  try {
+    return await storage.run(session, fn);
+  } finally {
+    if (session.mode === 'record') {
+      saveFiles(session);
+      const counts = FIXTURE_KINDS.map((k) => `${k}=${Object.keys(session.files[k]).length}`).join(' ');
+      console.log(`🎞️  [Fixtures] Recorded ${counts}`);
+    } else if (session.misses.length > 0) {
+      console.warn(`🎞️  [Fixtures] ${session.misses.length} request(s) had no recorded response:`);
+      for (const miss of session.misses.slice(0, 20)) console.warn(`      - ${miss}`);
+    }
+  }
+}
+
+/**
+ * Resolve an external request through the active fixture session (if any).
+ * `request` identifies the call and must be JSON-serialisable; so must the response.
+ */
+export async function withFixture<T>(kind: FixtureKind, request: unknown, fetch: () => Promise<T>): Promise<T> {
+  const session = storage.getStore();
+  if (!session) return fetch();
+
+  const key = fixtureKey(request);
+  const recorded = session.files[kind][key];
+
+  if (session.mode === 'replay') {
+    if (!recorded) {
+      const summary = JSON.stringify(request).slice(0, 160);
+      session.misses.push(`${kind}: ${summary}`);
+      throw new Error(`[Fixtures] No recorded ${kind} response for ${summary}`);
+    }
+    return recorded.response as T;
+  }
+
+  const response = await fetch();
+  session.files[kind][key] = { request, response };
+  return response;
+}
+
+interface PromptModel {
+  invoke(input: string): Promise<{ content: { toString(): string } }>;
+}
+
+/**
+ * Invoke an LLM with a plain prompt through the fixture layer. The model is created lazily
+ * so that replay works without API keys.
+ */
+export function invokeLLM(prompt: string, createLLM: () => PromptModel): Promise<string> {
+  return withFixture('llm', { prompt }, async () => (await createLLM().invoke(prompt)).content.toString());
+}
+
+const TRACE_METHOD_PREFIXES = ['debug_', 'trace_', 'tenderly_'];
+
+/**
+ * viem http transport whose requests go through withFixture (trace methods are stored as "trace")
+ */
+export function fixtureHttp(url?: string): Transport {
+  const inner = http(url);
+  return (options) => {
+    const transport = inner(options);
+    return {
+      ...transport,
+      request: (async (args: { method: string; params?: unknown }, requestOptions?: unknown) => {
+        const kind: FixtureKind = TRACE_METHOD_PREFIXES.some((p) => args.method.startsWith(p)) ? 'trace' : 'rpc';
+        return withFixture(kind, { method: args.method, params: args.params ?? [] }, () =>
+          (transport.request as any)(args, requestOptions)
+        );
+      }) as typeof transport.request,
+    };
+  };
+}
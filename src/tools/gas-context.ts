@@ -0,0 +1,105 @@
+/**
+ * Gas context of a transaction from its own block (and a window of surrounding blocks)
+ * via RPC: base fee, the priority fee the tx paid relative to the other txs in the block,
+ * and its position in the block.
+ */
+import { DEFAULT_CHAIN } from '../config/chains.js';
+import { getPublicClient } from './rpc.js';
+import type { GasContext } from '../types/index.js';
+
+export const DEFAULT_GAS_WINDOW = 5;
+
+// A tip this many times the block median is an outlier
+const ABNORMAL_TIP_MULTIPLIER = 10n;
+
+export interface GasContextOptions {
+  /** Blocks loaded before and after the tx's block (headers only) */
+  window?: number;
+  chain?: string;
+  /** Effective gas price from the receipt (falls back to the block tx's fee fields) */
+  effectiveGasPrice?: string | null;
+}
+
+interface BlockTxFees {
+  hash: string;
+  gasPrice?: bigint;
+  maxFeePerGas?: bigint;
+  maxPriorityFeePerGas?: bigint;
+}
+
+function priorityFeePerGas(tx: BlockTxFees, baseFee: bigint | null): bigint {
+  if (baseFee === null) return tx.gasPrice ?? 0n;
+  if (tx.maxFeePerGas !== undefined && tx.maxPriorityFeePerGas !== undefined) {
+    const headroom = tx.maxFeePerGas - baseFee;
+    return tx.maxPriorityFeePerGas < headroom ? tx.maxPriorityFeePerGas : headroom > 0n ? headroom : 0n;
+  }
+  const price = tx.gasPrice ?? 0n;
+  return price > baseFee ? price - baseFee : 0n;
+}
+
+function median(values: bigint[]): bigint | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  return sorted[Math.floor(sorted.length / 2)]!;
+}
+
+export async function fetchGasContext(
+  txHash: string,
+  blockNumber: number,
+  options: GasContextOptions = {}
+): Promise<GasContext> {
+  const client = getPublicClient(options.chain ?? DEFAULT_CHAIN);
+  const block = await client.getBlock({ blockNumber: BigInt(blockNumber), includeTransactions: true });
+  const txs = block.transactions as BlockTxFees[];
+  const txIndex = txs.findIndex((t) => t.hash.toLowerCase() === txHash.toLowerCase());
+  if (txIndex === -1) throw new Error(`Transaction ${txHash} not found in block ${blockNumber}`);
+
+  const baseFee = block.baseFeePerGas ?? null;
+  const tips = txs.map((t) => priorityFeePerGas(t, baseFee));
+  const gasPrice = options.effectiveGasPrice
+    ? BigInt(options.effectiveGasPrice)
+    : (baseFee ?? 0n) + tips[txIndex]!;
+  const tip = baseFee === null ? gasPrice : gasPrice > baseFee ? gasPrice - baseFee : 0n;
+
+  const others = tips.filter((_, i) => i !== txIndex);
+  const blockMedian = median(others);
+  const percentile = others.length
+    ? Math.round((others.filter((t) => t < tip).length / others.length) * 1000) / 10
+    : null;
+
+  const window = options.window ?? DEFAULT_GAS_WINDOW;
+  const latest = await client.getBlockNumber().catch(() => null);
+  const neighbours: number[] = [];
+  for (let n = blockNumber - window; n <= blockNumber + window; n++) {
+    if (n >= 0 && n !== blockNumber && (latest === null || BigInt(n) <= latest)) neighbours.push(n);
+  }
+  const headers = await Promise.all(
+    neighbours.map((n) => client.getBlock({ blockNumber: BigInt(n) }).catch(() => null))
+  );
+  const surroundingBaseFees = [
+    ...headers.filter((h) => h !== null).map((h) => ({
+      blockNumber: Number(h!.number),
+      baseFeePerGas: h!.baseFeePerGas?.toString() ?? null,
+    })),
+    { blockNumber, baseFeePerGas: baseFee?.toString() ?? null },
+  ].sort((a, b) => a.blockNumber - b.blockNumber);
+
+  // Outlier tips and zero-tip txs in a tipping block (bundles paying the builder directly)
+  const isAbnormal = blockMedian !== null && blockMedian > 0n &&
+    (tip >= blockMedian * ABNORMAL_TIP_MULTIPLIER || tip === 0n);
+
+  return {
+    blockNumber,
+    baseFeePerGas: baseFee?.toString() ?? null,
+    gasPrice: gasPrice.toString(),
+    priorityFeePerGas: tip.toString(),
+    blockMedianPriorityFee: blockMedian?.toString() ?? null,
+    priorityFeePercentile: percentile,
+    txIndex,
+    blockTxCount: txs.length,
+    topOfBlock: txIndex === 0,
+    blockGasUsedRatio: block.gasLimit > 0n ? Number((block.gasUsed * 10000n) / block.gasLimit) / 10000 : 0,
+    surroundingBaseFees,
+    isAbnormal,
+  };
+}
@@ -33,6 +33,10 @@ export const KNOWN_ADDRESSES: Record<string, string> = {
   // DEX
   '0xd9e1ce17f2641f24ae83637ab66a2cca9c378b9f': 'SushiSwap: Router',
   '0x1111111254fb6c44bac0bed2854e76f90643097d': '1inch v4: Router',
+  '0x1111111254eeb25477b68fb85ed929f73a960582': '1inch v5: Aggregation Router',
+  '0x111111125421ca6dc452d289314280a0f8842a65': '1inch v6: Aggregation Router',
+  '0x66a9893cc07d91d95644aedd05d03f95e1dba8af': 'Uniswap V4: Universal Router',
+  '0x000000000004444c5dc75cb358380d2e3de08a90': 'Uniswap V4: PoolManager',
   '0x68b3465833fb72a70ecdf485e0e4c7bd8665fc45': 'Uniswap V3: Router 2',
   
   // Curve
@@ -54,9 +58,22 @@ export const KNOWN_ADDRESSES: Record<string, string> = {
   '0x87870bca3f3fd6335c3f4ce8392d69350b4fa4e2': 'Aave V3: Pool',
   
   '0x3d9819210a31b4961b30ef54be2aed79b9c9cd3b': 'Compound: Comptroller',
+  '0x4ddc2d193948926d02f9b1fe9e1daa0718270ed5': 'Compound: cETH',
+  '0x5d3a536e4d6dbd6114cc1ead35777bab948e3643': 'Compound: cDAI',
+  '0xf650c3d88d12db855b8bf7d11be6c55a4e07dcc9': 'Compound: cUSDT',
+  '0xccf4429db6322d5c611ee964527d42e5d685dd6a': 'Compound: cWBTC2',
   
   // MakerDAO
   '0x9f8f72aa9304c8b593d555f12ef6589cc3a579a2': 'Maker: MKR Token',
+  '0x135954d155898d42c90d2a57824c690e0c7bef1b': 'Maker: Dog (Liquidations 2.0)',
+  '0xc67963a226eddd77b91ad8c421630a1b0adff270': 'Maker: Clipper ETH-A',
+  '0x60744434d6339a6b27d73d9eda62b6f66a0a04fa': 'Maker: DssFlash',
+
+  // Balancer
+  '0xba12222222228d8ba445958a75a0704d566bf2c8': 'Balancer: Vault',
+
+  // dYdX
+  '0x1e0447b19bb6ecfdae1e4ae1694b0c3659614e4e': 'dYdX: Solo Margin',
   
   // Wrapped Tokens
   '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2': 'Wrapped Ether',
@@ -72,6 +89,13 @@ export const KNOWN_ADDRESSES: Record<string, string> = {
   '0x00000000006c3852cbef3e08e8df289169ede581': 'OpenSea: Seaport 1.1',
   '0x7f268357a8c2552623316e2562d90e642bb538e5': 'OpenSea: Wyvern Exchange v2',
   
+  // Block builders (fee recipients)
+  '0x95222290dd7278aa3ddd389cc1e1d165cc4bafe5': 'beaverbuild',
+  '0x4838b106fce9647bdf1e7877bf73ce8b0bad5f97': 'Titan Builder',
+  '0x1f9090aae28b8a3dceadf281b0f12828e676c326': 'rsync-builder',
+  '0xdafea492d9c6733ae3d56b7ed1adb60692c98bc5': 'Flashbots: Builder',
+  '0x690b9a9e9aa1c9db991c7721a92d351db4fac990': 'builder0x69',
+
   // MEV Bots (known)
   '0x00000000003b3cc22af3ae1eac0440bcee416b40': 'MEV Bot',
   '0x000000000035b5e5ad9019092c665357240f594e': 'MEV Bot',
@@ -156,8 +180,8 @@ export function getKnownAddressLabel(address: string, chainID: ChainID = 1): str
     return fromDb;
   }
 
-  // 2) Hardcoded fallback / manual overrides
-  return KNOWN_ADDRESSES[normalizedAddress] || null;
+  // 2) Hardcoded fallback / manual overrides (Ethereum mainnet addresses)
+  return chainID === 1 ? KNOWN_ADDRESSES[normalizedAddress] || null : null;
 }
 
 /**
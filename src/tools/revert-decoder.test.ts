@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAbiParameters, encodeErrorResult, parseAbi } from 'viem';
+import { decodeRevertReason } from './revert-decoder.js';
+
+const POOL_ABI = parseAbi(['error InsufficientOutput(uint256 amountOut, uint256 minAmountOut)']);
+
+describe('decodeRevertReason', () => {
+  it('decodes Error(string)', () => {
+    const output = `0x08c379a0${encodeAbiParameters([{ type: 'string' }], ['Too little received']).slice(2)}`;
+
+    expect(decodeRevertReason(output)).toEqual({
+      kind: 'error',
+      selector: '0x08c379a0',
+      message: 'Too little received',
+      signature: 'Error(string)',
+      source: 'builtin',
+    });
+  });
+
+  it('decodes Panic(uint256) codes', () => {
+    const output = `0x4e487b71${encodeAbiParameters([{ type: 'uint256' }], [0x11n]).slice(2)}`;
+    const reason = decodeRevertReason(output);
+
+    expect(reason.kind).toBe('panic');
+    expect(reason.panicCode).toBe(0x11);
+    expect(reason.message).toBe('arithmetic overflow or underflow');
+  });
+
+  it('names panic codes it does not know', () => {
+    const output = `0x4e487b71${encodeAbiParameters([{ type: 'uint256' }], [0x99n]).slice(2)}`;
+    expect(decodeRevertReason(output).message).toBe('panic 0x99');
+  });
+
+  it('decodes a custom error with the contract ABI', () => {
+    const output = encodeErrorResult({ abi: POOL_ABI, errorName: 'InsufficientOutput', args: [90n, 100n] });
+    const reason = decodeRevertReason(output, [null, POOL_ABI as unknown as any[]]);
+
+    expect(reason.kind).toBe('custom');
+    expect(reason.source).toBe('abi');
+    expect(reason.message).toBe('InsufficientOutput');
+    expect(reason.signature).toBe('InsufficientOutput(uint256,uint256)');
+    expect(reason.args).toEqual([
+      { name: 'amountOut', type: 'uint256', value: '90' },
+      { name: 'minAmountOut', type: 'uint256', value: '100' },
+    ]);
+  });
+
+  it('reports empty and truncated revert data', () => {
+    expect(decodeRevertReason('0x')).toEqual({ kind: 'empty', message: null });
+    expect(decodeRevertReason(undefined)).toEqual({ kind: 'empty', message: null });
+    expect(decodeRevertReason('0x08c3')).toEqual({ kind: 'unknown', message: null });
+  });
+
+  it('does not decode malformed Error(string) data', () => {
+    expect(decodeRevertReason('0x08c379a0ff')).toEqual({ kind: 'unknown', selector: '0x08c379a0', message: null });
+  });
+});
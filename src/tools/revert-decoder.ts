@@ -0,0 +1,124 @@
+/**
+ * Decodes revert data returned by a failed call: Error(string), Panic(uint256) and
+ * custom errors (with the contract ABIs, falling back to the keccak256 selector DB).
+ */
+import {
+  decodeAbiParameters,
+  decodeErrorResult,
+  parseAbiItem,
+  toFunctionSelector,
+  type Abi,
+  type Hex,
+} from 'viem';
+import { toJsonValue } from './call-decoder.js';
+import { decodeCalldata } from './rpc.js';
+import type { RevertReason } from '../types/index.js';
+
+type AbiError = Extract<Abi[number], { type: 'error' }>;
+
+const ERROR_STRING_SELECTOR = '0x08c379a0';
+const PANIC_SELECTOR = '0x4e487b71';
+
+// Solidity >= 0.8 panic codes
+const PANIC_CODES: Record<number, string> = {
+  0x00: 'generic compiler panic',
+  0x01: 'assert failed',
+  0x11: 'arithmetic overflow or underflow',
+  0x12: 'division or modulo by zero',
+  0x21: 'invalid enum value',
+  0x22: 'corrupt storage byte array',
+  0x31: 'pop on empty array',
+  0x32: 'array index out of bounds',
+  0x41: 'out of memory',
+  0x51: 'call to uninitialized function',
+};
+
+function findError(abi: any[], selector: string): AbiError | undefined {
+  return abi.find((entry) => {
+    if (entry?.type !== 'error') return false;
+    try {
+      // Errors are selected like functions: keccak256(signature)[0:4]
+      return toFunctionSelector({ ...entry, type: 'function', outputs: [], stateMutability: 'nonpayable' }) === selector;
+    } catch {
+      return false;
+    }
+  });
+}
+
+function decodeCustomError(error: AbiError, data: Hex, source: RevertReason['source']): RevertReason | null {
+  try {
+    const { args } = decodeErrorResult({ abi: [error], data });
+    const signature = `${error.name}(${error.inputs.map((i) => i.type).join(',')})`;
+    return {
+      kind: 'custom',
+      selector: data.slice(0, 10),
+      message: error.name,
+      signature,
+      args: error.inputs.map((input, i) => ({
+        name: input.name || `arg${i}`,
+        type: input.type,
+        value: toJsonValue((args ?? [])[i]),
+      })),
+      source,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decode the revert data of a call. `abis` are tried in order (the reverting contract's
+ * first); errors raised by inner calls usually bubble up unchanged.
+ */
+export function decodeRevertReason(output: string | undefined | null, abis: Array<any[] | null | undefined> = []): RevertReason {
+  const data = (output ?? '').toLowerCase();
+  if (!data || data === '0x') return { kind: 'empty', message: null };
+  if (data.length < 10) return { kind: 'unknown', message: null };
+  const selector = data.slice(0, 10);
+
+  if (selector === ERROR_STRING_SELECTOR) {
+    try {
+      const [message] = decodeAbiParameters([{ type: 'string' }], `0x${data.slice(10)}` as Hex);
+      return { kind: 'error', selector, message, signature: 'Error(string)', source: 'builtin' };
+    } catch {
+      return { kind: 'unknown', selector, message: null };
+    }
+  }
+
+  if (selector === PANIC_SELECTOR) {
+    try {
+      const [code] = decodeAbiParameters([{ type: 'uint256' }], `0x${data.slice(10)}` as Hex);
+      const panicCode = Number(code);
+      return {
+        kind: 'panic',
+        selector,
+        message: PANIC_CODES[panicCode] ?? `panic 0x${panicCode.toString(16)}`,
+        signature: 'Panic(uint256)',
+        panicCode,
+        source: 'builtin',
+      };
+    } catch {
+      return { kind: 'unknown', selector, message: null };
+    }
+  }
+
+  for (const abi of abis) {
+    const error = abi?.length ? findError(abi, selector) : undefined;
+    const decoded = error ? decodeCustomError(error, data as Hex, 'abi') : null;
+    if (decoded) return decoded;
+  }
+
+  const signature = decodeCalldata(data).functionSignature;
+  if (signature) {
+    try {
+      const error = parseAbiItem(`error ${signature}`) as AbiError;
+      const decoded = decodeCustomError(error, data as Hex, 'selector_db');
+      if (decoded) return decoded;
+    } catch {
+      // Not a parseable signature
+    }
+    return { kind: 'custom', selector, message: signature.split('(')[0]!, signature, source: 'selector_db' };
+  }
+
+  return { kind: 'unknown', selector, message: null };
+}
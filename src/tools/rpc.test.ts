@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { encodeAbiParameters, encodeFunctionData, pad, parseAbi, parseAbiParameters, toHex } from 'viem';
+import { annotateTransferDiscrepancies, extractNativeFlows, extractTokenFlows, NATIVE_TOKEN_ADDRESS } from './rpc.js';
+import type { CallTrace } from './tenderly.js';
+import type { InternalTransaction } from '../types/index.js';
+
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+const TRANSFER_SINGLE_TOPIC = '0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62';
+const TRANSFER_BATCH_TOPIC = '0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb';
+const DEPOSIT_TOPIC = '0xe1fffcc4923d04b559f4d29a8bfc6cda04eb5b0d3c460751c2402c5c5cc9109c';
+const WITHDRAWAL_TOPIC = '0x7fcf532c15f0a6db0bd6d0e038bea71d30d808c7d98cb3bf7268a95bf5081b65';
+
+const WETH = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const ZERO = '0x0000000000000000000000000000000000000000';
+const FOT_TOKEN = '0x00000000000000000000000000000000000000f1';
+
+const NFT = '0x00000000000000000000000000000000000000c1';
+const ALICE = '0x00000000000000000000000000000000000000a1';
+const BOB = '0x00000000000000000000000000000000000000b1';
+const OPERATOR = '0x00000000000000000000000000000000000000d1';
+
+const ERC20_ABI = parseAbi(['function transfer(address to, uint256 amount)']);
+
+const topic = (address: string) => pad(address as `0x${string}`);
+
+// Receipt log fixtures (synthetic addresses, real event signatures)
+type Log = Parameters<typeof extractTokenFlows>[0]['logs'][number];
+const log = (address: string, topics: string[], data: string, logIndex: number) =>
+  ({ address, topics, data, logIndex }) as unknown as Log;
+
+describe('extractTokenFlows', () => {
+  it('reads an ERC721 Transfer (indexed tokenId) as one unit of that token id', () => {
+    const flows = extractTokenFlows({
+      logs: [log(NFT, [TRANSFER_TOPIC, topic(ALICE), topic(BOB), toHex(1234n, { size: 32 })], '0x', 7)],
+    });
+
+    expect(flows).toEqual([{ standard: 'erc721', token: NFT, from: ALICE, to: BOB, amount: '1', tokenId: '1234', logIndex: 7 }]);
+  });
+
+  it('reads ERC1155 TransferSingle and TransferBatch', () => {
+    const single = encodeAbiParameters(parseAbiParameters('uint256, uint256'), [5n, 20n]);
+    const batch = encodeAbiParameters(parseAbiParameters('uint256[], uint256[]'), [[1n, 2n], [3n, 4n]]);
+    const flows = extractTokenFlows({
+      logs: [
+        log(NFT, [TRANSFER_SINGLE_TOPIC, topic(OPERATOR), topic(ALICE), topic(BOB)], single, 1),
+        log(NFT, [TRANSFER_BATCH_TOPIC, topic(OPERATOR), topic(BOB), topic(ALICE)], batch, 2),
+      ],
+    });
+
+    expect(flows).toEqual([
+      { standard: 'erc1155', token: NFT, from: ALICE, to: BOB, amount: '20', tokenId: '5', logIndex: 1 },
+      { standard: 'erc1155', token: NFT, from: BOB, to: ALICE, amount: '3', tokenId: '1', logIndex: 2 },
+      { standard: 'erc1155', token: NFT, from: BOB, to: ALICE, amount: '4', tokenId: '2', logIndex: 2 },
+    ]);
+  });
+
+  it('turns WETH Deposit / Withdrawal into synthetic mint and burn flows', () => {
+    const flows = extractTokenFlows({
+      logs: [
+        log(WETH, [DEPOSIT_TOPIC, topic(ALICE)], toHex(5n, { size: 32 }), 1),
+        log(WETH, [WITHDRAWAL_TOPIC, topic(BOB)], toHex(2n, { size: 32 }), 2),
+      ],
+    });
+
+    expect(flows).toEqual([
+      { standard: 'erc20', token: WETH, from: ZERO, to: ALICE, amount: '5', logIndex: 1, synthetic: 'wrap' },
+      { standard: 'erc20', token: WETH, from: BOB, to: ZERO, amount: '2', logIndex: 2, synthetic: 'unwrap' },
+    ]);
+  });
+
+  it('does not synthesize flows when the wrapper already logs mint transfers', () => {
+    const flows = extractTokenFlows({
+      logs: [
+        log(WETH, [DEPOSIT_TOPIC, topic(ALICE)], toHex(5n, { size: 32 }), 1),
+        log(WETH, [TRANSFER_TOPIC, topic(ZERO), topic(ALICE)], toHex(5n, { size: 32 }), 2),
+      ],
+    });
+
+    expect(flows).toHaveLength(1);
+    expect(flows[0]!.synthetic).toBeUndefined();
+  });
+
+  it('skips malformed ERC1155 data', () => {
+    const flows = extractTokenFlows({
+      logs: [log(NFT, [TRANSFER_SINGLE_TOPIC, topic(OPERATOR), topic(ALICE), topic(BOB)], '0x01', 1)],
+    });
+    expect(flows).toEqual([]);
+  });
+});
+
+describe('extractNativeFlows', () => {
+  const trace: CallTrace = {
+    type: 'CALL',
+    from: ALICE,
+    to: OPERATOR,
+    value: '0x64',
+    calls: [
+      { type: 'CALL', from: OPERATOR, to: BOB, value: '0x0a' },
+      // A delegatecall keeps the value in the caller, a reverted frame moves nothing
+      { type: 'DELEGATECALL', from: OPERATOR, to: NFT, value: '0x64' },
+      { type: 'CALL', from: OPERATOR, to: NFT, value: '0x05', error: 'execution reverted' },
+    ],
+  };
+
+  it('takes value transfers from the call trace', () => {
+    const flows = extractNativeFlows({ from: ALICE, to: OPERATOR, value: '100' }, trace);
+
+    expect(flows.map((f) => [f.from, f.to, f.amount])).toEqual([
+      [ALICE, OPERATOR, '100'],
+      [OPERATOR, BOB, '10'],
+    ]);
+    expect(flows.map((f) => f.callIndex)).toEqual([0, 1]);
+    expect(flows.every((f) => f.standard === 'native' && f.token === NATIVE_TOKEN_ADDRESS)).toBe(true);
+  });
+
+  it('falls back to the tx value and successful internal txs without a trace', () => {
+    const internalTxs: InternalTransaction[] = [
+      { from: OPERATOR, to: BOB, value: '10', type: 'call', isError: '0' },
+      { from: OPERATOR, to: NFT, value: '5', type: 'call', isError: '1' },
+    ];
+    const flows = extractNativeFlows({ from: ALICE, to: OPERATOR, value: '100' }, null, internalTxs);
+
+    expect(flows.map((f) => [f.from, f.to, f.amount])).toEqual([
+      [ALICE, OPERATOR, '100'],
+      [OPERATOR, BOB, '10'],
+    ]);
+  });
+});
+
+describe('annotateTransferDiscrepancies', () => {
+  const transferCall = (amount: bigint): CallTrace => ({
+    type: 'CALL',
+    from: ALICE,
+    to: FOT_TOKEN,
+    input: encodeFunctionData({ abi: ERC20_ABI, functionName: 'transfer', args: [BOB, amount] }),
+  });
+
+  it('marks a fee-on-transfer flow with the requested amount', () => {
+    const flows = extractTokenFlows({
+      logs: [log(FOT_TOKEN, [TRANSFER_TOPIC, topic(ALICE), topic(BOB)], toHex(98n, { size: 32 }), 1)],
+    });
+
+    expect(annotateTransferDiscrepancies(flows, { type: 'CALL', from: ALICE, to: OPERATOR, calls: [transferCall(100n)] })).toBe(1);
+    expect(flows[0]!.amount).toBe('98');
+    expect(flows[0]!.requestedAmount).toBe('100');
+  });
+
+  it('leaves exact transfers and synthetic flows alone', () => {
+    const flows = extractTokenFlows({
+      logs: [
+        log(FOT_TOKEN, [TRANSFER_TOPIC, topic(ALICE), topic(BOB)], toHex(100n, { size: 32 }), 1),
+        log(WETH, [DEPOSIT_TOPIC, topic(ALICE)], toHex(5n, { size: 32 }), 2),
+      ],
+    });
+
+    expect(annotateTransferDiscrepancies(flows, transferCall(100n))).toBe(0);
+    expect(flows.every((f) => f.requestedAmount === undefined)).toBe(true);
+  });
+});
@@ -1,7 +1,20 @@
-import { createPublicClient, http, type Hash, type TransactionReceipt } from 'viem';
+import {
+  createPublicClient,
+  decodeAbiParameters,
+  decodeFunctionData,
+  parseAbi,
+  parseAbiParameters,
+  zeroAddress,
+  type Hash,
+  type PublicClient,
+  type TransactionReceipt,
+} from 'viem';
 import { mainnet } from 'viem/chains';
 import { config } from '../config/index.js';
-import type { Transaction, TokenFlow } from '../types/index.js';
+import { DEFAULT_CHAIN, getChainConfig } from '../config/chains.js';
+import { fixtureHttp } from './fixtures.js';
+import type { CallTrace } from './tenderly.js';
+import type { Transaction, TokenFlow, InternalTransaction } from '../types/index.js';
 import { spawnSync } from 'node:child_process';
 import { existsSync } from 'node:fs';
 import path from 'node:path';
@@ -11,9 +24,26 @@ import path from 'node:path';
  */
 export const publicClient = createPublicClient({
   chain: mainnet,
-  transport: http(config.rpcUrl),
+  transport: fixtureHttp(config.rpcUrl),
 });
 
+const CLIENTS_BY_CHAIN = new Map<string, PublicClient>([[DEFAULT_CHAIN, publicClient as PublicClient]]);
+
+/**
+ * Viem client for a chain from the chain registry (cached per chain)
+ */
+export function getPublicClient(chain: string = DEFAULT_CHAIN): PublicClient {
+  const chainConfig = getChainConfig(chain);
+  const existing = CLIENTS_BY_CHAIN.get(chainConfig.name);
+  if (existing) return existing;
+  const client = createPublicClient({
+    chain: chainConfig.viemChain,
+    transport: fixtureHttp(chainConfig.rpcUrl),
+  }) as PublicClient;
+  CLIENTS_BY_CHAIN.set(chainConfig.name, client);
+  return client;
+}
+
 let KECC_DB_PATH: string | null | undefined;
 const METHOD_SIG_CACHE = new Map<string, string | null>();
 
@@ -86,11 +116,12 @@ function lookupMethodSignatureFromDb(
 }
 
 
-export async function getTransactionDetails(txHash: Hash): Promise<Transaction> {
+export async function getTransactionDetails(txHash: Hash, chain: string = DEFAULT_CHAIN): Promise<Transaction> {
   try {
+    const client = getPublicClient(chain);
     const [tx, receipt] = await Promise.all([
-      publicClient.getTransaction({ hash: txHash }),
-      publicClient.getTransactionReceipt({ hash: txHash }),
+      client.getTransaction({ hash: txHash }),
+      client.getTransactionReceipt({ hash: txHash }),
     ]);
 
     return {
@@ -151,32 +182,230 @@ export function decodeCalldata(input: string): {
   };
 }
 
-export function extractTokenFlows(receipt: TransactionReceipt): TokenFlow[] {
+/**
+ * Pseudo token address used for native currency flows (ETH, MATIC, BNB, ...)
+ */
+export const NATIVE_TOKEN_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+// Transfer(address,address,uint256): ERC20 (3 topics) and ERC721 (tokenId indexed, 4 topics)
+const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+// TransferSingle(address,address,address,uint256,uint256)
+const TRANSFER_SINGLE_TOPIC = '0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62';
+// TransferBatch(address,address,address,uint256[],uint256[])
+const TRANSFER_BATCH_TOPIC = '0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb';
+// WETH9 Deposit(address,uint256) / Withdrawal(address,uint256)
+const DEPOSIT_TOPIC = '0xe1fffcc4923d04b559f4d29a8bfc6cda04eb5b0d3c460751c2402c5c5cc9109c';
+const WITHDRAWAL_TOPIC = '0x7fcf532c15f0a6db0bd6d0e038bea71d30d808c7d98cb3bf7268a95bf5081b65';
+
+const topicToAddress = (topic: string | undefined) => (topic ? `0x${topic.slice(26)}`.toLowerCase() : '');
+
+/**
+ * Whether Deposit / Withdrawal events of the chain's wrapped native token should become
+ * mint / burn flows (skipped for wrappers that already log Transfer from / to 0x0).
+ */
+function wrapperWithoutMintLogs(logs: TransactionReceipt['logs'], chain: string): string | null {
+  const wrapper = getChainConfig(chain).wrappedNativeToken;
+  const logsMints = logs.some((log) =>
+    log.address.toLowerCase() === wrapper &&
+    log.topics[0]?.toLowerCase() === TRANSFER_TOPIC &&
+    (topicToAddress(log.topics[1]) === zeroAddress || topicToAddress(log.topics[2]) === zeroAddress)
+  );
+  return logsMints ? null : wrapper;
+}
+
+/**
+ * ERC20 / ERC721 / ERC1155 transfers from receipt logs (amounts as decimal strings).
+ * Deposit / Withdrawal events of the wrapped native token become mint (from 0x0) / burn (to 0x0) flows.
+ */
+export function extractTokenFlows(receipt: Pick<TransactionReceipt, 'logs'>, chain: string = DEFAULT_CHAIN): TokenFlow[] {
   const tokenFlows: TokenFlow[] = [];
-  
-  // ERC20 Transfer event signature: Transfer(address,address,uint256)
-  const TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
-  
+  const wrapper = wrapperWithoutMintLogs(receipt.logs, chain);
+
   for (const log of receipt.logs) {
-    if (log.topics[0] === TRANSFER_TOPIC && log.topics.length >= 3) {
-      const from = '0x' + log.topics[1]?.slice(26); // Remove padding
-      const to = '0x' + log.topics[2]?.slice(26);
-      const amount = log.data;
-      
+    const topic0 = log.topics[0]?.toLowerCase();
+    const token = log.address.toLowerCase();
+    const logIndex = log.logIndex ?? undefined;
+
+    if (topic0 === TRANSFER_TOPIC && log.topics.length === 3) {
+      tokenFlows.push({
+        standard: 'erc20',
+        token,
+        from: topicToAddress(log.topics[1]),
+        to: topicToAddress(log.topics[2]),
+        amount: log.data && log.data !== '0x' ? BigInt(log.data.slice(0, 66)).toString() : '0',
+        logIndex,
+      });
+    } else if (topic0 === TRANSFER_TOPIC && log.topics.length === 4) {
+      tokenFlows.push({
+        standard: 'erc721',
+        token,
+        from: topicToAddress(log.topics[1]),
+        to: topicToAddress(log.topics[2]),
+        amount: '1',
+        tokenId: BigInt(log.topics[3]!).toString(),
+        logIndex,
+      });
+    } else if (
+      (topic0 === DEPOSIT_TOPIC || topic0 === WITHDRAWAL_TOPIC) &&
+      log.topics.length === 2 &&
+      token === wrapper
+    ) {
+      const account = topicToAddress(log.topics[1]);
+      const wrap = topic0 === DEPOSIT_TOPIC;
       tokenFlows.push({
-        token: log.address,
-        from: from || '',
-        to: to || '',
-        amount,
+        standard: 'erc20',
+        token,
+        from: wrap ? zeroAddress : account,
+        to: wrap ? account : zeroAddress,
+        amount: log.data && log.data !== '0x' ? BigInt(log.data.slice(0, 66)).toString() : '0',
+        logIndex,
+        synthetic: wrap ? 'wrap' : 'unwrap',
       });
+    } else if (topic0 === TRANSFER_SINGLE_TOPIC && log.topics.length === 4) {
+      try {
+        const [id, value] = decodeAbiParameters(parseAbiParameters('uint256, uint256'), log.data);
+        tokenFlows.push({
+          standard: 'erc1155',
+          token,
+          from: topicToAddress(log.topics[2]),
+          to: topicToAddress(log.topics[3]),
+          amount: value.toString(),
+          tokenId: id.toString(),
+          logIndex,
+        });
+      } catch {
+        // Malformed TransferSingle data
+      }
+    } else if (topic0 === TRANSFER_BATCH_TOPIC && log.topics.length === 4) {
+      try {
+        const [ids, values] = decodeAbiParameters(parseAbiParameters('uint256[], uint256[]'), log.data);
+        ids.forEach((id, i) => {
+          tokenFlows.push({
+            standard: 'erc1155',
+            token,
+            from: topicToAddress(log.topics[2]),
+            to: topicToAddress(log.topics[3]),
+            amount: (values[i] ?? 0n).toString(),
+            tokenId: id.toString(),
+            logIndex,
+          });
+        });
+      } catch {
+        // Malformed TransferBatch data
+      }
     }
   }
-  
+
   return tokenFlows;
 }
 
-export async function getContractCode(address: Hash): Promise<string> {
-  const code = await publicClient.getBytecode({ address });
+const ERC20_TRANSFER_ABI = parseAbi([
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+]);
+
+function collectTransferCalls(
+  call: CallTrace,
+  out: Array<{ token: string; from: string; to: string; amount: bigint }> = []
+): typeof out {
+  if (call.error) return out;
+  if ((call.type || 'CALL').toUpperCase() === 'CALL' && call.to && call.input && call.input.length >= 10) {
+    try {
+      const { functionName, args } = decodeFunctionData({ abi: ERC20_TRANSFER_ABI, data: call.input as Hash });
+      const [from, to, amount] = functionName === 'transfer'
+        ? [call.from, args[0], args[1]]
+        : [args[0], args[1], args[2]];
+      out.push({ token: call.to.toLowerCase(), from: from.toLowerCase(), to: to.toLowerCase(), amount });
+    } catch {
+      // Not a transfer / transferFrom call
+    }
+  }
+  for (const sub of call.calls ?? []) collectTransferCalls(sub, out);
+  return out;
+}
+
+/**
+ * Mark ERC20 flows whose logged amount differs from the amount passed to transfer /
+ * transferFrom in the trace (fee-on-transfer or rebasing share rounding) by setting
+ * `requestedAmount`. Returns the number of flows annotated.
+ */
+export function annotateTransferDiscrepancies(flows: TokenFlow[], trace?: CallTrace | null): number {
+  if (!trace) return 0;
+  const matched = new Set<TokenFlow>();
+  let annotated = 0;
+  for (const call of collectTransferCalls(trace)) {
+    const flow = flows.find((f) =>
+      !matched.has(f) &&
+      f.standard === 'erc20' &&
+      !f.synthetic &&
+      f.token === call.token &&
+      f.from === call.from &&
+      f.to === call.to
+    );
+    if (!flow) continue;
+    matched.add(flow);
+    if (BigInt(flow.amount) !== call.amount) {
+      flow.requestedAmount = call.amount.toString();
+      annotated++;
+    }
+  }
+  return annotated;
+}
+
+// Frames that move value between accounts (DELEGATECALL / CALLCODE keep it in the caller)
+const VALUE_TRANSFER_TYPES = new Set(['CALL', 'CREATE', 'CREATE2', 'SELFDESTRUCT']);
+
+function nativeFlow(from: string, to: string, value: bigint, callIndex?: number): TokenFlow {
+  return {
+    standard: 'native',
+    token: NATIVE_TOKEN_ADDRESS,
+    from: from.toLowerCase(),
+    to: to.toLowerCase(),
+    amount: value.toString(),
+    ...(callIndex !== undefined ? { callIndex } : {}),
+  };
+}
+
+/**
+ * `counter` numbers every frame depth-first (FlattenedCall.index), reverted ones included
+ */
+function collectNativeFlows(call: CallTrace, flows: TokenFlow[], counter = { n: 0 }, failedParent = false): void {
+  const callIndex = counter.n++;
+  // Reverted frames (and everything below them) move nothing
+  const failed = failedParent || Boolean(call.error);
+  const value = call.value ? BigInt(call.value) : 0n;
+  if (!failed && value > 0n && VALUE_TRANSFER_TYPES.has((call.type || 'CALL').toUpperCase()) && call.to) {
+    flows.push(nativeFlow(call.from, call.to, value, callIndex));
+  }
+  for (const sub of call.calls ?? []) collectNativeFlows(sub, flows, counter, failed);
+}
+
+/**
+ * Native currency flows from call-trace `value` fields (top-level value included).
+ * Without a trace, falls back to the tx value plus Etherscan internal transactions.
+ */
+export function extractNativeFlows(
+  tx: Pick<Transaction, 'from' | 'to' | 'value'>,
+  trace?: CallTrace | null,
+  internalTxs: InternalTransaction[] = []
+): TokenFlow[] {
+  const flows: TokenFlow[] = [];
+  if (trace) {
+    collectNativeFlows(trace, flows);
+    return flows;
+  }
+
+  if (tx.to && BigInt(tx.value) > 0n) flows.push(nativeFlow(tx.from, tx.to, BigInt(tx.value)));
+  for (const itx of internalTxs) {
+    if (itx.isError === '1' || !itx.to || !itx.value) continue;
+    const value = BigInt(itx.value);
+    if (value > 0n) flows.push(nativeFlow(itx.from, itx.to, value));
+  }
+  return flows;
+}
+
+export async function getContractCode(address: Hash, chain: string = DEFAULT_CHAIN): Promise<string> {
+  const code = await getPublicClient(chain).getBytecode({ address });
   return code || '0x';
 }
 
@@ -184,9 +413,9 @@ export async function getContractCode(address: Hash): Promise<string> {
  * 检测地址是否是合约
  * 通过检查地址的 bytecode，如果有代码则是合约
  */
-export async function isContract(address: string): Promise<boolean> {
+export async function isContract(address: string, chain: string = DEFAULT_CHAIN): Promise<boolean> {
   try {
-    const code = await publicClient.getBytecode({ 
+    const code = await getPublicClient(chain).getBytecode({ 
       address: address as Hash 
     });
     // 如果有代码且不是 '0x'，则是合约
@@ -201,7 +430,7 @@ export async function isContract(address: string): Promise<boolean> {
  * 尝试通过 RPC 调用 ERC20 标准方法来获取 token 信息
  * 这比 Etherscan API 更快，且不占用 API 配额
  */
-export async function getTokenInfoFromRPC(tokenAddress: string): Promise<{
+export async function getTokenInfoFromRPC(tokenAddress: string, chain: string = DEFAULT_CHAIN): Promise<{
   name: string | null;
   symbol: string | null;
   decimals: number | null;
@@ -212,17 +441,19 @@ export async function getTokenInfoFromRPC(tokenAddress: string): Promise<{
     const SYMBOL_SELECTOR = '0x95d89b41';    // symbol()
     const DECIMALS_SELECTOR = '0x313ce567';  // decimals()
 
+    const client = getPublicClient(chain);
+
     // 并行调用三个方法
     const [nameResult, symbolResult, decimalsResult] = await Promise.all([
-      publicClient.call({
+      client.call({
         to: tokenAddress as Hash,
         data: NAME_SELECTOR as Hash,
       }).catch(() => ({ data: undefined })),
-      publicClient.call({
+      client.call({
         to: tokenAddress as Hash,
         data: SYMBOL_SELECTOR as Hash,
       }).catch(() => ({ data: undefined })),
-      publicClient.call({
+      client.call({
         to: tokenAddress as Hash,
         data: DECIMALS_SELECTOR as Hash,
       }).catch(() => ({ data: undefined })),
@@ -244,6 +475,29 @@ export async function getTokenInfoFromRPC(tokenAddress: string): Promise<{
   }
 }
 
+/**
+ * Attach symbol / name / decimals to flows (RPC lookups for the first `limit` ERC20 tokens)
+ */
+export async function describeTokenFlows(flows: TokenFlow[], chain: string = DEFAULT_CHAIN, limit = 10): Promise<TokenFlow[]> {
+  const nativeSymbol = getChainConfig(chain).nativeSymbol;
+  const tokens = [...new Set(flows.filter((f) => f.standard === 'erc20').map((f) => f.token))].slice(0, limit);
+  const infos = new Map(
+    await Promise.all(tokens.map(async (token) => [token, await getTokenInfoFromRPC(token, chain)] as const))
+  );
+  return flows.map((flow) => {
+    if (flow.standard === 'native') {
+      return { ...flow, symbol: nativeSymbol, name: nativeSymbol, decimals: '18' };
+    }
+    const info = infos.get(flow.token);
+    return {
+      ...flow,
+      symbol: info?.symbol || undefined,
+      name: info?.name || undefined,
+      decimals: flow.standard === 'erc20' && info?.decimals != null ? String(info.decimals) : undefined,
+    };
+  });
+}
+
 /**
  * 解码字符串返回值（ABI string）
  */
@@ -284,6 +538,6 @@ function decodeUint8(data: string): number | null {
 /**
  * 批量获取区块信息
  */
-export async function getBlock(blockNumber: bigint) {
-  return await publicClient.getBlock({ blockNumber });
+export async function getBlock(blockNumber: bigint, chain: string = DEFAULT_CHAIN) {
+  return await getPublicClient(chain).getBlock({ blockNumber });
 }
@@ -0,0 +1,24 @@
+/**
+ * Lazily opened SQLite databases under data/ (analysis cache, contract metadata).
+ * When the native better-sqlite3 binding is unavailable the caller gets null and
+ * runs without persistence.
+ */
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+export const DATA_DIR = path.join(__dirname, '../../data');
+
+export function openSqlite(dbPath: string, schema: string, name: string): Database.Database | null {
+  try {
+    fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    const db = new Database(dbPath);
+    db.exec(schema);
+    return db;
+  } catch (error) {
+    console.warn(`⚠️  ${name} disabled: ${error instanceof Error ? error.message.split('\n')[0] : error}`);
+    return null;
+  }
+}
@@ -1,6 +1,10 @@
-import { createPublicClient, http, type Hash } from 'viem';
+import { createPublicClient, type Hash, type PublicClient } from 'viem';
 import { mainnet } from 'viem/chains';
 import { config } from '../config/index.js';
+import { DEFAULT_CHAIN, getChainConfig } from '../config/chains.js';
+import { anvilSimulateTransaction, anvilSimulateNewTransaction } from './anvil.js';
+import { fixtureHttp } from './fixtures.js';
+import { getTraceClient, normalizeSimulationResult } from './trace-provider.js';
 
 /**
  * Tenderly 客户端
@@ -8,10 +12,27 @@ import { config } from '../config/index.js';
 export const tenderlyClient = config.tenderlyRpcUrl 
   ? createPublicClient({
       chain: mainnet,
-      transport: http(config.tenderlyRpcUrl),
+      transport: fixtureHttp(config.tenderlyRpcUrl),
     })
   : null;
 
+/**
+ * Tenderly client for `chain`. TENDERLY_RPC_URL serves a single network (CHAIN_ID), so
+ * other chains get null, as in getTraceProvider.
+ */
+function getTenderlyClient(chain: string): PublicClient | null {
+  if (!config.tenderlyRpcUrl) {
+    console.log('   ⚠️  Tenderly RPC not configured');
+    return null;
+  }
+  const chainConfig = getChainConfig(chain);
+  if (chainConfig.etherscanChainId !== config.chainId) {
+    console.log(`   ⚠️  TENDERLY_RPC_URL serves chain ${config.chainId}, not ${chainConfig.name}`);
+    return null;
+  }
+  return getTraceClient(chainConfig.name, config.tenderlyRpcUrl);
+}
+
 /**
  * Tenderly 模拟交易接口
  */
@@ -86,6 +107,7 @@ export interface CallTrace {
   output?: string;
   error?: string;
   calls?: CallTrace[]; // 嵌套调用
+  logs?: CallTraceLog[]; // callTracer withLog: 本帧发出的日志
   
   // Tenderly 特有的解码信息
   function?: string;
@@ -94,6 +116,14 @@ export interface CallTrace {
   decodedOutput?: any;
 }
 
+export interface CallTraceLog {
+  address: string;
+  topics: string[];
+  data: string;
+  /** Number of sub-calls made by the frame before the log was emitted */
+  position?: number;
+}
+
 export interface DecodedLog {
   address: string;
   topics: string[];
@@ -146,13 +176,32 @@ export interface CodeChange {
 }
 
 /**
- * 使用 Tenderly 模拟交易
+ * Counterfactual changes for replaying a historical transaction
+ */
+export interface ReplayOverrides {
+  /** Preceding transactions of the block to leave out (Anvil backend only) */
+  excludeTxs?: string[];
+  /** Land the transaction at the top of this block instead of its own */
+  blockNumber?: number;
+  stateOverrides?: Record<string, StateOverride>;
+  blockOverrides?: BlockOverride;
+}
+
+/**
+ * 使用 Tenderly 模拟交易（SIMULATION_BACKEND=anvil 时改用本地 Anvil fork 回放）
  */
 export async function simulateTransaction(
-  txHash: string
+  txHash: string,
+  chain: string = DEFAULT_CHAIN,
+  overrides: ReplayOverrides = {}
 ): Promise<TenderlySimulationResult | null> {
-  if (!tenderlyClient) {
-    console.log('   ⚠️  Tenderly RPC not configured');
+  if (config.simulationBackend === 'anvil') {
+    return anvilSimulateTransaction(txHash, { chain, ...overrides });
+  }
+  const client = getTenderlyClient(chain);
+  if (!client) return null;
+  if (overrides.excludeTxs?.length) {
+    console.log('   ⚠️  Removing block transactions requires SIMULATION_BACKEND=anvil');
     return null;
   }
 
@@ -160,10 +209,15 @@ export async function simulateTransaction(
     console.log(`   🎭 [Tenderly] Simulating transaction ${txHash.slice(0, 10)}...`);
     
     // 先获取原始交易
-    const tx = await tenderlyClient.getTransaction({ hash: txHash as Hash });
+    const tx = await client.getTransaction({ hash: txHash as Hash });
+    // Like the Anvil fork, another landing block runs on the state after the block before it
+    const landing = overrides.blockNumber !== undefined ? BigInt(overrides.blockNumber) : null;
+    const blockOverrides = landing !== null
+      ? { number: `0x${landing.toString(16)}`, ...overrides.blockOverrides }
+      : overrides.blockOverrides;
     
     // 使用 tenderly_simulateTransaction
-    const result = await tenderlyClient.request({
+    const result = await client.request({
       method: 'tenderly_simulateTransaction' as any,
       params: [
         {
@@ -174,11 +228,14 @@ export async function simulateTransaction(
           value: `0x${tx.value.toString(16)}`,
           input: tx.input,
         },
-        `0x${tx.blockNumber!.toString(16)}`, // 在原始区块上模拟
+        // 在原始区块（或指定区块的前一个区块）上模拟
+        `0x${(landing !== null ? landing - 1n : tx.blockNumber!).toString(16)}`,
+        overrides.stateOverrides,
+        blockOverrides,
       ] as any,
     });
 
-    const simResult = result as any as TenderlySimulationResult;
+    const simResult = normalizeSimulationResult(result);
     
     console.log(`   ✅ [Tenderly] Simulation completed`);
     console.log(`      Gas Used: ${simResult.gasUsed || 'N/A'}`);
@@ -199,17 +256,19 @@ export async function simulateTransaction(
  * 模拟一个新的交易（不基于历史交易）
  */
 export async function simulateNewTransaction(
-  params: TenderlySimulationParams
+  params: TenderlySimulationParams,
+  chain: string = DEFAULT_CHAIN
 ): Promise<TenderlySimulationResult | null> {
-  if (!tenderlyClient) {
-    console.log('   ⚠️  Tenderly RPC not configured');
-    return null;
+  if (config.simulationBackend === 'anvil') {
+    return anvilSimulateNewTransaction(params, chain);
   }
+  const client = getTenderlyClient(chain);
+  if (!client) return null;
 
   try {
     console.log(`   🎭 [Tenderly] Simulating new transaction to ${params.to.slice(0, 10)}...`);
     
-    const result = await tenderlyClient.request({
+    const result = await client.request({
       method: 'tenderly_simulateTransaction' as any,
       params: [
         params,
@@ -220,7 +279,7 @@ export async function simulateNewTransaction(
     });
 
     console.log(`   ✅ [Tenderly] Simulation completed`);
-    return result as any as TenderlySimulationResult;
+    return normalizeSimulationResult(result);
   } catch (error) {
     console.error('   ❌ [Tenderly] Simulation failed:', error);
     return null;
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeSimulationResult } from './trace-provider.js';
+
+const ROUTER = '0x00000000000000000000000000000000000000a1';
+const POOL = '0x00000000000000000000000000000000000000b1';
+const TOKEN = '0x00000000000000000000000000000000000000c1';
+const SENDER = '0x00000000000000000000000000000000000000d1';
+
+describe('normalizeSimulationResult', () => {
+  it('nests a flat Tenderly trace and unwraps decoded logs', () => {
+    // Shape of a tenderly_simulateTransaction result (synthetic addresses)
+    const result = normalizeSimulationResult({
+      status: '0x1',
+      gasUsed: '0x5208',
+      trace: [
+        { type: 'CALL', from: SENDER, to: ROUTER, value: '0x0', input: '0x01', traceAddress: [] },
+        { type: 'CALL', from: ROUTER, to: POOL, input: '0x02', traceAddress: [0] },
+        { type: 'STATICCALL', from: POOL, to: TOKEN, input: '0x03', traceAddress: [0, 0] },
+        { type: 'CALL', from: ROUTER, to: TOKEN, input: '0x04', error: 'execution reverted', traceAddress: [1] },
+      ],
+      logs: [
+        { name: 'Transfer', inputs: [], raw: { address: TOKEN, topics: ['0xdd'], data: '0x' } },
+      ],
+    });
+
+    expect(result.status).toBe(true);
+    expect(result.gasUsed).toBe('0x5208');
+    expect(result.trace).toHaveLength(1);
+    const root = result.trace[0]!;
+    expect(root.to).toBe(ROUTER);
+    expect(root.calls?.map((c) => c.to)).toEqual([POOL, TOKEN]);
+    expect(root.calls?.[0]?.calls?.[0]?.type).toBe('STATICCALL');
+    expect(root.calls?.[1]?.error).toBe('execution reverted');
+    expect(result.logs).toEqual([{ address: TOKEN, topics: ['0xdd'], data: '0x', name: 'Transfer' }]);
+  });
+
+  it('keeps an already nested trace and plain logs', () => {
+    const result = normalizeSimulationResult({
+      status: false,
+      gasUsed: 21000,
+      trace: [{ type: 'CALL', from: SENDER, to: ROUTER, calls: [{ type: 'CALL', from: ROUTER, to: POOL }] }],
+      logs: [{ address: TOKEN, topics: [], data: '0x' }],
+    });
+
+    expect(result.status).toBe(false);
+    expect(result.gasUsed).toBe('0x5208');
+    expect(result.trace[0]!.calls?.[0]?.to).toBe(POOL);
+    expect(result.logs).toEqual([{ address: TOKEN, topics: [], data: '0x' }]);
+  });
+});
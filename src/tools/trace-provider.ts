@@ -0,0 +1,322 @@
+/**
+ * Trace providers: where the historical call trace of a transaction comes from.
+ *
+ * - tenderly: Tenderly node RPC (TENDERLY_RPC_URL), debug_traceTransaction + callTracer
+ * - debug:    any archive node (Geth, Reth, Erigon, Nethermind) with debug_traceTransaction + callTracer
+ * - parity:   Erigon / OpenEthereum style trace_transaction (flat traces rebuilt into a call tree)
+ * - anvil:    local Anvil fork (ANVIL_RPC_URL); callTracer first, trace_transaction as fallback
+ *
+ * All providers return the TenderlySimulationResult shape used by the rest of the pipeline.
+ */
+import { createPublicClient, type Hash, type PublicClient } from 'viem';
+import { config } from '../config/index.js';
+import { getChainConfig } from '../config/chains.js';
+import type { TenderlySimulationResult, CallTrace } from './tenderly.js';
+import { fixtureHttp } from './fixtures.js';
+
+export type TraceProviderKind = 'tenderly' | 'debug' | 'parity' | 'anvil';
+
+export const TRACE_PROVIDER_KINDS: TraceProviderKind[] = ['tenderly', 'debug', 'parity', 'anvil'];
+
+export interface TraceProvider {
+  kind: TraceProviderKind;
+  /** Human readable name for logs */
+  name: string;
+  traceTransaction(txHash: string): Promise<TenderlySimulationResult | null>;
+}
+
+export const DEFAULT_ANVIL_RPC_URL = 'http://127.0.0.1:8545';
+
+const TRACE_CLIENTS = new Map<string, PublicClient>();
+
+export function getTraceClient(chain: string, rpcUrl: string): PublicClient {
+  const key = `${chain}:${rpcUrl}`;
+  const existing = TRACE_CLIENTS.get(key);
+  if (existing) return existing;
+  const client = createPublicClient({
+    chain: getChainConfig(chain).viemChain,
+    transport: fixtureHttp(rpcUrl),
+  }) as PublicClient;
+  TRACE_CLIENTS.set(key, client);
+  return client;
+}
+
+function convertCallTracerFrame(t: any): CallTrace {
+  return {
+    type: t.type || 'CALL',
+    from: t.from,
+    to: t.to,
+    value: t.value,
+    gas: t.gas,
+    gasUsed: t.gasUsed,
+    input: t.input,
+    output: t.output,
+    error: t.error,
+    calls: t.calls ? t.calls.map(convertCallTracerFrame) : undefined,
+    logs: t.logs
+      ? t.logs.map((log: any) => ({
+          address: log.address,
+          topics: log.topics ?? [],
+          data: log.data ?? '0x',
+          position: log.position !== undefined ? Number(log.position) : undefined,
+        }))
+      : undefined,
+  };
+}
+
+interface ParityTrace {
+  type: 'call' | 'create' | 'suicide' | 'reward';
+  action: Record<string, any>;
+  result?: Record<string, any> | null;
+  error?: string;
+  traceAddress: number[];
+}
+
+function convertParityTrace(t: ParityTrace): CallTrace {
+  const { action, result } = t;
+  if (t.type === 'create') {
+    return {
+      type: action.creationMethod === 'create2' ? 'CREATE2' : 'CREATE',
+      from: action.from,
+      to: result?.address ?? '',
+      value: action.value,
+      gas: action.gas,
+      gasUsed: result?.gasUsed,
+      input: action.init,
+      output: result?.code,
+      error: t.error,
+    };
+  }
+  if (t.type === 'suicide') {
+    return {
+      type: 'SELFDESTRUCT',
+      from: action.address,
+      to: action.refundAddress,
+      value: action.balance,
+      error: t.error,
+    };
+  }
+  return {
+    type: String(action.callType || 'call').toUpperCase(),
+    from: action.from,
+    to: action.to,
+    value: action.value,
+    gas: action.gas,
+    gasUsed: result?.gasUsed,
+    input: action.input,
+    output: result?.output,
+    error: t.error,
+  };
+}
+
+/**
+ * Nest flat frames (ordered, addressed by traceAddress) into a call tree
+ */
+function nestByTraceAddress<T extends { traceAddress: number[] }>(
+  traces: T[],
+  convert: (t: T) => CallTrace | null
+): CallTrace | null {
+  const byPath = new Map<string, CallTrace>();
+  let root: CallTrace | null = null;
+
+  for (const t of traces) {
+    const node = convert(t);
+    if (!node) continue;
+    byPath.set(t.traceAddress.join(','), node);
+    if (t.traceAddress.length === 0) {
+      root = node;
+      continue;
+    }
+    const parent = byPath.get(t.traceAddress.slice(0, -1).join(','));
+    if (parent) {
+      parent.calls = [...(parent.calls ?? []), node];
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Rebuild the nested call tree from parity-style flat traces (ordered, addressed by traceAddress)
+ */
+export function buildCallTreeFromParityTraces(traces: ParityTrace[]): CallTrace | null {
+  return nestByTraceAddress(traces, (t) => (t.type === 'reward' ? null : convertParityTrace(t)));
+}
+
+/**
+ * Convert a raw tenderly_simulateTransaction result to the shape the trace path returns:
+ * a flat trace (frames with `traceAddress`) is nested into one callTracer-style root, logs
+ * decoded by Tenderly (`{ name, inputs, raw }`) become plain receipt logs and the status is
+ * a boolean.
+ */
+export function normalizeSimulationResult(raw: any): TenderlySimulationResult {
+  const frames: any[] = Array.isArray(raw?.trace) ? raw.trace : [];
+  const flat = frames.some((f) => Array.isArray(f?.traceAddress));
+  const root = flat
+    ? nestByTraceAddress(frames, (f) => convertCallTracerFrame({ ...f, calls: undefined, logs: undefined }))
+    : frames[0]
+      ? convertCallTracerFrame(frames[0])
+      : null;
+  const status = raw?.status;
+
+  return {
+    ...raw,
+    gasUsed: raw?.gasUsed !== undefined ? `0x${BigInt(raw.gasUsed).toString(16)}` : '0x0',
+    status: status === true || status === 1 || status === '0x1' || status === 'success',
+    trace: root ? [root] : [],
+    logs: (raw?.logs ?? []).map((log: any) => {
+      const plain = log.raw ?? log;
+      return {
+        address: plain.address,
+        topics: plain.topics ?? [],
+        data: plain.data ?? '0x',
+        ...(log.name ? { name: log.name } : {}),
+      };
+    }),
+  };
+}
+
+function countCalls(t: CallTrace): number {
+  return 1 + (t.calls ?? []).reduce((sum, c) => sum + countCalls(c), 0);
+}
+
+async function traceWith(
+  client: PublicClient,
+  name: string,
+  txHash: string,
+  fetchRoot: () => Promise<CallTrace | null>
+): Promise<TenderlySimulationResult | null> {
+  try {
+    console.log(`   🔍 [Trace] Tracing ${txHash.slice(0, 10)}... via ${name}`);
+    const [receipt, root] = await Promise.all([
+      client.getTransactionReceipt({ hash: txHash as Hash }),
+      fetchRoot(),
+    ]);
+    if (!root) {
+      console.log(`   ⚠️  [Trace] ${name} returned an empty trace`);
+      return null;
+    }
+
+    console.log(`   ✅ [Trace] Trace obtained successfully!`);
+    console.log(`      Actual Gas Used: ${receipt.gasUsed}`);
+    console.log(`      Status: ${receipt.status === 'success' ? '✅ Success' : '❌ Failed'}`);
+    console.log(`      Total Calls: ${countCalls(root)}`);
+    console.log(`      Logs: ${receipt.logs.length}`);
+
+    return {
+      gasUsed: `0x${receipt.gasUsed.toString(16)}`,
+      status: receipt.status === 'success',
+      trace: [root],
+      logs: receipt.logs.map((log) => ({
+        address: log.address,
+        topics: [...log.topics],
+        data: log.data,
+      })),
+    };
+  } catch (error) {
+    console.error(`   ❌ [Trace] ${name} trace failed:`, error);
+    console.error('      This may indicate:');
+    console.error('      - The node does not expose this tracing method');
+    console.error('      - Transaction is too old (archive data not available)');
+    console.error('      - Network connectivity issues');
+    return null;
+  }
+}
+
+export async function fetchCallTracerRoot(client: PublicClient, txHash: string): Promise<CallTrace | null> {
+  const trace = await client.request({
+    method: 'debug_traceTransaction' as any,
+    params: [txHash, { tracer: 'callTracer', tracerConfig: { withLog: true } }] as any,
+  });
+  return trace ? convertCallTracerFrame(trace) : null;
+}
+
+async function fetchParityRoot(client: PublicClient, txHash: string): Promise<CallTrace | null> {
+  const traces = await client.request({
+    method: 'trace_transaction' as any,
+    params: [txHash] as any,
+  });
+  return Array.isArray(traces) ? buildCallTreeFromParityTraces(traces as unknown as ParityTrace[]) : null;
+}
+
+export function createCallTracerProvider(
+  client: PublicClient,
+  name: string,
+  kind: TraceProviderKind = 'debug'
+): TraceProvider {
+  return {
+    kind,
+    name,
+    traceTransaction: (txHash) => traceWith(client, name, txHash, () => fetchCallTracerRoot(client, txHash)),
+  };
+}
+
+export function createParityTraceProvider(client: PublicClient, name: string): TraceProvider {
+  return {
+    kind: 'parity',
+    name,
+    traceTransaction: (txHash) => traceWith(client, name, txHash, () => fetchParityRoot(client, txHash)),
+  };
+}
+
+export function createAnvilTraceProvider(client: PublicClient, name: string): TraceProvider {
+  return {
+    kind: 'anvil',
+    name,
+    traceTransaction: (txHash) =>
+      traceWith(client, name, txHash, async () => {
+        try {
+          return await fetchCallTracerRoot(client, txHash);
+        } catch {
+          return fetchParityRoot(client, txHash);
+        }
+      }),
+  };
+}
+
+function resolveProviderKind(): TraceProviderKind | null {
+  const configured = config.traceProvider?.trim().toLowerCase();
+  if (configured) {
+    if (configured === 'none') return null;
+    if (!TRACE_PROVIDER_KINDS.includes(configured as TraceProviderKind)) {
+      console.warn(`⚠️  Unknown TRACE_PROVIDER "${configured}", expected one of: ${TRACE_PROVIDER_KINDS.join(', ')}`);
+      return null;
+    }
+    return configured as TraceProviderKind;
+  }
+  return config.useTenderlySimulation && config.tenderlyRpcUrl ? 'tenderly' : null;
+}
+
+/**
+ * Trace provider for a chain, selected by TRACE_PROVIDER (defaults to Tenderly when
+ * USE_TENDERLY_SIMULATION=true). TENDERLY_RPC_URL, TRACE_RPC_URL and ANVIL_RPC_URL point at
+ * a single network (CHAIN_ID); on other chains the debug/parity providers use the chain's RPC.
+ * Returns null when no provider is usable for the chain.
+ */
+export function getTraceProvider(chain: string): TraceProvider | null {
+  const kind = resolveProviderKind();
+  if (!kind) return null;
+
+  const chainConfig = getChainConfig(chain);
+  const isConfiguredChain = chainConfig.etherscanChainId === config.chainId;
+
+  switch (kind) {
+    case 'tenderly':
+      if (!config.tenderlyRpcUrl || !isConfiguredChain) return null;
+      return createCallTracerProvider(getTraceClient(chainConfig.name, config.tenderlyRpcUrl), 'Tenderly', 'tenderly');
+    case 'debug':
+    case 'parity': {
+      const rpcUrl = isConfiguredChain && config.traceRpcUrl ? config.traceRpcUrl : chainConfig.rpcUrl;
+      const client = getTraceClient(chainConfig.name, rpcUrl);
+      return kind === 'debug'
+        ? createCallTracerProvider(client, 'debug_traceTransaction')
+        : createParityTraceProvider(client, 'trace_transaction');
+    }
+    case 'anvil':
+      if (!isConfiguredChain) return null;
+      return createAnvilTraceProvider(
+        getTraceClient(chainConfig.name, config.anvilRpcUrl || DEFAULT_ANVIL_RPC_URL),
+        'Anvil'
+      );
+  }
+}
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { TenderlySimulationResult } from '../tools/tenderly.js';
+import { BlockOverride, TenderlySimulationResult } from '../tools/tenderly.js';
 
 /**
  * 交易基础信息
@@ -32,16 +32,137 @@ export interface DecodedCall {
 /**
  * 代币流转信息
  */
+export type TokenStandard = 'native' | 'erc20' | 'erc721' | 'erc1155';
+
 export interface TokenFlow {
+  standard: TokenStandard;
+  /** NATIVE_TOKEN_ADDRESS for native currency */
   token: string;
   from: string;
   to: string;
+  /** Decimal string; 1 for ERC721 */
   amount: string;
+  tokenId?: string;
+  logIndex?: number;
+  /** Synthesised from a WETH-style Deposit (mint from 0x0) / Withdrawal (burn to 0x0) */
+  synthetic?: 'wrap' | 'unwrap';
+  /** Amount passed to transfer / transferFrom when the logged amount differs (fee-on-transfer, rebasing) */
+  requestedAmount?: string;
+  /** Borrow / repayment of a flash loan; `principal` is financing, only the rest of a repayment is a cost */
+  financing?: { kind: 'borrow' | 'repay'; provider: string; principal: string };
+  /** FlattenedCall index of the value-moving call (native flows taken from a trace) */
+  callIndex?: number;
   symbol?: string;
   name?: string;
   decimals?: string;
 }
 
+/**
+ * Net change of one token for one address
+ */
+export interface TokenDelta {
+  token: string;
+  standard: TokenStandard;
+  symbol?: string;
+  decimals?: string;
+  /** Signed decimal string (number of NFTs for ERC721) */
+  delta: string;
+  /** ERC1155 id (one delta per id) */
+  tokenId?: string;
+  /** ERC721 ids received / sent */
+  tokenIdsIn?: string[];
+  tokenIdsOut?: string[];
+  /** Signed USD value at the tx's block (fungible tokens with an on-chain price) */
+  valueUsd?: number;
+}
+
+/**
+ * Net balance changes of an address over the transaction, gas and coinbase payments included
+ */
+export interface BalanceDelta {
+  address: string;
+  label?: string;
+  roles: Array<'sender' | 'recipient' | 'coinbase'>;
+  changes: TokenDelta[];
+  /** Gas fee paid (sender only, already in the native delta) */
+  gasFee?: string;
+  /** Priority fee earned (coinbase only, already in the native delta) */
+  priorityFee?: string;
+  /** Sum of the priced changes in USD */
+  netUsd?: number;
+}
+
+/**
+ * USD result of the transaction for its sender (EOA, plus its executor contract when the
+ * detected pattern names one), priced at the tx's block
+ */
+export interface ProfitSummary {
+  accounts: string[];
+  blockNumber: number;
+  nativePriceUsd: number | null;
+  /** Net profit before gas and direct coinbase transfers */
+  grossProfitUsd: number | null;
+  gasCostUsd: number | null;
+  /** Everything the block producer earned from the tx: priority fee + direct coinbase transfers */
+  builderTipUsd: number | null;
+  coinbaseTransferUsd: number | null;
+  netProfitUsd: number | null;
+  /** Tokens held by the accounts whose changes could not be priced (excluded from the totals) */
+  unpricedTokens: string[];
+}
+
+/**
+ * Gas paid by a transaction relative to its block (wei strings), read from the chain at that block
+ */
+export interface GasContext {
+  blockNumber: number;
+  baseFeePerGas: string | null;
+  /** Effective gas price of the tx */
+  gasPrice: string;
+  priorityFeePerGas: string;
+  blockMedianPriorityFee: string | null;
+  /** Share of the other block txs paying a lower priority fee (0-100) */
+  priorityFeePercentile: number | null;
+  txIndex: number;
+  blockTxCount: number;
+  /** First transaction of the block */
+  topOfBlock: boolean;
+  blockGasUsedRatio: number;
+  /** Base fee of the surrounding blocks (tx block included), oldest first */
+  surroundingBaseFees: Array<{ blockNumber: number; baseFeePerGas: string | null }>;
+  /** Tip far above the block median, or no tip in a block where others tip */
+  isAbnormal: boolean;
+}
+
+/**
+ * Native currency sent straight to the block fee recipient from inside the transaction
+ */
+export interface CoinbaseTransfer {
+  from: string;
+  amount: string;
+  /** FlattenedCall index of the transferring call (trace only) */
+  callIndex?: number;
+}
+
+/**
+ * Payment to the block producer: priority fee plus direct coinbase transfers (wei strings)
+ */
+export interface BuilderPayment {
+  feeRecipient: string;
+  /** Label of the fee recipient (e.g. "beaverbuild"), null when unknown */
+  builder: string | null;
+  baseFeePerGas: string | null;
+  effectiveGasPrice: string;
+  priorityFeePerGas: string;
+  priorityFee: string;
+  coinbaseTransfers: CoinbaseTransfer[];
+  coinbaseTransferTotal: string;
+  totalPayment: string;
+  totalPaymentUsd: number | null;
+  /** totalPaymentUsd / grossProfitUsd of the sender; null when the profit is unknown or not positive */
+  bribeRatio: number | null;
+}
+
 /**
  * 内部交易信息
  */
@@ -58,11 +179,19 @@ export interface InternalTransaction {
 /**
  * Enriched info for an address in the call trace
  */
+export interface ProxyInfo {
+  type: 'eip1967' | 'eip1967_beacon' | 'eip1822' | 'gnosis_safe';
+  implementation: string;
+  beacon?: string;
+}
+
 export interface CallTraceAddressInfo {
   label: string | null;
   isContract: boolean;
+  /** Implementation ABI first when the address is a proxy */
   abi?: any[] | null;
   source?: string | null;
+  proxy?: ProxyInfo | null;
 }
 
 /**
@@ -78,8 +207,386 @@ export interface FlattenedCall {
   gas?: string;
   gasUsed?: string;
   input?: string;
+  output?: string;
+  error?: string;
   functionSelector?: string;
-  decodedInput?: any;
+  functionName?: string;
+  functionSignature?: string;
+  /** abi: callee's verified ABI; selector_db: kecc4k256 signature (no names / outputs) */
+  decodingSource?: DecodedTraceCall['source'];
+  decodedInput?: DecodedParam[];
+  decodedOutput?: DecodedParam[];
+}
+
+export interface DecodedParam {
+  name: string;
+  type: string;
+  value: unknown;
+}
+
+/**
+ * Receipt log decoded with the emitter's ABI or the built-in event library
+ */
+export interface DecodedEvent {
+  logIndex: number;
+  address: string;
+  /** null when the event could not be decoded (raw topics / data kept) */
+  name: string | null;
+  signature?: string;
+  source?: 'abi' | 'builtin';
+  args?: DecodedParam[];
+  topics?: string[];
+  data?: string;
+  /** FlattenedCall.index of the emitting call frame */
+  callIndex?: number;
+}
+
+export interface DecodedTraceCall {
+  functionName: string;
+  signature: string;
+  source: 'abi' | 'selector_db';
+  inputs?: DecodedParam[];
+  outputs?: DecodedParam[];
+}
+
+/**
+ * Decoded revert data of a failed call
+ */
+export interface RevertReason {
+  /** error: Error(string); panic: Panic(uint256); custom: custom error; empty: no revert data */
+  kind: 'error' | 'panic' | 'custom' | 'empty' | 'unknown';
+  selector?: string;
+  /** Revert string, panic description or custom error name */
+  message: string | null;
+  signature?: string;
+  args?: DecodedParam[];
+  panicCode?: number;
+  source?: 'abi' | 'selector_db' | 'builtin';
+}
+
+export type FailureCategory =
+  | 'slippage'
+  | 'deadline'
+  | 'insufficient_balance'
+  | 'transfer_failed'
+  | 'out_of_gas'
+  | 'arithmetic'
+  | 'access_control'
+  | 'strategy_guard'
+  | 'unknown';
+
+/**
+ * Why a transaction reverted: the call the revert originated in and its decoded reason
+ */
+export interface FailureAnalysis {
+  /** Innermost call the revert originated in (FlattenedCall index); null without a trace */
+  origin: {
+    index: number;
+    depth: number;
+    from: string;
+    to: string;
+    label: string | null;
+    functionName: string | null;
+    error: string;
+  } | null;
+  /** Reverting frames from the top-level call down to the origin */
+  path: Array<{ index: number; to: string; label: string | null; functionName: string | null }>;
+  reason: RevertReason;
+  category: FailureCategory;
+  /** Calls that completed before the revert (all rolled back) */
+  succeededCalls: number;
+  /** The sender's own contract reverted after its calls succeeded (e.g. an MEV bot's profit check) */
+  strategyGuard: boolean;
+  explanation: string;
+}
+
+/**
+ * DEX swap decoded from a pool's Swap event
+ */
+export interface Swap {
+  /** Pool address; the pool id for Uniswap V4 */
+  pool: string;
+  /** uniswap_v2, sushiswap, uniswap_v3, sushiswap_v3, uniswap_v4, curve, balancer_v2 */
+  protocol: string;
+  /**
+   * NATIVE_TOKEN_ADDRESS for native currency (Uniswap V4); `<pool id>:currency0|1` when a
+   * V4 pool's currencies are unknown
+   */
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string;
+  sender: string;
+  recipient: string;
+  logIndex: number;
+  /** flattenedCalls index of the call that emitted the Swap event */
+  callIndex?: number;
+  /** Router / aggregator the swap was executed through (uniswap_universal_router, 1inch, ...) */
+  router?: string;
+}
+
+/**
+ * Uniswap V3 position change (Mint/Burn/Collect) on a pool
+ */
+export interface LiquidityEvent {
+  type: 'mint' | 'burn' | 'collect';
+  pool: string;
+  owner: string;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: string;
+  amount0: string;
+  amount1: string;
+  logIndex: number;
+  /** NonfungiblePositionManager position id, when the position is held through the NFT manager */
+  tokenId?: string;
+}
+
+/**
+ * Flash loan taken within the transaction
+ */
+export interface FlashLoan {
+  provider: string;
+  pool: string;
+  token: string;
+  amount: string;
+  fee: string;
+  receiver: string;
+  logIndex: number;
+  /** Set once matched against the token flows: the principal came back to the lender */
+  repaid?: boolean;
+  /** flattenedCalls index of the lender's callback into the receiver */
+  callbackIndex?: number;
+  symbol?: string;
+  decimals?: string;
+  amountUsd?: number | null;
+  feeUsd?: number | null;
+}
+
+/**
+ * Lending-protocol liquidation decoded from its event. USD values come from the
+ * protocol's own oracle at the tx's block and are null when it cannot be read.
+ */
+export interface Liquidation {
+  protocol: string;
+  market: string;
+  marketLabel?: string | null;
+  borrower: string;
+  liquidator: string | null;
+  debtAsset: string | null;
+  debtRepaid: string;
+  collateralAsset: string | null;
+  collateralSeized: string;
+  ilk?: string;
+  debtRepaidUsd: number | null;
+  collateralSeizedUsd: number | null;
+  bonusUsd: number | null;
+  logIndex: number;
+}
+
+/**
+ * A transaction of the surrounding block, reduced to what the MEV detectors need
+ */
+export interface BlockTxContext {
+  hash: string;
+  index: number;
+  from: string;
+  to: string | null;
+  status: 'success' | 'reverted';
+  gasUsed: string;
+  effectiveGasPrice: string;
+  tokenFlows: TokenFlow[];
+  swaps: Swap[];
+  liquidityEvents: LiquidityEvent[];
+  /** Receipt logs (only when loaded with `includeLogs`) */
+  logs?: Array<{ address: string; topics: readonly string[]; data: string; logIndex?: number | null }>;
+}
+
+/**
+ * Neighbouring transactions of the analyzed tx within its block
+ */
+export interface BlockContext {
+  blockNumber: number;
+  timestamp: number;
+  miner: string;
+  baseFeePerGas: string | null;
+  transactionCount: number;
+  txs: BlockTxContext[];
+}
+
+/**
+ * Related transactions of one MEV opportunity within a block (e.g. frontrun, victim, backrun)
+ */
+export interface MEVBundle {
+  type: Exclude<MEVType, 'unknown'>;
+  confidence: number;
+  txs: Array<{ hash: string; index: number; role: string }>;
+  searcher: string;
+  searcherContract: string | null;
+  victim: string | null;
+  protocols: string[];
+  /** Net token change of the searcher over its own txs in the bundle (raw units) */
+  profitByToken: Record<string, string>;
+  /** Gas paid and priority fee of the searcher's txs (wei) */
+  gasCost: string;
+  priorityFee: string;
+  grossProfitUsd: number | null;
+  gasCostUsd: number | null;
+  netProfitUsd: number | null;
+  /** Pattern as detected from the bundle's first searcher tx */
+  pattern: MEVPattern;
+}
+
+/**
+ * Rule-based MEV summary of a whole block
+ */
+export interface BlockMEVSummary {
+  chain: string;
+  blockNumber: number;
+  timestamp: number;
+  miner: string;
+  builder: string | null;
+  baseFeePerGas: string | null;
+  transactionCount: number;
+  /** Txs that went through the detectors (successful txs with swaps, liquidity or lending events) */
+  candidateTxs: number;
+  bundles: MEVBundle[];
+  totals: {
+    bundles: number;
+    byType: Partial<Record<MEVType, number>>;
+    grossProfitUsd: number | null;
+    gasCostUsd: number | null;
+    netProfitUsd: number | null;
+    priorityFee: string;
+  };
+}
+
+/**
+ * Profile of an address: what it is, what it recently did and whether it behaves like an MEV bot
+ */
+export interface AddressReport {
+  address: string;
+  chain: string;
+  kind: 'eoa' | 'contract' | 'proxy';
+  /** Known entity label (local address DB) */
+  label: string | null;
+  contractName: string | null;
+  verified: boolean;
+  proxy: ProxyInfo | null;
+  /** Function signatures of the verified (implementation) ABI */
+  functions: string[];
+  /** Native balance (wei) and nonce at the latest block */
+  balance: string;
+  nonce: number;
+  recentTransactions: {
+    sampled: number;
+    failed: number;
+    firstTimestamp: number | null;
+    lastTimestamp: number | null;
+    /** Over the sampled txs the address sent (every sampled tx for a contract) */
+    txsPerDay: number | null;
+    /** Share of sampled txs sent by the address (every sampled tx for a contract) that landed in the first block positions */
+    topOfBlockShare: number | null;
+    counterparties: Array<{ address: string; label?: string; count: number }>;
+    methods: Array<{ name: string; count: number }>;
+    latest: Array<{
+      hash: string; blockNumber: number; timestamp: number; from: string; to: string | null;
+      value: string; method: string | null; failed: boolean; transactionIndex: number | null;
+    }>;
+  };
+  tokenTransfers: {
+    sampled: number;
+    tokens: Array<{ token: string; symbol: string | null; received: number; sent: number }>;
+  };
+  /** Native payments by the address to the fee recipient of the same block */
+  coinbasePayments: { count: number; total: string; blocksChecked: number };
+  mevBot: { likely: boolean; signals: string[] };
+}
+
+/**
+ * Outcome of simulating an unsigned transaction on top of a block
+ */
+export interface SimulationReport {
+  chain: string;
+  /** Block the transaction was simulated on top of */
+  blockNumber: number;
+  from: string;
+  to: string;
+  value: string;
+  input: string;
+  /** Function called on `to` (from calldata encoding or the trace decoder) */
+  functionName: string | null;
+  status: boolean;
+  gasUsed: string;
+  /** Revert reason of the top-level call */
+  error: string | null;
+  failure?: FailureAnalysis | null;
+  summary: string;
+  steps: string[];
+  tokenFlows: TokenFlow[];
+  swaps: Swap[];
+  balanceDeltas: BalanceDelta[];
+  profit: ProfitSummary | null;
+  callTraceExplanation?: string;
+  flattenedCalls?: FlattenedCall[];
+  events?: DecodedEvent[];
+  stateChanges: number;
+}
+
+/**
+ * Difference in one address's net change of one token between the real and a counterfactual execution
+ */
+export interface BalanceDiff {
+  address: string;
+  label?: string;
+  token: string;
+  standard: TokenStandard;
+  symbol?: string;
+  decimals?: string;
+  tokenId?: string;
+  actual: string;
+  counterfactual: string;
+  /** counterfactual - actual */
+  difference: string;
+  differenceUsd?: number;
+}
+
+/**
+ * Total transferred between two addresses for a token, real vs counterfactual (decimal strings)
+ */
+export interface FlowDiff {
+  token: string;
+  standard: TokenStandard;
+  symbol?: string;
+  tokenId?: string;
+  from: string;
+  to: string;
+  actual: string;
+  counterfactual: string;
+}
+
+/**
+ * Historical transaction replayed with other block txs removed, in another block or with overridden state
+ */
+export interface CounterfactualReport {
+  txHash: string;
+  chain: string;
+  scenario: {
+    description: string;
+    excludedTxs: string[];
+    /** Block the replay landed in (the tx's own block unless moved) */
+    blockNumber: number;
+    /** Addresses with state overrides */
+    stateOverrides: string[];
+    blockOverrides: BlockOverride | null;
+  };
+  actual: { blockNumber: number; status: boolean; gasUsed: string };
+  counterfactual: { status: boolean; gasUsed: string; error: string | null };
+  balanceDiffs: BalanceDiff[];
+  flowDiffs: FlowDiff[];
+  /** Priced balance differences of the sending EOA */
+  senderDifferenceUsd: number | null;
+  counterfactualBalanceDeltas: BalanceDelta[];
 }
 
 /**
@@ -123,9 +630,12 @@ export interface AnalysisState {
   // Input
   txHash: string;
   chain: string;
+  /** Unsigned transaction simulated on top of `rawTx.blockNumber` (not mined) */
+  simulated?: boolean;
   
   // Extract stage
   rawTx?: Transaction;
+  receipt?: any;
   decodedCalls?: DecodedCall[];
   tokenFlows?: TokenFlow[];
   
@@ -137,19 +647,26 @@ export interface AnalysisState {
   addressLabels?: Record<string, string>; // address -> label
   contractABI?: any[] | null; // 合约 ABI（用于解码）
   contractSource?: string | null; // 合约源码（用于深入分析）
-  gasContext?: {
-    currentPrice: string;
-    baseFee: string;
-    isAbnormal: boolean;
-  };
+  gasContext?: GasContext | null;
   
-  // Rules stage (跳过 MVP)
+  // MEV stage (block context + rule-based detectors)
+  blockContext?: BlockContext | null;
+  mevPattern?: MEVPattern;
+  profitSummary?: ProfitSummary | null;
+  builderPayment?: BuilderPayment | null;
+  flashLoans?: FlashLoan[];
+  swaps?: Swap[];
 
   // CallTrace stage (address enrichment + LLM step explanation)
   callTraceEnrichment?: Record<string, CallTraceAddressInfo>;
   flattenedCalls?: FlattenedCall[];
+  decodedEvents?: DecodedEvent[];
+  balanceDeltas?: BalanceDelta[];
   callTraceExplanation?: string;
 
+  // Failure stage (reverted transactions only)
+  failureAnalysis?: FailureAnalysis | null;
+
   // Draft stage
   draftExplanation?: string;
 
@@ -163,12 +680,21 @@ export interface AnalysisState {
   finalReport?: {
     summary: string;
     mevType: MEVType;
+    mevPattern?: MEVPattern;
     steps: string[];
     tokenFlows: TokenFlow[];
     technicalDetails: Record<string, any>;
     verification?: { passed: boolean; issues: string[] };
     callTraceExplanation?: string;
     tenderlyCallTrace?: any;
+    flattenedCalls?: FlattenedCall[];
+    events?: DecodedEvent[];
+    balanceDeltas?: BalanceDelta[];
+    profit?: ProfitSummary | null;
+    builderPayment?: BuilderPayment | null;
+    flashLoans?: FlashLoan[];
+    swaps?: Swap[];
+    failure?: FailureAnalysis | null;
     etherscanInternalTxs?: InternalTransaction[];
   };
   
@@ -188,6 +714,13 @@ export interface Config {
   
   tenderlyRpcUrl?: string;
   useTenderlySimulation?: boolean;
+  traceProvider?: string;
+  traceRpcUrl?: string;
+  anvilRpcUrl?: string;
+  simulationBackend?: 'tenderly' | 'anvil';
+  fixtureMode?: 'off' | 'record' | 'replay';
+  fixtureDir?: string;
+  analysisCache?: boolean;
   enableVerification?: boolean;
 }
 
@@ -215,19 +748,30 @@ export type ProgressEvent =
         decodedFunction: any;
         addressLabels: Record<string, string>;
         internalTxs: any[];
-        gasContext: { gasPrice: string | null; baseFee: string | null } | null;
+        gasContext: GasContext | null;
       };
     }
   | { type: 'tenderly_start' }
   | { type: 'tenderly_done'; payload: { trace: any; calls: any[] } }
+  | { type: 'mev_detect_start' }
+  | { type: 'mev_detect_done'; payload: { mevPattern: MEVPattern; blockTxsScanned: number; balanceDeltas: BalanceDelta[]; profitSummary: ProfitSummary | null; builderPayment: BuilderPayment | null; flashLoans: FlashLoan[]; swaps: Swap[] } }
   | { type: 'calltrace_enrich_start' }
-  | { type: 'calltrace_enrich_done'; payload: { addressesEnriched: number } }
+  | { type: 'calltrace_enrich_done'; payload: { addressesEnriched: number; eventsDecoded: number } }
   | { type: 'calltrace_explain_start' }
   | { type: 'calltrace_explain_done'; payload?: { explanationLength: number } }
+  | { type: 'failure_analysis_done'; payload: { failureAnalysis: FailureAnalysis } }
   | { type: 'draft_start' }
   | { type: 'draft_chunk'; content: string }
   | { type: 'draft_done' }
   | { type: 'verify_start' }
   | { type: 'verify_done'; payload?: { passed: boolean; issuesCount: number } }
+  | { type: 'block_scan_start'; payload: { blockNumber: number; chain: string } }
+  | { type: 'block_done'; payload: { summary: BlockMEVSummary } }
+  | { type: 'address_done'; payload: { report: AddressReport } }
+  | { type: 'simulation_start'; payload: { from: string; to: string; chain: string; blockNumber: number } }
+  | { type: 'simulation_done'; payload: { report: SimulationReport } }
+  | { type: 'counterfactual_start'; payload: { txHash: string; scenario: string } }
+  | { type: 'counterfactual_done'; payload: { report: CounterfactualReport } }
+  | { type: 'cache_hit'; payload: { pipelineVersion: number; cachedAt: number } }
   | { type: 'done'; payload: { report: any } }
   | { type: 'error'; message: string; step?: string };